@@ -2,26 +2,60 @@
 
 import { Shell } from './shell.js';
 import { HttpClient } from './http/http-client.js';
-import { StringUtil } from './utils/string-util.js';
 import { GitService, GitFileStatus } from './services/git-service.js';
-import { OpenAiService } from './services/openai-service.js';
-import { GitPlatformServiceFactory, GitPlatformService, getGitAccessTokenForCurrentRepo, MergeRequestOptions } from './services/git-platform-service.js';
-import { WecomNotifier } from './services/wecom-notifier.js';
+import { OpenAiService, CommitGenerationResult, PromptTemplates } from './services/openai-service.js';
+import { LlmProviderFactory } from './services/llm-provider-factory.js';
+import { HeuristicCommitGenerator } from './services/heuristic-commit-generator.js';
+import { CommitLintService } from './services/commit-lint-service.js';
+import { IssueLinkService, IssueReference } from './services/issue-link-service.js';
+import { StackService } from './services/stack-service.js';
+import { ReviewerService } from './services/reviewer-service.js';
+import { GitPlatformServiceFactory, GitPlatformService, getGitAccessTokenForCurrentRepo, MergeRequestOptions, OpenMergeRequest } from './services/git-platform-service.js';
+import { MergeRequestNotice, Notifier } from './services/notifier.js';
+import { NotifierFactory } from './services/notifier-factory.js';
 import { configLoader, parseCliArgs, getConfigValue, getCliHelp, LoadedConfig, initConfig } from './config.js';
 import { UpdateChecker } from './utils/update-checker.js';
 import { ColorUtil } from './utils/color-util.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import clipboard from 'clipboardy';
 import readline from 'readline';
 import { logger } from './logger.js';
 import { readFileSync } from 'fs';
 import crypto from 'crypto';
 import { processExit } from './utils/process-exit.js';
+import { EditorUtil } from './utils/editor-util.js';
+import { TemplateUtil } from './utils/template-util.js';
+import { BranchNameUtil, BranchNameVariables } from './utils/branch-name-util.js';
+import { OutputUtil } from './utils/output-util.js';
+import { CiUtil } from './utils/ci-util.js';
+
+/**
+ * Fields of the generated content that can be edited during review
+ */
+export type ReviewField = 'commit' | 'branch' | 'title' | 'description';
+
+/**
+ * Everything a workflow would do, printed instead of executed in dry-run mode
+ */
+export interface DryRunPlan {
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  commit: string;
+  changedFiles: string[];
+  gitCommands: string[];
+  mergeRequestOptions?: MergeRequestOptions;
+  /** Open merge request that would be updated instead of creating a new one */
+  existingMergeRequestUrl?: string;
+}
+
 /**
  * Base class for AI-powered Git automation applications
  */
 export abstract class BaseAiflowApp {
+  /** Branch name template used when git.branch_template is not configured */
+  protected static readonly DEFAULT_BRANCH_TEMPLATE = '{user}/{issue}-{type}-{slug}-{random}';
+
   protected readonly shell = Shell.instance();
   protected readonly http = new HttpClient();
   protected readonly git = GitService.instance();
@@ -29,7 +63,15 @@ export abstract class BaseAiflowApp {
   protected config!: LoadedConfig;
   protected openai!: OpenAiService;
   protected gitPlatform!: GitPlatformService;
-  protected wecom!: WecomNotifier;
+  /** Enabled chat notifiers (WeCom, Slack, Feishu/Lark, DingTalk) */
+  protected notifiers: Notifier[] = [];
+  protected readonly heuristic = new HeuristicCommitGenerator();
+  /** Commit lint rules, loaded on first use (null when disabled or not configured) */
+  private commitLint?: CommitLintService | null;
+  /** Issue referenced by the current change, resolved on first use (null when disabled or not found) */
+  private issue?: IssueReference | null;
+  /** Project labels the AI may suggest, listed on first use (empty when disabled or unavailable) */
+  private labelAllowlist?: string[];
 
   /**
    * Initialize services with configuration
@@ -39,25 +81,26 @@ export abstract class BaseAiflowApp {
     this.config = await configLoader.loadConfig(cliConfig);
 
     // Initialize services with configuration
+    const llmProvider = LlmProviderFactory.normalizeType(getConfigValue(this.config, 'openai.provider', 'openai'));
     this.openai = new OpenAiService(
       getConfigValue(this.config, 'openai.key', '') || '',
-      getConfigValue(this.config, 'openai.baseUrl', 'https://api.openai.com/v1') || 'https://api.openai.com/v1',
+      getConfigValue(this.config, 'openai.baseUrl', '') || LlmProviderFactory.getDefaultBaseUrl(llmProvider),
       getConfigValue(this.config, 'openai.model', 'gpt-3.5-turbo') || 'gpt-3.5-turbo',
-      getConfigValue(this.config, 'openai.reasoning', false) || false
+      getConfigValue(this.config, 'openai.reasoning', false) || false,
+      llmProvider,
+      this.loadPromptTemplates()
     );
 
     // Create platform-specific service using factory (fully automatic)
     const platformService = await GitPlatformServiceFactory.create();
 
     if (!platformService) {
-      throw new Error('Unsupported Git platform. Currently supported: GitLab, GitHub');
+      throw new Error(`Unsupported Git platform. Currently supported: ${GitPlatformServiceFactory.getSupportedPlatforms().join(', ')}`);
     }
 
     this.gitPlatform = platformService;
 
-    this.wecom = new WecomNotifier(
-      getConfigValue(this.config, 'wecom.webhook', '') || ''
-    );
+    this.notifiers = NotifierFactory.createAll(this.config);
 
     // Display configuration warnings
     const warnings = configLoader.getWarnings();
@@ -69,6 +112,41 @@ export abstract class BaseAiflowApp {
   }
 
 
+  /**
+   * Load prompt customization from configuration.
+   * Template file paths are resolved relative to the repository root.
+   * @returns Prompt templates for the AI service
+   */
+  protected loadPromptTemplates(): PromptTemplates {
+    const systemTemplatePath = getConfigValue(this.config, 'prompts.system_template', '');
+    const userTemplatePath = getConfigValue(this.config, 'prompts.user_template', '');
+    const mrSections = getConfigValue(this.config, 'prompts.mr_sections');
+    const titleInstructions = getConfigValue(this.config, 'prompts.title_instructions', '');
+
+    const templates: PromptTemplates = {};
+    if (systemTemplatePath || userTemplatePath) {
+      const repoRoot = this.git.getRepositoryRoot();
+      if (systemTemplatePath) {
+        templates.systemTemplate = TemplateUtil.loadFile(systemTemplatePath, repoRoot);
+        logger.info(`📝 Using system prompt template: ${systemTemplatePath}`);
+      }
+      if (userTemplatePath) {
+        templates.userTemplate = TemplateUtil.loadFile(userTemplatePath, repoRoot);
+        logger.info(`📝 Using user prompt template: ${userTemplatePath}`);
+      }
+    }
+
+    if (mrSections && Array.isArray(mrSections) && mrSections.length > 0) {
+      templates.mrSections = mrSections.map(section => String(section));
+    }
+
+    if (titleInstructions) {
+      templates.titleInstructions = titleInstructions;
+    }
+
+    return templates;
+  }
+
   /**
    * Interactive file selection for staging
    * @returns Promise<boolean> - true if files were staged, false if user cancelled
@@ -81,6 +159,10 @@ export abstract class BaseAiflowApp {
       return false;
     }
 
+    if (CiUtil.isCiMode()) {
+      await CiUtil.refuseInteractivePrompt('no staged changes to select from, stage files with "git add" before running aiflow');
+    }
+
     console.log(`\n${ColorUtil.UI_COLORS.emoji('📁')} ${ColorUtil.header('Detected file changes:')}`);
     console.log(ColorUtil.separator());
 
@@ -246,19 +328,12 @@ export abstract class BaseAiflowApp {
    * Validate required configuration for the application
    */
   protected validateConfiguration(validateGitAccessToken: boolean = true): boolean {
-    const requiredConfigs = [
-      { key: 'openai.key', name: 'OpenAI API Key' },
-      { key: 'openai.baseUrl', name: 'OpenAI Base URL' },
-      { key: 'openai.model', name: 'OpenAI Model' },
-    ];
-
     const missing: string[] = [];
 
-    for (const config of requiredConfigs) {
-      const value = getConfigValue(this.config, config.key, '');
-      if (!value) {
-        missing.push(config.name);
-      }
+    // Missing AI configuration is not fatal, the offline generator is used instead
+    const missingAiConfigs = this.getMissingAiConfigs();
+    if (!this.isNoAiMode() && missingAiConfigs.length > 0) {
+      logger.warn(`⚠️  Missing AI configuration: ${missingAiConfigs.join(', ')}. Commit information will be generated offline.`);
     }
 
     // Validate Git access token for current repository
@@ -281,6 +356,877 @@ export abstract class BaseAiflowApp {
     return true;
   }
 
+  /**
+   * Check if the interactive review step is enabled
+   * @returns True if git.review is enabled in configuration
+   */
+  protected isReviewEnabled(): boolean {
+    return getConfigValue<boolean>(this.config, 'git.review', false) === true;
+  }
+
+  /**
+   * Interactive review of AI generated content before anything is committed.
+   * Lets the user accept, regenerate, edit a field in $EDITOR or abort.
+   * @param result Generated content to review
+   * @param regenerate Callback producing a fresh generation result
+   * @param fields Fields shown and editable in this workflow
+   * @returns Reviewed content, or null if the user aborted
+   */
+  protected async reviewGeneratedContent(
+    result: CommitGenerationResult,
+    regenerate: () => Promise<CommitGenerationResult>,
+    fields: ReviewField[] = ['commit', 'branch', 'title', 'description']
+  ): Promise<CommitGenerationResult | null> {
+    const labels: Record<ReviewField, string> = {
+      commit: 'Commit message',
+      branch: 'Branch suggestion',
+      title: 'MR title',
+      description: 'MR description'
+    };
+    const shortcuts: Record<string, ReviewField> = { c: 'commit', b: 'branch', t: 'title', d: 'description' };
+    let current = { ...result };
+
+    if (CiUtil.isCiMode()) {
+      await CiUtil.refuseInteractivePrompt('git.review is enabled, disable it with "--review false" or GIT_REVIEW=false');
+    }
+
+    while (true) {
+      console.log(`\n${ColorUtil.UI_COLORS.emoji('🔍')} ${ColorUtil.header('Review generated content:')}`);
+      console.log(ColorUtil.separator());
+      for (const field of fields) {
+        console.log(`${ColorUtil.LOG_COLORS.info(`${labels[field]}:`)}`);
+        console.log(`${current[field] || ''}\n`);
+      }
+      console.log(ColorUtil.separator());
+      console.log(`  ${ColorUtil.UI_COLORS.emoji('•')} [a]ccept   - continue with this content`);
+      console.log(`  ${ColorUtil.UI_COLORS.emoji('•')} [r]egenerate - ask the AI again`);
+      console.log(`  ${ColorUtil.UI_COLORS.emoji('•')} [e]dit     - edit a field in ${EditorUtil.getEditorCommand()}`);
+      console.log(`  ${ColorUtil.UI_COLORS.emoji('•')} [q]uit     - abort without committing`);
+
+      const action = (await this.askQuestion(`\n${ColorUtil.UI_COLORS.emoji('❓')} ${ColorUtil.prompt('Choose an action (A/r/e/q): ')}`)).trim().toLowerCase();
+
+      if (action === '' || action === 'a' || action === 'accept') {
+        return current;
+      }
+
+      if (action === 'q' || action === 'quit' || action === 'abort') {
+        console.log(ColorUtil.error('Operation aborted by user.'));
+        OutputUtil.recordResult({ status: 'aborted' });
+        return null;
+      }
+
+      if (action === 'r' || action === 'regenerate') {
+        logger.info(`🤖 Regenerating content...`);
+        try {
+          current = await regenerate();
+        } catch (error) {
+          console.log(ColorUtil.error(`Regeneration failed: ${error instanceof Error ? error.message : error}`));
+        }
+        continue;
+      }
+
+      if (action === 'e' || action === 'edit') {
+        let field: ReviewField | undefined = fields.length === 1 ? fields[0] : undefined;
+        if (!field) {
+          const options = fields.map(f => `${f[0]}=${f}`).join(', ');
+          const answer = (await this.askQuestion(`${ColorUtil.UI_COLORS.emoji('✏️')} ${ColorUtil.prompt(`Field to edit (${options}): `)}`)).trim().toLowerCase();
+          field = fields.find(f => f === answer || shortcuts[answer] === f);
+        }
+
+        if (!field) {
+          console.log(ColorUtil.warning('Unknown field, nothing edited.'));
+          continue;
+        }
+
+        try {
+          const edited = EditorUtil.editText(current[field] || '', field === 'description' ? 'AIFLOW_DESCRIPTION.md' : 'AIFLOW_EDITMSG');
+          if (!edited.trim()) {
+            console.log(ColorUtil.warning(`Empty ${labels[field].toLowerCase()}, keeping the previous value.`));
+          } else {
+            current = { ...current, [field]: edited };
+          }
+        } catch (error) {
+          console.log(ColorUtil.error(`${error instanceof Error ? error.message : error}`));
+        }
+        continue;
+      }
+
+      console.log(ColorUtil.warning(`Unknown action "${action}".`));
+    }
+  }
+
+  /**
+   * Ask a single question on the terminal.
+   * A fresh readline interface is used so the external editor can take over stdin in between.
+   */
+  private async askQuestion(prompt: string): Promise<string> {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    try {
+      return await new Promise<string>((resolve) => rl.question(prompt, resolve));
+    } finally {
+      rl.close();
+    }
+  }
+
+  /**
+   * Check if dry-run mode is enabled via CLI arguments
+   * @returns True if --dry-run or -dr is present in CLI args
+   */
+  protected isDryRunMode(): boolean {
+    const args = process.argv.slice(2);
+    return args.includes('--dry-run') || args.includes('-dr');
+  }
+
+  /**
+   * Check if AI generation is disabled via CLI arguments
+   * @returns True if --no-ai or -nai is present in CLI args
+   */
+  protected isNoAiMode(): boolean {
+    const args = process.argv.slice(2);
+    return args.includes('--no-ai') || args.includes('-nai');
+  }
+
+  /**
+   * Get the names of missing AI provider settings
+   * @returns Missing setting names, empty if AI generation is fully configured
+   */
+  private getMissingAiConfigs(): string[] {
+    const llmProvider = LlmProviderFactory.normalizeType(getConfigValue(this.config, 'openai.provider', 'openai'));
+    const requiredConfigs = [
+      // Ollama runs without an API key, Anthropic and Ollama have default base URLs
+      ...(llmProvider !== 'ollama' ? [{ key: 'openai.key', name: 'OpenAI API Key' }] : []),
+      ...(llmProvider === 'openai' ? [{ key: 'openai.baseUrl', name: 'OpenAI Base URL' }] : []),
+      { key: 'openai.model', name: 'OpenAI Model' },
+    ];
+
+    return requiredConfigs
+      .filter(config => !getConfigValue(this.config, config.key, ''))
+      .map(config => config.name);
+  }
+
+  /**
+   * Generate commit message, branch name and MR content for a diff.
+   * Falls back to the offline heuristic generator when AI generation is disabled,
+   * not configured or fails.
+   * @param diff The git diff content to analyze
+   * @param language Language code for generated content
+   * @returns Commit generation result
+   */
+  protected async generateCommitInfo(diff: string, language: string = 'en'): Promise<CommitGenerationResult> {
+    const generated = await this.generateLintedCommitInfo(diff, language);
+    OutputUtil.recordResult({ usage: this.openai.getTotalUsage() });
+    return this.applyIssueReference(generated);
+  }
+
+  /**
+   * Generate commit information with AI or offline, validated against the commit lint rules
+   * @param diff The git diff content to analyze
+   * @param language Language code for generated content
+   * @returns Commit generation result
+   */
+  private async generateLintedCommitInfo(diff: string, language: string): Promise<CommitGenerationResult> {
+    const mrTemplate = this.git.getMergeRequestTemplate();
+    if (mrTemplate) {
+      logger.info(`📋 Using repository merge request template: ${mrTemplate.path}`);
+    }
+
+    if (this.isNoAiMode()) {
+      logger.info(`🧮 AI generation disabled (--no-ai), generating commit information offline`);
+      return this.applyCommitLint(this.heuristic.generate(diff, language, mrTemplate?.content), language, false);
+    }
+
+    if (this.getMissingAiConfigs().length > 0) {
+      logger.warn(`⚠️  AI provider not configured, generating commit information offline`);
+      return this.applyCommitLint(this.heuristic.generate(diff, language, mrTemplate?.content), language, false);
+    }
+
+    let generated: CommitGenerationResult;
+    try {
+      generated = await this.openai.generateCommitAndBranch(diff, language, {
+        branch: this.git.getCurrentBranch() || undefined,
+        mrTemplate: mrTemplate?.content,
+        labels: await this.getLabelAllowlist()
+      });
+    } catch (error) {
+      logger.warn(`⚠️  AI generation failed, falling back to offline generation: ${error instanceof Error ? error.message : error}`);
+      return this.applyCommitLint(this.heuristic.generate(diff, language, mrTemplate?.content), language, false);
+    }
+
+    return this.applyCommitLint(generated, language, true);
+  }
+
+  /**
+   * Generate only the MR description for a diff. The commit message is not used,
+   * so commit lint is skipped and AI failures fall back to the offline generator instead of throwing.
+   * @param diff The git diff content to analyze
+   * @param language Language code for generated content
+   * @returns MR description, referencing the issue like newly created merge requests
+   */
+  protected async generateDescription(diff: string, language: string = 'en'): Promise<string> {
+    const mrTemplate = this.git.getMergeRequestTemplate();
+    let description: string;
+    if (this.isNoAiMode() || this.getMissingAiConfigs().length > 0) {
+      description = this.heuristic.generate(diff, language, mrTemplate?.content).description;
+    } else {
+      try {
+        const generated = await this.openai.generateCommitAndBranch(diff, language, {
+          branch: this.git.getCurrentBranch() || undefined,
+          mrTemplate: mrTemplate?.content
+        });
+        description = generated.description;
+      } catch (error) {
+        logger.warn(`⚠️  AI generation failed, falling back to offline generation: ${error instanceof Error ? error.message : error}`);
+        description = this.heuristic.generate(diff, language, mrTemplate?.content).description;
+      }
+    }
+    OutputUtil.recordResult({ usage: this.openai.getTotalUsage() });
+
+    const issue = this.getIssueReference();
+    return issue ? this.createIssueLinkService().applyToDescription(description, issue) : description;
+  }
+
+  /**
+   * Get the project labels the AI may suggest for the merge request
+   * @returns Label names, empty if label suggestions are disabled or the labels cannot be listed
+   */
+  private async getLabelAllowlist(): Promise<string[]> {
+    if (this.labelAllowlist === undefined) {
+      this.labelAllowlist = [];
+      if (getConfigValue<boolean>(this.config, 'merge_request.ai_labels', true) !== false) {
+        try {
+          this.labelAllowlist = await this.gitPlatform.getProjectLabels();
+          if (this.labelAllowlist.length > 0) {
+            logger.info(`🏷️  Suggesting merge request labels from ${this.labelAllowlist.length} project labels`);
+          }
+        } catch (error) {
+          logger.warn(`⚠️  Failed to list project labels, skipping label suggestions: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+    return this.labelAllowlist;
+  }
+
+  /**
+   * Get the commit lint rules from configuration and the repository's commitlint configuration
+   * @returns Commit lint service, or null if linting is disabled or no rules are configured
+   */
+  private async getCommitLint(): Promise<CommitLintService | null> {
+    if (this.commitLint === undefined) {
+      this.commitLint = getConfigValue<boolean>(this.config, 'commit_lint.enable', true) === false
+        ? null
+        : await CommitLintService.load(this.git.getRepositoryRoot(), getConfigValue(this.config, 'commit_lint', {}) || {});
+    }
+    return this.commitLint;
+  }
+
+  /**
+   * Validate the generated commit message against the commit lint rules.
+   * Violations are sent back to the AI for correction, up to commit_lint.max_retries times.
+   * Messages that cannot be corrected by the AI (offline generation) are adjusted to the rules instead,
+   * and remaining violations are only logged.
+   * @param generated Generated commit information
+   * @param language Language code for generated content
+   * @param canCorrect Whether the AI can be asked to correct violations
+   * @returns Commit information with a valid commit message
+   * @throws Error if the AI generated commit message still violates the rules
+   */
+  protected async applyCommitLint(generated: CommitGenerationResult, language: string, canCorrect: boolean): Promise<CommitGenerationResult> {
+    const commitLint = await this.getCommitLint();
+    if (!commitLint) {
+      return generated;
+    }
+
+    const maxRetries = getConfigValue(this.config, 'commit_lint.max_retries', 2) ?? 2;
+    let result = generated;
+    if (!canCorrect) {
+      const commit = commitLint.conform(generated.commit);
+      const header = generated.commit.split('\n')[0];
+      result = {
+        ...generated,
+        commit,
+        // Offline titles are the commit header
+        title: generated.title === header ? commit.split('\n')[0] : generated.title
+      };
+    }
+    let violations = commitLint.lint(result.commit);
+
+    for (let attempt = 1; violations.length > 0 && canCorrect && attempt <= maxRetries; attempt++) {
+      logger.warn(`⚠️  Commit message violates commit lint rules, requesting correction (${attempt}/${maxRetries}):`);
+      violations.forEach(violation => logger.warn(`   - ${violation}`));
+      try {
+        result = await this.openai.correctCommitMessage(result, violations, commitLint.describeRules(), language);
+      } catch (error) {
+        logger.warn(`⚠️  Failed to correct commit message: ${error instanceof Error ? error.message : error}`);
+        break;
+      }
+      violations = commitLint.lint(result.commit);
+    }
+
+    if (violations.length > 0) {
+      if (!canCorrect) {
+        logger.warn(`⚠️  Offline commit message "${result.commit.split('\n')[0]}" still violates commit lint rules: ${violations.join('; ')}`);
+        return result;
+      }
+      throw new Error(`Commit message "${result.commit.split('\n')[0]}" violates commit lint rules: ${violations.join('; ')}`);
+    }
+
+    logger.info(`✅ Commit message passes commit lint rules`);
+    return result;
+  }
+
+  /**
+   * Get the issue referenced by the current change.
+   * Priority: issue.key (--issue) > current branch name > commits not yet on the target branch.
+   * @returns Issue reference, or null if issue linking is disabled or no issue is found
+   */
+  protected getIssueReference(): IssueReference | null {
+    if (this.issue === undefined) {
+      if (getConfigValue<boolean>(this.config, 'issue.enable', true) === false) {
+        this.issue = null;
+      } else {
+        this.issue = IssueLinkService.resolve({
+          explicit: getConfigValue(this.config, 'issue.key', '') || undefined,
+          branch: this.git.getCurrentBranch() || undefined,
+          commitMessages: this.git.getRecentCommitMessages(this.git.getTargetBranch()),
+          projectKeys: getConfigValue<string[]>(this.config, 'issue.project_keys', [])
+        });
+        if (this.issue) {
+          logger.info(`🔗 Issue: ${this.issue.key} (from ${this.issue.source})`);
+        }
+      }
+    }
+    return this.issue;
+  }
+
+  /**
+   * Add the issue key to the commit message, MR title and description
+   * @param generated Generated commit information
+   * @returns Commit information referencing the issue
+   */
+  protected applyIssueReference(generated: CommitGenerationResult): CommitGenerationResult {
+    const issue = this.getIssueReference();
+    if (!issue) {
+      return generated;
+    }
+
+    const issueLink = this.createIssueLinkService();
+    return {
+      ...generated,
+      commit: issueLink.applyToCommit(generated.commit, issue),
+      title: issueLink.applyToTitle(generated.title, issue),
+      description: issueLink.applyToDescription(generated.description, issue)
+    };
+  }
+
+  /**
+   * Create the issue link service from the issue configuration
+   */
+  private createIssueLinkService(): IssueLinkService {
+    return new IssueLinkService(
+      getConfigValue(this.config, 'issue.closing_keyword', 'Closes') || 'Closes',
+      getConfigValue<boolean>(this.config, 'issue.close_inferred', false)
+    );
+  }
+
+  /**
+   * Build the branch name from git.branch_template (or the default template)
+   * and validate it against git.branch_policy
+   * @param generated Generated commit information
+   * @param defaultTemplate Template used when git.branch_template is not configured
+   * @param variables Additional placeholder values (e.g. package)
+   * @returns Branch name
+   * @throws Error if the branch name is invalid or does not match the policy
+   */
+  protected buildBranchName(generated: CommitGenerationResult, defaultTemplate: string, variables: BranchNameVariables = {}): string {
+    const template = getConfigValue(this.config, 'git.branch_template', '') || defaultTemplate;
+    const issue = this.getIssueReference();
+    const now = new Date().toISOString();
+
+    const branchName = BranchNameUtil.render(template, {
+      // Dots in user names are rejected by some push rules
+      user: this.git.getUserName().replace(/\./g, '-'),
+      ...BranchNameUtil.splitBranch(generated.branch, generated.commit),
+      issue: issue ? issue.key.replace(/^#/, '') : '',
+      date: now.slice(0, 10).replace(/-/g, ''),
+      datetime: now.slice(0, 19).replace(/-|T|:/g, ''),
+      shortsha: template.includes('{shortsha}') ? this.git.getShortCommit() : '',
+      random: crypto.randomUUID().substring(0, 6),
+      ...variables
+    });
+
+    const policy = getConfigValue(this.config, 'git.branch_policy', '') || undefined;
+    const violations = BranchNameUtil.validate(branchName, policy);
+    if (violations.length > 0) {
+      throw new Error(`Invalid branch name "${branchName}": ${violations.join('; ')}`);
+    }
+    return branchName;
+  }
+
+  /**
+   * Comment the merge request link on the platform issue
+   * @param mrUrl Merge request URL
+   */
+  protected async linkIssueToMergeRequest(mrUrl: string): Promise<void> {
+    const issue = this.getIssueReference();
+    if (!issue || issue.number === undefined || getConfigValue<boolean>(this.config, 'issue.link', true) === false) {
+      return;
+    }
+
+    try {
+      if (await this.gitPlatform.linkIssue(issue.number, mrUrl)) {
+        logger.info(`🔗 Linked merge request to issue ${issue.key}`);
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Failed to link merge request to issue ${issue.key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Send the merge request notice to all enabled notifiers (chat bots and generic webhooks).
+   * A failing notifier is reported without stopping the others, the merge request already exists.
+   * @param notice Merge request notice
+   */
+  protected async sendNotifications(notice: MergeRequestNotice): Promise<void> {
+    if (this.notifiers.length === 0) {
+      return;
+    }
+
+    logger.info(`📢 Sending notification...`);
+    const noticeWithAuthor = { ...notice, author: notice.author ?? this.git.getUserDisplayName() };
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.sendMergeRequestNotice(noticeWithAuthor);
+        logger.info(`📢 Notification sent via ${notifier.getNotifierName()}.`);
+      } catch (error) {
+        logger.warn(`⚠️  Failed to send ${notifier.getNotifierName()} notification: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  /**
+   * Recommend reviewers for the changed files from CODEOWNERS and the authorship of the changed lines.
+   * merge_request.recommend_reviewers "suggest" logs them, "assign" adds them to the merge request.
+   * @param changedFiles Changed files relative to the repository root
+   * @param baseRef Commit the branch changes are compared against, staged changes are used if empty
+   * @returns User IDs of the reviewers to assign, empty unless recommend_reviewers is "assign"
+   */
+  protected async recommendReviewers(changedFiles: string[], baseRef?: string): Promise<number[]> {
+    const mode = getConfigValue(this.config, 'merge_request.recommend_reviewers', 'off') || 'off';
+    if (mode === 'off' || changedFiles.length === 0) {
+      return [];
+    }
+    if (mode !== 'suggest' && mode !== 'assign') {
+      logger.warn(`⚠️  Unknown merge_request.recommend_reviewers "${mode}", expected off, suggest or assign`);
+      return [];
+    }
+
+    const count = getConfigValue(this.config, 'merge_request.reviewer_count', 2) ?? 2;
+    try {
+      const reviewers = await new ReviewerService(this.git, this.gitPlatform).recommend(changedFiles, count, baseRef);
+      if (reviewers.length === 0) {
+        logger.info(`👀 No reviewers found for the changed files`);
+        return [];
+      }
+      logger.info(`👀 ${mode === 'assign' ? 'Assigning' : 'Suggested'} reviewers:`);
+      reviewers.forEach(reviewer => logger.info(`   - @${reviewer.user.username} (${reviewer.name}): owns ${reviewer.ownedFiles} file(s), authored ${reviewer.authoredLines} changed line(s)`));
+      return mode === 'assign' ? reviewers.map(reviewer => reviewer.user.id) : [];
+    } catch (error) {
+      logger.warn(`⚠️  Failed to recommend reviewers: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Build merge request options from configuration
+   * @param description Merge request description
+   * @param suggestedLabels Labels suggested by the AI, added to the configured labels
+   * @param recommendedReviewerIds User IDs of recommended reviewers, added to the configured reviewers
+   * @returns Merge request options
+   */
+  protected buildMergeRequestOptions(description: string, suggestedLabels: string[] = [], recommendedReviewerIds: number[] = []): MergeRequestOptions {
+    const squashCommits = getConfigValue(this.config, 'git.squashCommits', true);
+    const removeSourceBranch = getConfigValue(this.config, 'git.removeSourceBranch', true);
+
+    // Get merge request configuration
+    const assigneeId = getConfigValue(this.config, 'merge_request.assignee_id');
+    const assigneeIds = getConfigValue(this.config, 'merge_request.assignee_ids');
+    const assignees = getConfigValue(this.config, 'merge_request.assignees');
+    const reviewerIds = getConfigValue(this.config, 'merge_request.reviewer_ids');
+    const reviewers = getConfigValue(this.config, 'merge_request.reviewers');
+    const draft = getConfigValue(this.config, 'merge_request.draft');
+    const labels = getConfigValue(this.config, 'merge_request.labels');
+    const milestone = getConfigValue<string | number>(this.config, 'merge_request.milestone');
+    const allowCollaboration = getConfigValue(this.config, 'merge_request.allow_collaboration');
+
+    const mergeRequestOptions: MergeRequestOptions = {
+      squash: squashCommits,
+      removeSourceBranch: removeSourceBranch,
+      description: description
+    };
+
+    // Add assignee configuration if specified
+    if (typeof assigneeId === 'number' && assigneeId > 0) {
+      mergeRequestOptions.assignee_id = assigneeId;
+    }
+
+    if (assigneeIds && Array.isArray(assigneeIds) && assigneeIds.length > 0) {
+      mergeRequestOptions.assignee_ids = assigneeIds;
+    }
+
+    if (assignees && Array.isArray(assignees) && assignees.length > 0) {
+      mergeRequestOptions.assignees = assignees;
+    }
+
+    const allReviewerIds = [...new Set([...(Array.isArray(reviewerIds) ? reviewerIds : []), ...recommendedReviewerIds])];
+    if (allReviewerIds.length > 0) {
+      mergeRequestOptions.reviewer_ids = allReviewerIds;
+    }
+
+    if (reviewers && Array.isArray(reviewers) && reviewers.length > 0) {
+      mergeRequestOptions.reviewers = reviewers;
+    }
+
+    if (draft === true) {
+      mergeRequestOptions.draft = true;
+    }
+
+    const allLabels = [...new Set([...(Array.isArray(labels) ? labels : []), ...suggestedLabels])];
+    if (allLabels.length > 0) {
+      mergeRequestOptions.labels = allLabels;
+    }
+
+    if (milestone !== undefined && milestone !== null && milestone !== '') {
+      mergeRequestOptions.milestone = milestone;
+    }
+
+    if (typeof allowCollaboration === 'boolean') {
+      mergeRequestOptions.allow_collaboration = allowCollaboration;
+    }
+
+    return mergeRequestOptions;
+  }
+
+  /**
+   * Print the git commands and platform API payloads a workflow would send, without sending them
+   * @param plan Planned workflow actions
+   */
+  protected async printDryRunPlan(plan: DryRunPlan): Promise<void> {
+    OutputUtil.recordResult({
+      status: 'dry_run',
+      mrUrl: plan.existingMergeRequestUrl,
+      branchName: plan.sourceBranch,
+      targetBranch: plan.targetBranch,
+      commit: plan.commit,
+      title: plan.title,
+      changedFiles: plan.changedFiles
+    });
+
+    const lines: string[] = [];
+    lines.push(`🧪 Dry run - nothing was committed, pushed, created or sent`);
+    lines.push('─'.repeat(50));
+    lines.push(`🌿 Branch: ${plan.sourceBranch} -> ${plan.targetBranch}`);
+    lines.push(`📁 Changed files (${plan.changedFiles.length}):`);
+    lines.push(...plan.changedFiles.map(file => `  • ${file}`));
+    lines.push(`📝 Commit message:`);
+    lines.push(plan.commit);
+    lines.push('');
+    lines.push(`💻 Git commands:`);
+    lines.push(...plan.gitCommands.map(command => `  $ ${command}`));
+
+    if (plan.existingMergeRequestUrl) {
+      lines.push('');
+      lines.push(`🔄 Open merge request would be updated: ${plan.existingMergeRequestUrl}`);
+    } else if (plan.mergeRequestOptions) {
+      const requests = await this.gitPlatform.previewMergeRequest(plan.sourceBranch, plan.targetBranch, plan.title, plan.mergeRequestOptions);
+      lines.push('');
+      lines.push(`🌐 ${this.gitPlatform.getPlatformName()} API requests:`);
+      for (const request of requests) {
+        lines.push(`  ${request.method} ${request.url}`);
+        lines.push(`  Headers: ${JSON.stringify(request.headers)}`);
+        if (request.body !== undefined) {
+          lines.push(`  Body: ${request.body}`);
+        }
+      }
+
+      for (const notifier of this.notifiers) {
+        lines.push('');
+        lines.push(`📢 ${notifier.getNotifierName()} notification:`);
+        lines.push(`  POST ${notifier.getMaskedWebhook()}`);
+        try {
+          const payload = notifier.buildMergeRequestNoticePayload({
+            branch: plan.sourceBranch,
+            target: plan.targetBranch,
+            mrUrl: '<merge-request-url>',
+            title: plan.title,
+            commit: plan.commit,
+            changedFiles: plan.changedFiles,
+            author: this.git.getUserDisplayName()
+          });
+          lines.push(`  Body: ${JSON.stringify(payload)}`);
+        } catch (error) {
+          lines.push(`  ❌ ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    lines.push('─'.repeat(50));
+    logger.info(`\n${lines.join('\n')}`);
+  }
+
+  /**
+   * Find the open merge request of a branch, so it can be updated instead of creating a new one
+   * @param branchName Source branch name
+   * @returns Open merge request, or null if there is none or updating is disabled
+   */
+  protected async findExistingMergeRequest(branchName: string): Promise<OpenMergeRequest | null> {
+    if (getConfigValue<boolean>(this.config, 'merge_request.update_existing', true) === false) {
+      return null;
+    }
+
+    try {
+      const mergeRequest = await this.gitPlatform.findOpenMergeRequest(branchName);
+      if (mergeRequest) {
+        logger.info(`🔄 Found open merge request for ${branchName}: ${mergeRequest.web_url}`);
+      }
+      return mergeRequest;
+    } catch (error) {
+      logger.warn(`⚠️  Could not check for an open merge request: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Commit staged changes to the current branch and update its open merge request.
+   * The MR description is regenerated from the whole branch diff.
+   * @param mergeRequest Open merge request of the current branch
+   * @param currentBranch Current branch name
+   * @param diff Staged diff
+   * @param changedFiles Staged files
+   */
+  protected async updateExistingMergeRequest(mergeRequest: OpenMergeRequest, currentBranch: string, diff: string, changedFiles: string[]): Promise<void> {
+    logger.info(`🤖 Generating commit message...`);
+    const language = getConfigValue(this.config, 'git.generation_lang', 'en');
+    let generated = await this.generateCommitInfo(diff, language);
+    logger.info(`✅ Generated commit message length: ${generated.commit && generated.commit.length}`);
+
+    const reviewEnabled = this.isReviewEnabled();
+    if (reviewEnabled) {
+      // The branch and MR already exist, only the commit message can be reviewed
+      const reviewed = await this.reviewGeneratedContent(generated, () => this.generateCommitInfo(diff, language), ['commit']);
+      if (!reviewed) {
+        return;
+      }
+      generated = reviewed;
+    }
+    const { commit } = generated;
+
+    if (this.isDryRunMode()) {
+      await this.printDryRunPlan({
+        sourceBranch: currentBranch,
+        targetBranch: mergeRequest.target_branch,
+        title: mergeRequest.title,
+        commit,
+        changedFiles,
+        gitCommands: [...this.git.getCommitCommands(commit), ...this.git.getPushCommands(currentBranch)],
+        existingMergeRequestUrl: mergeRequest.web_url
+      });
+      return;
+    }
+
+    // Commit to the current branch
+    logger.info(`📤 Committing to ${currentBranch} and pushing changes...`);
+    if (!reviewEnabled) {
+      await ColorUtil.countdown(3, `Committing to branch(${currentBranch}) and pushing`, 'Committing now...');
+    }
+    this.git.commit(commit);
+
+    // Regenerate the MR description from the whole branch before pushing
+    logger.info(`🤖 Regenerating merge request description from ${mergeRequest.target_branch}...${currentBranch}`);
+    const branchDiff = this.git.getDiffBetweenBranches(mergeRequest.target_branch, currentBranch);
+    const description = branchDiff ? await this.generateDescription(branchDiff, language) : generated.description;
+
+    this.git.push(currentBranch);
+    const mrUrl = await this.gitPlatform.updateMergeRequest(mergeRequest, { description });
+    logger.info(`🔄 ${this.gitPlatform.getPlatformName() === 'github' ? 'Pull Request' : 'Merge Request'} updated:`, mrUrl);
+    OutputUtil.recordResult({
+      status: 'updated',
+      mrUrl,
+      branchName: currentBranch,
+      targetBranch: mergeRequest.target_branch,
+      commit,
+      title: mergeRequest.title,
+      changedFiles
+    });
+
+    logger.info(`✅ AIFlow workflow completed successfully!`);
+
+    const requestAbbr = this.gitPlatform.getPlatformName() === 'github' ? 'PR' : 'MR';
+    const outputMrInfo = `🔄 ${requestAbbr} 已更新
+📋 ${requestAbbr} 链接: ${mrUrl} ${mergeRequest.title}
+📝 提交信息:
+${commit}
+🌿 分支信息: ${currentBranch} ->  ${mergeRequest.target_branch}
+📁 本次变更文件 (${changedFiles.length} 个)${changedFiles.length > 10 ? `前10个: ` : ': '}
+${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles.length > 10 ? `\n...${changedFiles.length - 10}个文件` : ''}`;
+    logger.info(`\n${'-'.repeat(50)}\n${outputMrInfo}\n${'-'.repeat(50)}\n`);
+    if (await CiUtil.copyToClipboard(outputMrInfo)) {
+      logger.info("📋 MR info copied to clipboard.");
+    }
+  }
+
+  /**
+   * Check if stack mode is enabled via CLI arguments
+   * @returns True if --stack or -stk is present in CLI args
+   */
+  protected isStackMode(): boolean {
+    const args = process.argv.slice(2);
+    return args.includes('--stack') || args.includes('-stk');
+  }
+
+  /**
+   * Record a stacked merge request in .git/aiflow/stack.json.
+   * The parent branch is recorded too when it has an open merge request itself.
+   * @param parentBranch Branch the merge request targets
+   * @param branchName Source branch of the merge request
+   * @param base Parent commit the branch was created from
+   * @param mrUrl Merge request URL
+   */
+  protected async recordStack(parentBranch: string, branchName: string, base: string, mrUrl: string): Promise<void> {
+    try {
+      const stack = new StackService(this.git.getGitCommonDir());
+      if (!stack.getEntry(parentBranch)) {
+        const parentMergeRequest = await this.gitPlatform.findOpenMergeRequest(parentBranch).catch(() => null);
+        if (parentMergeRequest) {
+          stack.record({
+            branch: parentBranch,
+            parent: parentMergeRequest.target_branch,
+            base: this.git.getMergeBase(parentMergeRequest.target_branch, parentBranch) || undefined,
+            mrUrl: parentMergeRequest.web_url
+          });
+        }
+      }
+      stack.record({ branch: branchName, parent: parentBranch, base, mrUrl });
+      logger.info(`📚 Recorded stack: ${parentBranch} → ${branchName} (${stack.filePath})`);
+    } catch (error) {
+      logger.warn(`⚠️  Failed to record stack: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Run a stack command
+   * @param subcommand "list" (default) or "restack"
+   */
+  async runStack(subcommand: string = 'list'): Promise<void> {
+    switch (subcommand) {
+      case 'list':
+        await this.listStack();
+        break;
+      case 'restack':
+        await this.restack();
+        break;
+      default:
+        throw new Error(`Unknown stack command "${subcommand}", expected: aiflow stack [list|restack]`);
+    }
+  }
+
+  /**
+   * Print the recorded merge request stacks with their MR URLs
+   */
+  protected async listStack(): Promise<void> {
+    const stack = new StackService(this.git.getGitCommonDir());
+    const entries = stack.getOrderedEntries();
+    if (entries.length === 0) {
+      logger.info(`📚 No stacked merge requests recorded in ${stack.filePath}`);
+      logger.info(`💡 Create one on top of the current branch with: aiflow --stack`);
+      return;
+    }
+
+    // Look up merge requests that were not recorded (e.g. created by hand)
+    for (const entry of entries.filter(item => !item.mrUrl)) {
+      const mergeRequest = await this.gitPlatform.findOpenMergeRequest(entry.branch).catch(() => null);
+      if (mergeRequest) {
+        stack.record({ branch: entry.branch, parent: entry.parent, mrUrl: mergeRequest.web_url });
+      }
+    }
+
+    logger.info(`📚 Merge request stack:\n${stack.formatTree(this.git.getCurrentBranch()).join('\n')}`);
+  }
+
+  /**
+   * Rebase every stack branch onto its updated parent and force-push it with lease.
+   * Parents are rebased before their children; the bottom of each stack is rebased onto the remote base branch.
+   */
+  protected async restack(): Promise<void> {
+    const stack = new StackService(this.git.getGitCommonDir());
+    const entries = stack.getOrderedEntries();
+    if (entries.length === 0) {
+      logger.info(`📚 No stacked merge requests recorded in ${stack.filePath}`);
+      return;
+    }
+    if (this.git.hasUncommittedChanges(false)) {
+      throw new Error('Working tree has uncommitted changes, commit or stash them before restacking');
+    }
+
+    const dryRun = this.isDryRunMode();
+    if (!dryRun) {
+      this.git.fetch();
+    }
+
+    const remote = this.git.getRemoteName();
+    const originalBranch = this.git.getCurrentBranch();
+    const commands: string[] = [];
+
+    try {
+      for (const entry of entries) {
+        const remoteParent = `${remote}/${entry.parent}`;
+        const parentRef = stack.isStackRoot(entry.parent) && this.git.getCommitHash(remoteParent) ? remoteParent : entry.parent;
+        const newBase = this.git.getCommitHash(parentRef);
+        if (!newBase || !this.git.getCommitHash(entry.branch)) {
+          logger.warn(`⚠️  Skipping ${entry.branch}: ${newBase ? 'branch' : `parent ${parentRef}`} not found`);
+          continue;
+        }
+
+        const oldBase = entry.base || this.git.getMergeBase(parentRef, entry.branch);
+        if (!oldBase) {
+          logger.warn(`⚠️  Skipping ${entry.branch}: no common ancestor with ${parentRef}`);
+          continue;
+        }
+        if (oldBase === newBase) {
+          logger.info(`✅ ${entry.branch} is up to date with ${parentRef}`);
+          continue;
+        }
+
+        if (dryRun) {
+          commands.push(...this.git.getRestackCommands(parentRef, oldBase, entry.branch));
+          continue;
+        }
+
+        if (!this.git.rebaseOnto(newBase, oldBase, entry.branch)) {
+          throw new Error(`Failed to rebase ${entry.branch} onto ${parentRef}, resolve the conflicts manually with: git rebase --onto ${parentRef} ${oldBase} ${entry.branch}`);
+        }
+        stack.record({ branch: entry.branch, parent: entry.parent, base: newBase });
+        if (!this.git.forcePushWithLease(entry.branch)) {
+          logger.warn(`⚠️  ${entry.branch} was rebased but not pushed, push it with: git push --force-with-lease ${remote} ${entry.branch}`);
+        }
+        logger.info(`✅ Restacked ${entry.branch} onto ${parentRef}`);
+      }
+    } finally {
+      if (!dryRun && originalBranch && this.git.getCurrentBranch() !== originalBranch) {
+        this.git.checkout(originalBranch);
+      }
+    }
+
+    if (dryRun) {
+      logger.info(`\n🧪 Dry run - nothing was rebased or pushed\n💻 Git commands:\n${commands.map(command => `  $ ${command}`).join('\n') || '  (all branches are up to date)'}`);
+      return;
+    }
+    logger.info(`✅ Stack restacked successfully!`);
+  }
+
   /**
    * Check if commit-only mode is enabled via CLI arguments
    * @returns True if --commit-only or -co or -cmo is present in CLI args
@@ -329,15 +1275,40 @@ export abstract class BaseAiflowApp {
 
       // Step 2: Generate commit message using AI
       logger.info(`🤖 Generating commit message...`);
-      const { commit } = await this.openai.generateCommitAndBranch(diff, getConfigValue(this.config, 'git.generation_lang', 'en'));
+      const language = getConfigValue(this.config, 'git.generation_lang', 'en');
+      const generated = await this.generateCommitInfo(diff, language);
+      let commit = generated.commit;
 
       logger.info("✅ Generated commit message:", commit);
 
       // Step 3: Commit changes
-      // Dynamic countdown display
-      logger.info(`📝 Committing changes, starting in 3 seconds...`);
-      await ColorUtil.countdown(3, 'Committing in', 'Committing now...');
+      if (this.isReviewEnabled()) {
+        const reviewed = await this.reviewGeneratedContent(generated, () => this.generateCommitInfo(diff, language), ['commit']);
+        if (!reviewed) {
+          return;
+        }
+        commit = reviewed.commit;
+      }
+
+      if (this.isDryRunMode()) {
+        await this.printDryRunPlan({
+          sourceBranch: this.git.getCurrentBranch(),
+          targetBranch: this.git.getCurrentBranch(),
+          title: generated.title,
+          commit,
+          changedFiles,
+          gitCommands: this.git.getCommitCommands(commit)
+        });
+        return;
+      }
+
+      if (!this.isReviewEnabled()) {
+        // Dynamic countdown display
+        logger.info(`📝 Committing changes, starting in 3 seconds...`);
+        await ColorUtil.countdown(3, 'Committing in', 'Committing now...');
+      }
       this.git.commit(commit);
+      OutputUtil.recordResult({ status: 'committed', branchName: this.git.getCurrentBranch(), commit, title: generated.title, changedFiles });
 
       logger.info(`✅ Successfully committed changes!`);
       logger.info(`📝 Commit message: ${commit}`);
@@ -361,6 +1332,7 @@ export abstract class BaseAiflowApp {
 
     if (!currentBranch) {
       logger.error("❌ Could not detect current branch or in detached HEAD. Please stage some changes.");
+      OutputUtil.recordResult({ status: 'error', error: 'Could not detect current branch' });
       return;
     }
 
@@ -368,6 +1340,7 @@ export abstract class BaseAiflowApp {
     const baseBranch = this.git.getBaseBranch();
     if (!baseBranch) {
       logger.error("❌ Could not detect base branch. Please specify target branch manually or stage some changes.");
+      OutputUtil.recordResult({ status: 'error', error: 'Could not detect base branch' });
       return;
     }
 
@@ -390,48 +1363,61 @@ export abstract class BaseAiflowApp {
 
     // Step 5: Generate commit message and branch name using AI
     logger.info(`🤖 Generating commit message and branch name...`);
-    const { commit, branch, description, title } = await this.openai.generateCommitAndBranch(baseToCurrentDiff, getConfigValue(this.config, 'git.generation_lang', 'en'));
+    const language = getConfigValue(this.config, 'git.generation_lang', 'en');
+    let generated = await this.generateCommitInfo(baseToCurrentDiff, language);
 
-    logger.info(`✅ Generated commit message length: ${commit && commit.length}`);
-    logger.info(`✅ Generated branch suggestion: ${branch}`);
-    logger.info(`✅ Generated MR description length: ${description && description.length}`);
-    logger.info(`✅ Generated MR title: ${title}`);
+    logger.info(`✅ Generated commit message length: ${generated.commit && generated.commit.length}`);
+    logger.info(`✅ Generated branch suggestion: ${generated.branch}`);
+    logger.info(`✅ Generated MR description length: ${generated.description && generated.description.length}`);
+    logger.info(`✅ Generated MR title: ${generated.title}`);
 
     const branchName = currentBranch;
     logger.info(`✅ Using branch name: ${branchName}`);
 
-    await ColorUtil.countdown(3, `Pushing branch(${branchName})`, 'Pushing branch now...');
-    this.git.push(branchName);
-
-    // Step 8: Create Merge Request
-    logger.info(`📋 Creating Merge Request...`);
-    const squashCommits = getConfigValue(this.config, 'git.squashCommits', true);
-    const removeSourceBranch = getConfigValue(this.config, 'git.removeSourceBranch', true);
-
-    // Get merge request configuration
-    const assigneeId = getConfigValue(this.config, 'merge_request.assignee_id');
-    const assigneeIds = getConfigValue(this.config, 'merge_request.assignee_ids');
-    const reviewerIds = getConfigValue(this.config, 'merge_request.reviewer_ids');
-
-    const mergeRequestOptions: MergeRequestOptions = {
-      squash: squashCommits,
-      removeSourceBranch: removeSourceBranch,
-      description: description
-    };
-
-    // Add assignee configuration if specified
-    if (typeof assigneeId === 'number' && assigneeId > 0) {
-      mergeRequestOptions.assignee_id = assigneeId;
+    if (this.isReviewEnabled()) {
+      // The branch already exists here, only the MR content can be reviewed
+      const reviewed = await this.reviewGeneratedContent(generated, () => this.generateCommitInfo(baseToCurrentDiff, language), ['title', 'description']);
+      if (!reviewed) {
+        return;
+      }
+      generated = reviewed;
+    }
+    const { commit, description, title } = generated;
+    const existingMergeRequest = await this.findExistingMergeRequest(branchName);
+    const reviewerIds = await this.recommendReviewers(changedFiles, this.git.getMergeBase(baseBranch) || baseBranch);
+
+    if (this.isDryRunMode()) {
+      await this.printDryRunPlan({
+        sourceBranch: branchName,
+        targetBranch: baseBranch,
+        title,
+        commit,
+        changedFiles,
+        gitCommands: this.git.getPushCommands(branchName),
+        mergeRequestOptions: this.buildMergeRequestOptions(description, generated.labels, reviewerIds),
+        existingMergeRequestUrl: existingMergeRequest?.web_url
+      });
+      return;
     }
 
-    if (assigneeIds && Array.isArray(assigneeIds) && assigneeIds.length > 0) {
-      mergeRequestOptions.assignee_ids = assigneeIds;
+    if (!this.isReviewEnabled()) {
+      await ColorUtil.countdown(3, `Pushing branch(${branchName})`, 'Pushing branch now...');
     }
+    this.git.push(branchName);
 
-    if (reviewerIds && Array.isArray(reviewerIds) && reviewerIds.length > 0) {
-      mergeRequestOptions.reviewer_ids = reviewerIds;
+    if (existingMergeRequest) {
+      // Step 8: Update the open Merge Request with the regenerated content
+      const mrUrl = await this.gitPlatform.updateMergeRequest(existingMergeRequest, { title, description });
+      logger.info(`🔄 ${this.gitPlatform.getPlatformName() === 'github' ? 'Pull Request' : 'Merge Request'} updated:`, mrUrl);
+      OutputUtil.recordResult({ status: 'updated', mrUrl, branchName, targetBranch: baseBranch, commit, title, changedFiles });
+      logger.info(`✅ AIFlow workflow completed successfully!`);
+      return;
     }
 
+    // Step 8: Create Merge Request
+    logger.info(`📋 Creating Merge Request...`);
+    const mergeRequestOptions = this.buildMergeRequestOptions(description, generated.labels, reviewerIds);
+
     // Dynamic countdown before creating MR
     await ColorUtil.countdown(3, 'Creating merge request in', 'Creating merge request now...');
 
@@ -443,13 +1429,11 @@ export abstract class BaseAiflowApp {
       mergeRequestOptions
     );
     logger.info(`🎉 ${this.gitPlatform.getPlatformName() === 'github' ? 'Pull Request' : 'Merge Request'} created:`, mrUrl);
+    OutputUtil.recordResult({ status: 'created', mrUrl, branchName, targetBranch: baseBranch, commit, title: mrTitle, changedFiles });
+    await this.linkIssueToMergeRequest(mrUrl);
 
     // Step 9: Send notification
-    if (getConfigValue(this.config, 'wecom.enable', false) && getConfigValue(this.config, 'wecom.webhook', '')) {
-      logger.info(`📢 Sending notification...`);
-      await this.wecom.sendMergeRequestNotice(branchName, baseBranch, mrUrl, mrTitle, commit, changedFiles);
-      logger.info("📢 Notification sent via WeCom webhook.");
-    }
+    await this.sendNotifications({ branch: branchName, target: baseBranch, mrUrl, title: mrTitle, commit, changedFiles });
 
     logger.info(`✅ AIFlow workflow completed successfully!`);
 
@@ -471,8 +1455,9 @@ ${outputMrInfo}
 ${'-'.repeat(50)}
 `;
     logger.info(consoleMrInfo);
-    await clipboard.write(outputMrInfo);
-    logger.info("📋 MR info copied to clipboard.");
+    if (await CiUtil.copyToClipboard(outputMrInfo)) {
+      logger.info("📋 MR info copied to clipboard.");
+    }
   }
 
   /**
@@ -525,65 +1510,88 @@ ${'-'.repeat(50)}
       const currentBranch = this.git.getCurrentBranch();
       if (!currentBranch) {
         logger.error("❌ Could not detect current branch or in detached HEAD. Please stage some changes.");
+        OutputUtil.recordResult({ status: 'error', error: 'Could not detect current branch' });
         return;
       }
       logger.info(`🌿 Current branch: ${currentBranch}`);
-      const targetBranch = this.git.getTargetBranch();
-      logger.info(`🎯 Target branch: ${targetBranch}`);
+      // In stack mode the new MR targets the current branch instead of the detected target branch
+      const stackMode = this.isStackMode();
+      const targetBranch = stackMode ? currentBranch : this.git.getTargetBranch();
+      logger.info(`🎯 Target branch: ${targetBranch}${stackMode ? ' (stacked on current branch)' : ''}`);
+
+      // Commit to the current branch when it already has an open MR, instead of forking a new branch
+      if (currentBranch !== targetBranch && !stackMode) {
+        const existingMergeRequest = await this.findExistingMergeRequest(currentBranch);
+        if (existingMergeRequest) {
+          await this.updateExistingMergeRequest(existingMergeRequest, currentBranch, diff, changedFiles);
+          return;
+        }
+      }
 
       // Step 3: Generate commit message and branch name using AI
       logger.info(`🤖 Generating commit message and branch name...`);
-      const { commit, branch, description, title } = await this.openai.generateCommitAndBranch(diff, getConfigValue(this.config, 'git.generation_lang', 'en'));
-
-      logger.info(`✅ Generated commit message length: ${commit && commit.length}`);
-      logger.info(`✅ Generated branch suggestion: ${branch}`);
-      logger.info(`✅ Generated MR description length: ${description && description.length}`);
-      logger.info(`✅ Generated MR title: ${title}`);
+      const language = getConfigValue(this.config, 'git.generation_lang', 'en');
+      let generated = await this.generateCommitInfo(diff, language);
+
+      logger.info(`✅ Generated commit message length: ${generated.commit && generated.commit.length}`);
+      logger.info(`✅ Generated branch suggestion: ${generated.branch}`);
+      logger.info(`✅ Generated MR description length: ${generated.description && generated.description.length}`);
+      logger.info(`✅ Generated MR title: ${generated.title}`);
+
+      const reviewEnabled = this.isReviewEnabled();
+      if (reviewEnabled) {
+        const reviewed = await this.reviewGeneratedContent(generated, () => this.generateCommitInfo(diff, language));
+        if (!reviewed) {
+          return;
+        }
+        generated = reviewed;
+      }
+      const { commit, description, title } = generated;
+      const reviewerIds = await this.recommendReviewers(changedFiles);
 
       // Step 4: Create branch name
-      const gitUser = this.git.getUserName();
-      const aiBranch = StringUtil.sanitizeBranch(branch);
-      const branchName = `${gitUser}/${aiBranch}-${crypto.randomUUID().substring(0, 6)}`;
+      const branchName = this.buildBranchName(generated, BaseAiflowApp.DEFAULT_BRANCH_TEMPLATE);
       logger.info(`✅ Generated branch name: ${branchName}`);
 
+      // The parent of a stacked MR must exist on the remote
+      const pushParent = stackMode && !this.git.hasRemoteBranch(currentBranch);
+
+      if (this.isDryRunMode()) {
+        await this.printDryRunPlan({
+          sourceBranch: branchName,
+          targetBranch,
+          title,
+          commit,
+          changedFiles,
+          gitCommands: [
+            ...(pushParent ? this.git.getPushCommands(currentBranch) : []),
+            ...this.git.getCommitAndPushCommands(branchName, commit)
+          ],
+          mergeRequestOptions: this.buildMergeRequestOptions(description, generated.labels, reviewerIds)
+        });
+        return;
+      }
+
       // Step 5: Commit and push
       logger.info(`📤 Creating branch and pushing changes...`);
-      // Dynamic countdown before committing
-      await ColorUtil.countdown(3, `Creating branch(${branchName}) and pushing`, 'Committing now...');
+      // Dynamic countdown before committing (skipped when the content was reviewed interactively)
+      if (!reviewEnabled) {
+        await ColorUtil.countdown(3, `Creating branch(${branchName}) and pushing`, 'Committing now...');
+      }
+      if (pushParent) {
+        this.git.push(currentBranch);
+      }
+      const stackBase = this.git.getCurrentCommit();
       const isSuccess = this.git.commitAndPush(branchName, commit);
       if (!isSuccess) {
         logger.info("❌ Branch already exists, skipping creation");
+        OutputUtil.recordResult({ status: 'error', error: `Branch ${branchName} already exists`, branchName, targetBranch, commit, title, changedFiles });
         return;
       }
 
       // Step 6: Create Merge Request
       logger.info(`📋 Creating Merge Request...`);
-      const squashCommits = getConfigValue(this.config, 'git.squashCommits', true);
-      const removeSourceBranch = getConfigValue(this.config, 'git.removeSourceBranch', true);
-
-      // Get merge request configuration
-      const assigneeId = getConfigValue(this.config, 'merge_request.assignee_id');
-      const assigneeIds = getConfigValue(this.config, 'merge_request.assignee_ids');
-      const reviewerIds = getConfigValue(this.config, 'merge_request.reviewer_ids');
-
-      const mergeRequestOptions: MergeRequestOptions = {
-        squash: squashCommits,
-        removeSourceBranch: removeSourceBranch,
-        description: description
-      };
-
-      // Add assignee configuration if specified
-      if (typeof assigneeId === 'number' && assigneeId > 0) {
-        mergeRequestOptions.assignee_id = assigneeId;
-      }
-
-      if (assigneeIds && Array.isArray(assigneeIds) && assigneeIds.length > 0) {
-        mergeRequestOptions.assignee_ids = assigneeIds;
-      }
-
-      if (reviewerIds && Array.isArray(reviewerIds) && reviewerIds.length > 0) {
-        mergeRequestOptions.reviewer_ids = reviewerIds;
-      }
+      const mergeRequestOptions = this.buildMergeRequestOptions(description, generated.labels, reviewerIds);
 
       // Dynamic countdown before creating MR
       await ColorUtil.countdown(3, 'Creating merge request in', 'Creating merge request now...');
@@ -596,7 +1604,11 @@ ${'-'.repeat(50)}
         mergeRequestOptions
       );
       logger.info(`🎉 ${this.gitPlatform.getPlatformName() === 'github' ? 'Pull Request' : 'Merge Request'} created:`, mrUrl);
-
+      OutputUtil.recordResult({ status: 'created', mrUrl, branchName, targetBranch, commit, title: mrTitle, changedFiles });
+      await this.linkIssueToMergeRequest(mrUrl);
+      if (stackMode) {
+        await this.recordStack(currentBranch, branchName, stackBase, mrUrl);
+      }
 
       if (currentBranch && currentBranch !== branchName) {
         logger.info(`✅ Auto checkout to ${currentBranch}`);
@@ -604,11 +1616,7 @@ ${'-'.repeat(50)}
       }
 
       // Step 7: Send notification
-      if (getConfigValue(this.config, 'wecom.enable', false) && getConfigValue(this.config, 'wecom.webhook', '')) {
-        logger.info(`📢 Sending notification...`);
-        await this.wecom.sendMergeRequestNotice(branchName, targetBranch, mrUrl, mrTitle, commit, changedFiles);
-        logger.info("📢 Notification sent via WeCom webhook.");
-      }
+      await this.sendNotifications({ branch: branchName, target: targetBranch, mrUrl, title: mrTitle, commit, changedFiles });
 
       logger.info(`✅ AIFlow workflow completed successfully!`);
 
@@ -631,8 +1639,9 @@ ${outputMrInfo}
 ${'-'.repeat(50)}
 `;
       logger.info(consoleMrInfo);
-      await clipboard.write(outputMrInfo);
-      logger.info("📋 MR info copied to clipboard.");
+      if (await CiUtil.copyToClipboard(outputMrInfo)) {
+        logger.info("📋 MR info copied to clipboard.");
+      }
     } catch (error) {
       logger.error(`❌ Error during MR creation:`, error);
       throw error;
@@ -691,11 +1700,13 @@ ${description}
 🔧 AIFlow Tool
 
 Usage:
-  aiflow [init] [options]
+  aiflow [init | stack [restack]] [options]
 
 Commands:
   init                   交互式配置初始化
   init --global, -g      初始化全局配置
+  stack                  列出 .git/aiflow/stack.json 中记录的堆叠MR及其链接
+  stack restack          将堆叠中的每个分支变基到更新后的父分支，并使用 --force-with-lease 推送
   
 Options:
   --version, -v          显示版本信息
@@ -703,17 +1714,34 @@ Options:
   --help, -h             显示此帮助信息
   
 Configuration Options (可以通过 CLI 参数覆盖配置文件):
+  -op, --openai-provider <name>         AI 服务提供方 (openai | anthropic | ollama)
   -ok, --openai-key <key>               OpenAI API 密钥
   -obu, --openai-base-url <url>         OpenAI API 地址
   -om, --openai-model <model>           OpenAI 模型
   -gat, --git-access-token <host=token> Git 访问令牌 (格式: 主机名=令牌)
   -crbu, --conan-remote-base-url <url>  Conan 仓库 API 地址
   -crr, --conan-remote-repo <repo>      Conan 仓库名称
+  -clf, --conan-lock-files <patterns>   Conan 锁文件列表 (逗号分隔，支持通配符，默认 conan.lock,conan.*.lock)
   -ww, --wecom-webhook <url>            企业微信 Webhook 地址
   -we, --wecom-enable <bool>            启用企业微信通知
+  -slw, --slack-webhook <url>           Slack Webhook 地址
+  -sle, --slack-enable <bool>           启用 Slack 通知
+  -fsw, --feishu-webhook <url>          飞书/Lark 机器人 Webhook 地址
+  -fss, --feishu-secret <secret>        飞书/Lark 签名校验密钥
+  -fse, --feishu-enable <bool>          启用飞书/Lark 通知
+  -dtw, --dingtalk-webhook <url>        钉钉机器人 Webhook 地址
+  -dts, --dingtalk-secret <secret>      钉钉机器人加签密钥
+  -dte, --dingtalk-enable <bool>        启用钉钉通知
   -sc, --squash-commits <bool>          压缩提交
   -rsb, --remove-source-branch <bool>   删除源分支
+  -rv, --review <bool>                  提交前交互式审阅 AI 生成的内容 (接受/重新生成/编辑/中止)
+  -is, --issue <key>                    关联问题编号 (如 PROJ-123 或 #456，默认从分支名和提交记录中提取)
   -co, --commit-only                    仅提交更改，不创建MR
+  -dr, --dry-run                        演练模式: 生成内容并打印将执行的 git 命令和平台 API 请求，不做任何修改
+  -nai, --no-ai                         离线模式: 不调用 AI，根据文件路径和变更统计生成提交信息、分支名和MR描述
+  -stk, --stack                         堆叠模式: 在当前分支之上创建新分支，MR 目标为当前分支，并记录到 .git/aiflow/stack.json
+  --output <text|json>                  输出格式: json 时日志输出到 stderr，stdout 仅输出一个 JSON 结果 (mrUrl、branchName、status 等)
+  -y, --yes, --ci                       CI 模式: 跳过倒计时和剪贴板，拒绝交互式提示 (退出码 3)，令牌仅从环境变量读取；CI=true 时自动启用
 
 Description:
   使用 AI 生成的提交信息和分支名称自动创建合并请求
@@ -748,6 +1776,15 @@ Examples:
   aiflow --commit-only                                   # 仅提交更改，不创建MR
   aiflow -co                                             # 仅提交更改，不创建MR (短参数)
   aiflow -cmo                                             # 仅提交更改，不创建MR (短参数)
+  aiflow --review true                                   # 提交前审阅并编辑 AI 生成的内容
+  aiflow --dry-run                                       # 仅预览将执行的操作，不提交/推送/创建MR
+  aiflow --no-ai                                         # 离线生成提交信息并创建MR（无需 AI 服务）
+  aiflow --issue PROJ-123                                # 在提交信息、分支名和MR中关联问题
+  aiflow --stack                                         # 创建以当前分支为目标的堆叠MR
+  aiflow --output json > result.json                     # CI 中以 JSON 输出结果
+  aiflow --ci                                            # 非交互运行，需要提前 git add 暂存更改
+  aiflow stack                                           # 列出堆叠MR
+  aiflow stack restack                                   # 父分支更新后重新变基并推送整个堆叠
   aiflow -ok sk-123 -gat github.com=ghp_456             # 使用 CLI 参数覆盖配置
   aiflow -gat gitlab.example.com=glpat-456 -we true     # 多平台访问令牌配置
 `);
@@ -757,7 +1794,12 @@ Examples:
    * Main entry point for command line execution
    */
   static async main(): Promise<void> {
-    const args = process.argv.slice(2);
+    // With --output json, logs go to stderr and stdout only carries the result document
+    const { format, args } = OutputUtil.extractOutputFormat(process.argv.slice(2));
+    if (format === 'json') {
+      OutputUtil.enableJsonOutput();
+    }
+
     // Handle init command
     if (args.includes('init')) {
       const isGlobal = args.includes('--global') || args.includes('-g');
@@ -765,6 +1807,24 @@ Examples:
       return;
     }
 
+    // Handle stack command
+    if (args[0] === 'stack') {
+      const subcommand = args[1] && !args[1].startsWith('-') ? args[1] : 'list';
+      const app = new GitAutoMrApp();
+      try {
+        await app.initializeServices(parseCliArgs(args));
+        await app.runStack(subcommand);
+      } catch (error) {
+        logger.error('❌ Error during aiflow stack:', error);
+        OutputUtil.recordError(error);
+        await processExit(1);
+      }
+      if (OutputUtil.isJsonOutput()) {
+        await processExit(OutputUtil.getExitCode());
+      }
+      return;
+    }
+
     // Show version information
     if (args.includes('--version') || args.includes('-v')) {
       GitAutoMrApp.showVersion();
@@ -814,8 +1874,13 @@ Examples:
       await app.run();
     } catch (error) {
       logger.error('❌ Error during aiflow:', error);
+      OutputUtil.recordError(error);
       await processExit(1);
     }
+
+    if (OutputUtil.isJsonOutput()) {
+      await processExit(OutputUtil.getExitCode());
+    }
   }
 }
 
@@ -1,23 +1,25 @@
 #!/usr/bin/env node
 
 import { BaseAiflowApp } from './aiflow-app.js';
-import { MergeRequestOptions } from './services/git-platform-service.js';
-import { StringUtil } from './utils/string-util.js';
 import { ConanService } from './services/conan-service.js';
-import { FileUpdaterService } from './services/file-updater-service.js';
+import { FileUpdaterService, ConanPackageUpdate, ConanPackageSkip } from './services/file-updater-service.js';
 import { UpdateChecker } from './utils/update-checker.js';
 import { ColorUtil } from './utils/color-util.js';
 import { parseCliArgs, getConfigValue, getCliHelp, initConfig } from './config.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import clipboardy from 'clipboardy';
 import { readFileSync } from 'fs';
 import { logger } from './logger.js';
 import { processExit } from './utils/process-exit.js';
+import { OutputUtil } from './utils/output-util.js';
+import { CiUtil } from './utils/ci-util.js';
 /**
  * Conan package update application with automated MR creation
  */
 export class ConanPkgUpdateApp extends BaseAiflowApp {
+  /** Branch name template used when git.branch_template is not configured */
+  private static readonly DEFAULT_CONAN_BRANCH_TEMPLATE = '{user}/conan-update-{package}-{issue}-{type}-{slug}-{datetime}';
+
   private conan!: ConanService;
   private fileUpdater!: FileUpdaterService;
 
@@ -34,7 +36,8 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
       this.http
     );
 
-    this.fileUpdater = new FileUpdaterService(this.conan, this.git);
+    const lockFiles = getConfigValue<string[]>(this.config, 'conan.lockFiles', []) || [];
+    this.fileUpdater = new FileUpdaterService(this.conan, this.git, undefined, lockFiles.length > 0 ? lockFiles : undefined);
   }
 
 
@@ -44,35 +47,65 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
    * @param remote
    */
   async updatePackage(packageName: string, remote: string = "repo"): Promise<void> {
+    await this.updatePackages([packageName], remote);
+  }
+
+  /**
+   * Update several packages and create one combined commit and MR
+   * @param packageNames Package names to update (e.g., ["zterm", "winusb"])
+   * @param remote Conan remote repository name
+   */
+  async updatePackages(packageNames: string[], remote: string = "repo"): Promise<void> {
     logger.info(`🚀 AIFlow Conan Tool - Package Update`);
-    logger.info(`📦 Package: ${packageName}`);
+    logger.info(`📦 Packages: ${packageNames.join(', ')}`);
     logger.info(`🌐 Remote: ${remote}`);
     logger.info(`📁 Working directory: ${process.cwd()}`);
     logger.info(`⏰ Started at: ${new Date().toISOString()}`);
     logger.info('─'.repeat(50));
 
+    // In dry-run mode the package files are restored afterwards and nothing is staged
+    const dryRun = this.isDryRunMode();
+    let snapshot = dryRun ? this.fileUpdater.snapshotFiles() : undefined;
+    const restoreSnapshot = () => {
+      if (snapshot) {
+        this.fileUpdater.restoreFiles(snapshot);
+        snapshot = undefined;
+      }
+    };
+
     try {
       // Step 1: Update package files and check for changes
-      logger.info(`📦 Updating package ${packageName} from remote ${remote}...`);
-      const completeInfo = await this.fileUpdater.updatePackage(remote, packageName);
+      logger.info(`📦 Updating ${packageNames.length} package(s) from remote ${remote}...`);
+      const { updates, skipped } = await this.fileUpdater.updatePackages(remote, packageNames);
+      if (skipped.length > 0) {
+        OutputUtil.recordResult({ skippedPackages: skipped });
+      }
 
-      if (!completeInfo) {
-        logger.info(`✅ Package ${packageName} is already up to date. No MR needed.`);
+      if (updates.length === 0) {
+        logger.info(`✅ ${packageNames.length > 1 ? 'All packages are' : `Package ${packageNames[0]} is`} already up to date. No MR needed.`);
+        OutputUtil.recordResult({ status: 'no_changes' });
         return;
       }
+      const updatedNames = updates.map(update => update.packageName);
 
       // Step 2: Show git status and stage updated files
       this.git.showGitInfo();
-      this.fileUpdater.stageFiles();
+      let diff: string;
+      let changedFiles: string[];
+      if (dryRun) {
+        changedFiles = this.fileUpdater.getFilesToStage().filter(file => this.git.getDiffForFiles([file]));
+        diff = this.git.getDiffForFiles(changedFiles);
+      } else {
+        this.fileUpdater.stageFiles();
+        diff = this.git.getDiff();
+        changedFiles = this.git.getChangedFiles();
+      }
 
-      const diff = this.git.getDiff();
       if (!diff) {
         logger.info(`⚠️  No changes detected in files after update. Skipping MR creation.`);
         return;
       }
 
-      const changedFiles = this.git.getChangedFiles();
-
       // Step 3: Determine target branch and current branch
       const currentBranch = this.git.getCurrentBranch();
       const targetBranch = this.git.getTargetBranch();
@@ -80,22 +113,37 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
       logger.info(`🎯 Target branch: ${targetBranch}`);
       if (!currentBranch) {
         logger.error("❌ Could not detect current branch or in detached HEAD. Please stage some changes.");
+        OutputUtil.recordResult({ status: 'error', error: 'Could not detect current branch' });
         return;
       }
 
       // Step 4: Generate commit message and branch name using AI
       logger.info(`🤖 Generating commit message and branch name...`);
-      const { commit, branch, description, title } = await this.openai.generateCommitAndBranch(diff, getConfigValue(this.config, 'git.generation_lang', 'en'));
-      logger.info(`✅ Generated commit message length: ${commit && commit.length}`);
-      logger.info(`✅ Generated branch suggestion: ${branch}`);
-      logger.info(`✅ Generated MR description length: ${description && description.length}`);
-      logger.info(`✅ Generated MR title: ${title}`);
+      const language = getConfigValue(this.config, 'git.generation_lang', 'en');
+      const generate = async () => {
+        const result = await this.generateCommitInfo(diff, language);
+        return { ...result, description: `${result.description}\n\n${ConanPkgUpdateApp.buildPackageUpdateTable(updates, skipped)}` };
+      };
+      let generated = await generate();
+      logger.info(`✅ Generated commit message length: ${generated.commit && generated.commit.length}`);
+      logger.info(`✅ Generated branch suggestion: ${generated.branch}`);
+      logger.info(`✅ Generated MR description length: ${generated.description && generated.description.length}`);
+      logger.info(`✅ Generated MR title: ${generated.title}`);
+
+      const reviewEnabled = this.isReviewEnabled();
+      if (reviewEnabled) {
+        const reviewed = await this.reviewGeneratedContent(generated, generate);
+        if (!reviewed) {
+          return;
+        }
+        generated = reviewed;
+      }
+      const { commit, description, title } = generated;
+      const reviewerIds = await this.recommendReviewers(changedFiles);
 
       // Step 5: Create new branch
-      const gitUser = this.git.getUserName();
-      const aiBranch = StringUtil.sanitizeBranch(branch);
-      const dateSuffix = new Date().toISOString().slice(0, 19).replace(/-|T|:/g, "");
-      const branchName = `${gitUser}/conan-update-${packageName}-${aiBranch}-${dateSuffix}`;
+      const branchPackage = updatedNames.length === 1 ? updatedNames[0] : `${updatedNames.length}-packages`;
+      const branchName = this.buildBranchName(generated, ConanPkgUpdateApp.DEFAULT_CONAN_BRANCH_TEMPLATE, { package: branchPackage });
 
       logger.info(`✅ Generated branch name: ${branchName}`);
 
@@ -103,8 +151,23 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
       const enhancedCommit = commit;
       logger.info(`✅ Generated commit message: ${enhancedCommit}`);
 
-      // Dynamic countdown before committing and pushing
-      await ColorUtil.countdown(3, `Creating branch(${branchName}) and pushing`, 'Committing now...');
+      if (dryRun) {
+        await this.printDryRunPlan({
+          sourceBranch: branchName,
+          targetBranch,
+          title,
+          commit: enhancedCommit,
+          changedFiles,
+          gitCommands: this.git.getCommitAndPushCommands(branchName, enhancedCommit, changedFiles),
+          mergeRequestOptions: this.buildMergeRequestOptions(description, generated.labels, reviewerIds)
+        });
+        return;
+      }
+
+      // Dynamic countdown before committing and pushing (skipped when the content was reviewed interactively)
+      if (!reviewEnabled) {
+        await ColorUtil.countdown(3, `Creating branch(${branchName}) and pushing`, 'Committing now...');
+      }
       this.git.createBranch(branchName);
       this.git.commit(enhancedCommit);
 
@@ -114,32 +177,7 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
 
       // Step 8: Create Merge Request
       logger.info(`📋 Creating Merge Request...`);
-      const squashCommits = getConfigValue(this.config, 'git.squashCommits', true);
-      const removeSourceBranch = getConfigValue(this.config, 'git.removeSourceBranch', true);
-
-      // Get merge request configuration
-      const assigneeId = getConfigValue(this.config, 'merge_request.assignee_id');
-      const assigneeIds = getConfigValue(this.config, 'merge_request.assignee_ids');
-      const reviewerIds = getConfigValue(this.config, 'merge_request.reviewer_ids');
-
-      const mergeRequestOptions: MergeRequestOptions = {
-        squash: squashCommits,
-        removeSourceBranch: removeSourceBranch,
-        description: description
-      };
-
-      // Add assignee configuration if specified
-      if (typeof assigneeId === 'number' && assigneeId > 0) {
-        mergeRequestOptions.assignee_id = assigneeId;
-      }
-
-      if (assigneeIds && Array.isArray(assigneeIds) && assigneeIds.length > 0) {
-        mergeRequestOptions.assignee_ids = assigneeIds;
-      }
-
-      if (reviewerIds && Array.isArray(reviewerIds) && reviewerIds.length > 0) {
-        mergeRequestOptions.reviewer_ids = reviewerIds;
-      }
+      const mergeRequestOptions = this.buildMergeRequestOptions(description, generated.labels, reviewerIds);
 
       const mrTitle = title;
 
@@ -153,6 +191,8 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
         mergeRequestOptions
       );
       logger.info(`🎉 ${this.gitPlatform.getPlatformName() === 'github' ? 'Pull Request' : 'Merge Request'} created:`, mrUrl);
+      OutputUtil.recordResult({ status: 'created', mrUrl, branchName, targetBranch, commit: enhancedCommit, title: mrTitle, changedFiles });
+      await this.linkIssueToMergeRequest(mrUrl);
 
       // Step 9: Switch back to original branch if different
       if (currentBranch && currentBranch !== branchName) {
@@ -161,18 +201,14 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
       }
 
       // Step 10: Send notification
-      if (getConfigValue(this.config, 'wecom.enable', false) && getConfigValue(this.config, 'wecom.webhook', '')) {
-        logger.info(`📢 Sending notification...`);
-        await this.wecom.sendMergeRequestNotice(
-          branchName,
-          targetBranch,
-          mrUrl,
-          mrTitle,
-          enhancedCommit,
-          changedFiles
-        );
-        logger.info("📢 Notification sent via WeCom webhook.");
-      }
+      await this.sendNotifications({
+        branch: branchName,
+        target: targetBranch,
+        mrUrl,
+        title: mrTitle,
+        commit: enhancedCommit,
+        changedFiles
+      });
 
       logger.info(`✅ AIFlow Conan workflow completed successfully!`);
 
@@ -182,28 +218,50 @@ export class ConanPkgUpdateApp extends BaseAiflowApp {
       const requestType = isGitHub ? 'Pull Request' : 'Merge Request';
       const requestAbbr = isGitHub ? 'PR' : 'MR';
 
-      const outputMrInfo = `🎉 Conan - ${packageName} 包更新${requestType}创建成功！
+      const outputMrInfo = `🎉 Conan - ${updatedNames.join(', ')} 包更新${requestType}创建成功！
 📋 ${requestAbbr} 链接: ${mrUrl}
 🌿 分支信息: ${branchName} ->  ${targetBranch}
 📝 提交信息:
 ${enhancedCommit}
 📁 变更文件 (${changedFiles.length} 个)${changedFiles.length > 10 ? `前10个: ` : ': '}
-${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles.length > 10 ? `\n...${changedFiles.length - 10}个文件` : ''}`;
+${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles.length > 10 ? `\n...${changedFiles.length - 10}个文件` : ''}${skipped.length > 0 ? `
+⚠️ 跳过的包 (${skipped.length} 个):
+${skipped.map(skip => `• ${skip.packageName}: ${skip.error}`).join('\n')}` : ''}`;
       const consoleMrInfo = `
 ${'-'.repeat(50)}
 ${outputMrInfo}
 ${'-'.repeat(50)}
 `;
       logger.info(consoleMrInfo);
-      await clipboardy.write(outputMrInfo);
-      logger.info("📋 MR info copied to clipboard.");
+      if (await CiUtil.copyToClipboard(outputMrInfo)) {
+        logger.info("📋 MR info copied to clipboard.");
+      }
 
     } catch (error) {
       logger.error(`❌ Error during package update:`, error);
+      // processExit() never returns, so restore before exiting
+      restoreSnapshot();
       await processExit(1, error);
+    } finally {
+      restoreSnapshot();
     }
   }
 
+  /**
+   * Build the markdown table of updated packages appended to the MR description
+   * @param updates Updated packages
+   * @param skipped Packages whose update failed
+   */
+  private static buildPackageUpdateTable(updates: ConanPackageUpdate[], skipped: ConanPackageSkip[] = []): string {
+    const rows = updates.map(({ packageName, previousVersion, previousRevision, completeInfo }) =>
+      `| ${packageName} | ${previousVersion || '-'} → ${completeInfo.version} | ${previousRevision || '-'} → ${completeInfo.revision} |`
+    );
+    const skippedRows = skipped.map(({ packageName, error }) =>
+      `| ${packageName} | ⚠️ skipped | ${error.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')} |`
+    );
+    return ['### 📦 Package updates', '', '| Package | Version | Revision |', '| --- | --- | --- |', ...rows, ...skippedRows].join('\n');
+  }
+
   /**
    * Validate configuration (override to add Conan-specific validation)
    */
@@ -257,38 +315,62 @@ ${description}
 🔧 AIFlow Conan Tool
 
 Usage:
-  aiflow-conan [init] [options] <package-name> [remote]
+  aiflow-conan [init] [options] <package-name...> [--remote <remote> | remote]
+  aiflow-conan [options] --all [--remote <remote> | remote]
 
 Commands:
   init                   交互式配置初始化
   init --global, -g      初始化全局配置
 
 Arguments:
-  package-name    Name of the Conan package to update (e.g., "zterm")
-  remote         Conan remote repository name (default: from config or "repo")
+  package-name    Name of the Conan package(s) to update (e.g., "zterm winusb"), all updates go into one MR
+  remote         Conan remote repository name (default: from config or "repo"),
+                 without --remote the last argument is the remote when it is not a package referenced in conandata.yml
 
 Options:
   --version, -v          显示版本信息
   --config-help          显示 CLI 配置选项帮助
   --help, -h             显示此帮助信息
+  --all                  更新 conandata.yml 中引用的所有包
+  --remote <remote>      Conan 远程仓库名称 (同 -crr)，指定后所有参数均视为包名
 
 Configuration Options (可以通过 CLI 参数覆盖配置文件):
+  -op, --openai-provider <name>         AI 服务提供方 (openai | anthropic | ollama)
   -ok, --openai-key <key>               OpenAI API 密钥
   -obu, --openai-base-url <url>         OpenAI API 地址
   -om, --openai-model <model>           OpenAI 模型
   -gat, --git-access-token <host=token> Git 访问令牌 (格式: 主机名=令牌)
   -crbu, --conan-remote-base-url <url>  Conan 仓库 API 地址
   -crr, --conan-remote-repo <repo>      Conan 仓库名称
+  -clf, --conan-lock-files <patterns>   Conan 锁文件列表 (逗号分隔，支持通配符，默认 conan.lock,conan.*.lock)
   -ww, --wecom-webhook <url>            企业微信 Webhook 地址
   -we, --wecom-enable <bool>            启用企业微信通知
+  -slw, --slack-webhook <url>           Slack Webhook 地址
+  -sle, --slack-enable <bool>           启用 Slack 通知
+  -fsw, --feishu-webhook <url>          飞书/Lark 机器人 Webhook 地址
+  -fss, --feishu-secret <secret>        飞书/Lark 签名校验密钥
+  -fse, --feishu-enable <bool>          启用飞书/Lark 通知
+  -dtw, --dingtalk-webhook <url>        钉钉机器人 Webhook 地址
+  -dts, --dingtalk-secret <secret>      钉钉机器人加签密钥
+  -dte, --dingtalk-enable <bool>        启用钉钉通知
   -sc, --squash-commits <bool>          压缩提交
   -rsb, --remove-source-branch <bool>   删除源分支
+  -rv, --review <bool>                  提交前交互式审阅 AI 生成的内容
+  -dr, --dry-run                        演练模式: 打印将执行的 git 命令和平台 API 请求，完成后还原包文件
+  -nai, --no-ai                         离线模式: 不调用 AI，根据变更文件生成提交信息和MR描述
+  --output <text|json>                  输出格式: json 时日志输出到 stderr，stdout 仅输出一个 JSON 结果
+  -y, --yes, --ci                       CI 模式: 跳过倒计时和剪贴板，拒绝交互式提示 (退出码 3)，令牌仅从环境变量读取；CI=true 时自动启用
 
 Examples:
   aiflow-conan init                              # 交互式初始化本地配置
   aiflow-conan init --global                     # 交互式初始化全局配置
   aiflow-conan zterm                             # 使用配置文件运行
   aiflow-conan zterm repo                        # 指定远程仓库
+  aiflow-conan zterm winusb foo                  # 批量更新多个包，合并为一个MR
+  aiflow-conan --all                             # 更新 conandata.yml 中的所有包
+  aiflow-conan zterm --dry-run                   # 仅预览更新和将执行的操作
+  aiflow-conan zterm --output json               # CI 中以 JSON 输出结果
+  aiflow-conan zterm --ci                        # 定时任务中非交互运行
   aiflow-conan -ok sk-123 -gat gitlab.example.com=glpat-456 zterm    # 使用 CLI 参数覆盖配置
 
 配置文件位置 (按优先级排序):
@@ -305,15 +387,41 @@ Auto-Detection Features:
 
 Files Required:
   conandata.yml     Conan data file in current directory
-  conan.win.lock    Conan lock file in current directory
+  conan*.lock       Conan lock files in current directory (conan.lock, conan.win.lock, conan.linux.lock, ...),
+                    configurable with conan.lockFiles
 `);
   }
 
+  /**
+   * Split command line arguments into configuration options and positional arguments.
+   * Configuration options recognized by parseCliArgs() keep their value, mode flags such as --dry-run have none.
+   * @param args Command line arguments
+   */
+  private static splitArgs(args: string[]): { configArgs: string[]; positionalArgs: string[] } {
+    const configArgs: string[] = [];
+    const positionalArgs: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+      if (!args[i].startsWith('-')) {
+        positionalArgs.push(args[i]);
+        continue;
+      }
+      configArgs.push(args[i]);
+      if (i + 1 < args.length && Object.keys(parseCliArgs([args[i], args[i + 1]])).length > 0) {
+        configArgs.push(args[++i]);
+      }
+    }
+    return { configArgs, positionalArgs };
+  }
+
   /**
    * Main entry point for command line execution
    */
   static async main(): Promise<void> {
-    const args = process.argv.slice(2);
+    // With --output json, logs go to stderr and stdout only carries the result document
+    const { format, args } = OutputUtil.extractOutputFormat(process.argv.slice(2));
+    if (format === 'json') {
+      OutputUtil.enableJsonOutput();
+    }
 
     // Handle init command
     if (args.includes('init')) {
@@ -350,23 +458,20 @@ Files Required:
       logger.warn('⚠️ Update check failed:', error instanceof Error ? error.message : 'Unknown error');
     }
 
-    // Parse CLI configuration arguments (filter out package name and remote)
-    const configArgs = args.filter(arg => arg.startsWith('-'));
+    // Parse CLI configuration arguments (filter out package names and remote), --remote is short for --conan-remote-repo
+    const { configArgs, positionalArgs } = ConanPkgUpdateApp.splitArgs(args.map(arg => arg === '--remote' ? '--conan-remote-repo' : arg));
     const cliConfig = parseCliArgs(configArgs);
+    const explicitRemote = cliConfig.conan?.remoteRepo;
+    const updateAll = args.includes('--all');
 
-    // Get non-config arguments (package name and remote)
-    const nonConfigArgs = args.filter(arg => !arg.startsWith('-'));
-    const packageName = nonConfigArgs[0];
-    const remote = nonConfigArgs[1];
-
-    if (!packageName) {
+    if (positionalArgs.length === 0 && !updateAll) {
       logger.error('❌ Package name is required');
       ConanPkgUpdateApp.showUsage();
       await processExit(1);
     }
 
     logger.info(`🚀 AIFlow Conan Tool`);
-    logger.info(`📦 Package: ${packageName}`);
+    logger.info(`📦 Packages: ${updateAll ? 'all packages in conandata.yml' : positionalArgs.join(', ')}`);
     logger.info(`⏰ Started at: ${new Date().toISOString()}`);
     logger.info('─'.repeat(50));
 
@@ -381,12 +486,41 @@ Files Required:
       return;
     }
 
+    // Without --remote, the last argument is the remote unless it is a package referenced in conandata.yml
+    const referencedPackages = app.fileUpdater.getReferencedPackages();
+    let packageNames = positionalArgs;
+    let remote: string | undefined;
+    if (updateAll) {
+      packageNames = referencedPackages;
+      if (positionalArgs.length > 0 && !explicitRemote) {
+        remote = positionalArgs[0];
+        logger.warn(`⚠️  Using "${remote}" as the Conan remote, pass --remote ${remote} to make this explicit`);
+      } else if (positionalArgs.length > 0) {
+        logger.warn(`⚠️  Ignoring ${positionalArgs.join(', ')}: --all updates every package in conandata.yml`);
+      }
+    } else if (!explicitRemote && positionalArgs.length > 1 && !referencedPackages.includes(positionalArgs[positionalArgs.length - 1])) {
+      remote = positionalArgs[positionalArgs.length - 1];
+      packageNames = positionalArgs.slice(0, -1);
+      logger.warn(`⚠️  Using "${remote}" as the Conan remote because it is not a package in conandata.yml, pass --remote ${remote} to make this explicit`);
+    }
+
+    if (packageNames.length === 0) {
+      logger.error('❌ No packages found in conandata.yml');
+      await processExit(1);
+    }
+
     // Get remote from config or CLI or default
     const finalRemote = remote || getConfigValue(app.config, 'conan.remoteRepo', 'repo') || 'repo';
     logger.info(`🌐 Remote: ${finalRemote}`);
 
     // Run the update workflow
-    await app.updatePackage(packageName, finalRemote);
+    await app.updatePackages([...new Set(packageNames)], finalRemote);
+
+    // Skipped packages fail the run after the MR for the other packages is created
+    const exitCode = OutputUtil.getExitCode();
+    if (OutputUtil.isJsonOutput() || exitCode === OutputUtil.PARTIAL_FAILURE_EXIT_CODE) {
+      await processExit(exitCode);
+    }
   }
 }
 
@@ -6,6 +6,7 @@ import readline from 'readline';
 import { config as dotenvConfig } from 'dotenv';
 import { fileURLToPath } from 'url';
 import { logger } from './logger.js';
+import { CiUtil } from './utils/ci-util.js';
 
 /**
  * Get cross-platform user data directory for global config
@@ -24,6 +25,13 @@ function getUserDataDir(): string {
   }
 }
 
+/**
+ * Get the global aiflow directory holding the global config and local caches
+ */
+export function getGlobalConfigDir(): string {
+  return path.join(getUserDataDir(), 'aiflow');
+}
+
 /**
  * ESM/CommonJS compatibility helper for getting current directory.
  * @return {string} The current directory path
@@ -66,9 +74,24 @@ export function loadEnvironmentVariables(): void {
   }
 }
 
+/**
+ * Generic outgoing webhook, notified after a merge request is created
+ */
+export interface NotificationWebhookConfig {
+  /** Webhook URL */
+  url: string;
+  /** Additional request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Body template: JSON text or an object, with placeholders {{mrUrl}} {{title}} {{branch}} {{target}} {{changedFiles}} {{commit}} {{author}} */
+  body?: string | Record<string, unknown>;
+  /** Set to false to disable the webhook (default: true) */
+  enable?: boolean;
+}
+
 export interface AiflowConfig {
   // OpenAI Configuration
   openai?: {
+    provider?: 'openai' | 'anthropic' | 'ollama';
     key?: string;
     baseUrl?: string;
     model?: string;
@@ -89,6 +112,7 @@ export interface AiflowConfig {
   conan?: {
     remoteBaseUrl?: string;
     remoteRepo?: string;
+    lockFiles?: string[];
   };
 
   // WeChat Work Configuration
@@ -97,18 +121,84 @@ export interface AiflowConfig {
     enable?: boolean;
   };
 
+  // Slack Configuration (incoming webhook)
+  slack?: {
+    webhook?: string;
+    enable?: boolean;
+  };
+
+  // Feishu/Lark Configuration (custom bot)
+  feishu?: {
+    webhook?: string;
+    secret?: string;
+    enable?: boolean;
+  };
+
+  // DingTalk Configuration (custom robot)
+  dingtalk?: {
+    webhook?: string;
+    secret?: string;
+    enable?: boolean;
+  };
+
+  // Generic outgoing webhooks
+  notifications?: {
+    webhooks?: NotificationWebhookConfig[];
+  };
+
   // Git MR Configuration
   git?: {
     squashCommits?: boolean;
     removeSourceBranch?: boolean;
     generation_lang?: string;
+    review?: boolean;
+    branch_template?: string;
+    branch_policy?: string;
   };
 
   // Merge Request Configuration
   merge_request?: {
     assignee_id?: number;
     assignee_ids?: number[];
+    assignees?: string[];
     reviewer_ids?: number[];
+    reviewers?: string[];
+    update_existing?: boolean;
+    draft?: boolean;
+    labels?: string[];
+    milestone?: string | number;
+    allow_collaboration?: boolean;
+    ai_labels?: boolean;
+    recommend_reviewers?: 'off' | 'suggest' | 'assign';
+    reviewer_count?: number;
+  };
+
+  // Prompt Template Configuration
+  prompts?: {
+    system_template?: string;
+    user_template?: string;
+    mr_sections?: string[];
+    title_instructions?: string;
+  };
+
+  // Commit Lint Configuration
+  commit_lint?: {
+    enable?: boolean;
+    max_retries?: number;
+    types?: string[];
+    scopes?: string[];
+    header_max_length?: number;
+    subject_case?: string | string[];
+  };
+
+  // Issue Tracker Configuration
+  issue?: {
+    key?: string;
+    enable?: boolean;
+    link?: boolean;
+    closing_keyword?: string;
+    project_keys?: string[];
+    close_inferred?: boolean;
   };
 }
 
@@ -186,20 +276,58 @@ export class ConfigLoader {
     loadEnvironmentVariables();
 
     const envMapping = {
+      'OPENAI_PROVIDER': 'openai.provider',
       'OPENAI_KEY': 'openai.key',
       'OPENAI_BASE_URL': 'openai.baseUrl',
       'OPENAI_MODEL': 'openai.model',
       'OPENAI_REASONING': 'openai.reasoning',
       'CONAN_REMOTE_BASE_URL': 'conan.remoteBaseUrl',
       'CONAN_REMOTE_REPO': 'conan.remoteRepo',
+      'CONAN_LOCK_FILES': 'conan.lockFiles',
       'WECOM_WEBHOOK': 'wecom.webhook',
       'WECOM_ENABLE': 'wecom.enable',
+      'SLACK_WEBHOOK': 'slack.webhook',
+      'SLACK_ENABLE': 'slack.enable',
+      'FEISHU_WEBHOOK': 'feishu.webhook',
+      'FEISHU_SECRET': 'feishu.secret',
+      'FEISHU_ENABLE': 'feishu.enable',
+      'DINGTALK_WEBHOOK': 'dingtalk.webhook',
+      'DINGTALK_SECRET': 'dingtalk.secret',
+      'DINGTALK_ENABLE': 'dingtalk.enable',
       'SQUASH_COMMITS': 'git.squashCommits',
       'REMOVE_SOURCE_BRANCH': 'git.removeSourceBranch',
       'GIT_GENERATION_LANG': 'git.generation_lang',
+      'GIT_REVIEW': 'git.review',
+      'GIT_BRANCH_TEMPLATE': 'git.branch_template',
+      'GIT_BRANCH_POLICY': 'git.branch_policy',
       'MERGE_REQUEST_ASSIGNEE_ID': 'merge_request.assignee_id',
       'MERGE_REQUEST_ASSIGNEE_IDS': 'merge_request.assignee_ids',
+      'MERGE_REQUEST_ASSIGNEES': 'merge_request.assignees',
       'MERGE_REQUEST_REVIEWER_IDS': 'merge_request.reviewer_ids',
+      'MERGE_REQUEST_REVIEWERS': 'merge_request.reviewers',
+      'MERGE_REQUEST_UPDATE_EXISTING': 'merge_request.update_existing',
+      'MERGE_REQUEST_DRAFT': 'merge_request.draft',
+      'MERGE_REQUEST_LABELS': 'merge_request.labels',
+      'MERGE_REQUEST_MILESTONE': 'merge_request.milestone',
+      'MERGE_REQUEST_ALLOW_COLLABORATION': 'merge_request.allow_collaboration',
+      'MERGE_REQUEST_AI_LABELS': 'merge_request.ai_labels',
+      'MERGE_REQUEST_RECOMMEND_REVIEWERS': 'merge_request.recommend_reviewers',
+      'MERGE_REQUEST_REVIEWER_COUNT': 'merge_request.reviewer_count',
+      'PROMPTS_SYSTEM_TEMPLATE': 'prompts.system_template',
+      'PROMPTS_USER_TEMPLATE': 'prompts.user_template',
+      'PROMPTS_MR_SECTIONS': 'prompts.mr_sections',
+      'PROMPTS_TITLE_INSTRUCTIONS': 'prompts.title_instructions',
+      'COMMIT_LINT_ENABLE': 'commit_lint.enable',
+      'COMMIT_LINT_MAX_RETRIES': 'commit_lint.max_retries',
+      'COMMIT_LINT_TYPES': 'commit_lint.types',
+      'COMMIT_LINT_SCOPES': 'commit_lint.scopes',
+      'COMMIT_LINT_HEADER_MAX_LENGTH': 'commit_lint.header_max_length',
+      'ISSUE_KEY': 'issue.key',
+      'ISSUE_ENABLE': 'issue.enable',
+      'ISSUE_LINK': 'issue.link',
+      'ISSUE_CLOSING_KEYWORD': 'issue.closing_keyword',
+      'ISSUE_PROJECT_KEYS': 'issue.project_keys',
+      'ISSUE_CLOSE_INFERRED': 'issue.close_inferred',
     };
 
     // Handle git access token environment variables
@@ -226,11 +354,19 @@ export class ConfigLoader {
               return isNaN(num) ? 0 : num;
             }).filter(id => id >= 0);
           }
-        } else if (configPath === 'merge_request.assignee_id') {
+        } else if (configPath === 'merge_request.assignees' || configPath === 'merge_request.reviewers' || configPath === 'merge_request.labels' || configPath === 'prompts.mr_sections' ||
+          configPath === 'conan.lockFiles' || configPath === 'commit_lint.types' || configPath === 'commit_lint.scopes' || configPath === 'issue.project_keys') {
+          // Parse comma-separated string to string array
+          parsedValue = String(parsedValue).split(',').map(name => name.trim()).filter(name => name.length > 0);
+        } else if (configPath === 'merge_request.assignee_id' || configPath === 'merge_request.reviewer_count' || configPath === 'commit_lint.max_retries' ||
+          configPath === 'commit_lint.header_max_length') {
           if (typeof parsedValue === 'string') {
             const num = parseInt(parsedValue, 10);
             parsedValue = isNaN(num) ? 0 : num;
           }
+        } else if (configPath === 'issue.key') {
+          // Keep numeric issue keys (e.g. 456) as strings
+          parsedValue = String(parsedValue);
         }
 
         this.setNestedValue(config, configPath, parsedValue);
@@ -296,6 +432,14 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * Check if a config key holds an access token. In CI mode tokens are only read from
+   * environment variables, so a developer's config file on a shared runner is never used.
+   */
+  private isEnvOnlyToken(configKey: string): boolean {
+    return CiUtil.isCiMode() && (configKey === 'openai.key' || configKey.startsWith('git_access_tokens.'));
+  }
+
   /**
    * Merge CLI arguments into config
    */
@@ -328,6 +472,10 @@ export class ConfigLoader {
           // Recursively merge nested objects
           for (const [nestedKey, nestedValue] of Object.entries(value)) {
             if (nestedValue !== undefined && nestedValue !== null) {
+              if (this.isEnvOnlyToken(`${key}.${nestedKey}`)) {
+                this.warnings.push(`Ignoring ${key}.${nestedKey} from ${sourcePath || sourceType} in CI mode, tokens are only read from environment variables`);
+                continue;
+              }
               const nestedTarget = target[key as keyof AiflowConfig] as any;
               nestedTarget[nestedKey] = nestedValue;
               target._sources.set(`${key}.${nestedKey}`, { source: sourceType, path: sourcePath });
@@ -374,6 +522,9 @@ export class ConfigLoader {
       { path: 'conan.remoteRepo', name: 'CONAN_REMOTE_REPO', description: 'Conan remote repository name (optional)' },
       { path: 'wecom.webhook', name: 'WECOM_WEBHOOK', description: 'WeChat Work webhook URL (optional)' },
       { path: 'wecom.enable', name: 'WECOM_ENABLE', description: 'WeChat Work notifications enable flag (optional)' },
+      { path: 'slack.webhook', name: 'SLACK_WEBHOOK', description: 'Slack incoming webhook URL (optional)' },
+      { path: 'feishu.webhook', name: 'FEISHU_WEBHOOK', description: 'Feishu/Lark bot webhook URL (optional)' },
+      { path: 'dingtalk.webhook', name: 'DINGTALK_WEBHOOK', description: 'DingTalk robot webhook URL (optional)' },
     ];
 
     // Check if at least one git access token is configured
@@ -477,7 +628,10 @@ export class ConfigLoader {
 
 # OpenAI API 配置 - 用于AI驱动的功能
 openai:
-  # OpenAI API 密钥 (必需) - 用于生成提交信息和代码分析
+  # AI服务提供方 (可选) - openai(OpenAI兼容接口) | anthropic(Anthropic Messages API) | ollama(Ollama /api/chat)，默认为openai
+  provider: openai
+  
+  # OpenAI API 密钥 (必需) - 用于生成提交信息和代码分析，ollama 可不填
   key: ${exampleConfig.openai?.key}
   
   # OpenAI API 基础URL (必需) - API请求的端点地址
@@ -511,6 +665,9 @@ conan:
   # Conan 远程仓库名称 (可选) - 默认使用的仓库名称，默认为'repo'
   remoteRepo: ${exampleConfig.conan?.remoteRepo}
 
+  # Conan 锁文件 (可选) - 更新所有引用该包的锁文件，支持 * 和 ? 通配符，默认为 conan.lock 和 conan.*.lock
+  # lockFiles: [conan.lock, conan.win.lock, conan.linux.lock, locks/*.lock]
+
 # 企业微信通知配置 - 用于发送操作结果通知
 wecom:
   # 启用企业微信通知 (可选) - 是否开启通知功能，默认为false
@@ -519,6 +676,42 @@ wecom:
   # 企业微信机器人Webhook地址 (可选) - 用于发送通知消息的机器人地址
   webhook: ${exampleConfig.wecom?.webhook}
 
+# Slack 通知配置 (可选) - 通过 Incoming Webhook 发送合并请求通知，可与其他通知同时启用
+# slack:
+#   enable: true
+#   webhook: https://hooks.slack.com/services/T000/B000/XXXX
+
+# 飞书/Lark 通知配置 (可选) - 自定义机器人，开启签名校验时需配置 secret
+# feishu:
+#   enable: true
+#   webhook: https://open.feishu.cn/open-apis/bot/v2/hook/your-token
+#   secret: your-sign-secret
+
+# 钉钉通知配置 (可选) - 自定义机器人，安全设置为加签时需配置 secret
+# dingtalk:
+#   enable: true
+#   webhook: https://oapi.dingtalk.com/robot/send?access_token=your-token
+#   secret: SECxxxxxxxx
+
+# 通用 Webhook 通知配置 (可选) - 创建合并请求后向任意 HTTP 接口 POST JSON (如内部发布看板)
+# body 为 JSON 文本或对象，支持变量: {{mrUrl}} {{title}} {{branch}} {{target}} {{changedFiles}} {{commit}} {{author}}
+# 对象中值恰好为 "{{changedFiles}}" 时输出文件数组，其他位置输出换行分隔的文件列表；未配置 body 时发送全部字段
+# notifications:
+#   webhooks:
+#     - url: https://dashboard.example.com/api/merge-requests
+#       headers:
+#         Authorization: Bearer your-token
+#       body:
+#         event: merge_request_created
+#         url: "{{mrUrl}}"
+#         title: "{{title}}"
+#         source: "{{branch}}"
+#         target: "{{target}}"
+#         author: "{{author}}"
+#         files: "{{changedFiles}}"
+#     - url: https://hooks.example.com/notify
+#       body: '{"text": "{{author}} 创建了合并请求 {{title}}: {{mrUrl}}"}'
+
 # Git 合并请求配置 - 控制MR的默认行为
 git:
   # 压缩提交 (可选) - 合并时是否将多个提交压缩为一个，默认为true
@@ -526,6 +719,15 @@ git:
   
   # 删除源分支 (可选) - 合并后是否删除源分支，默认为true
   removeSourceBranch: ${exampleConfig.git?.removeSourceBranch}
+  
+  # 分支名模板 (可选) - 默认为 {user}/{issue}-{type}-{slug}-{random}，aiflow-conan 默认为 {user}/conan-update-{package}-{issue}-{type}-{slug}-{datetime}
+  # 占位符: {user} 用户名(点号替换为-) {type} 变更类型 {slug} 变更描述 {issue} 问题编号 {date} 日期(YYYYMMDD)
+  #         {datetime} 日期时间(YYYYMMDDHHMMSS) {shortsha} 当前提交短哈希 {package} Conan包名 {random} 6位随机字符
+  # 占位符为空时会自动去掉多余的分隔符
+  # branch_template: "{type}/{issue}-{slug}"
+  
+  # 分支名校验正则 (可选) - 生成的分支名必须匹配，否则在创建分支前中止，用于提前发现服务端推送规则的拒绝
+  # branch_policy: "^(feat|fix|docs|chore|refactor|test)/[a-z0-9._-]+$"
 
 # 合并请求指派配置 - 配置指派人和审查者
 merge_request:
@@ -535,8 +737,100 @@ merge_request:
   # 指派人用户ID数组 (可选) - 多个指派人，设置为空数组取消所有指派
   assignee_ids: []
   
+  # 指派人用户名/邮箱数组 (可选) - GitLab / GitHub 通过平台API查找用户
+  assignees: []
+  
   # 审查者用户ID数组 (可选) - 设置为空数组不添加审查者
   reviewer_ids: []
+  
+  # 审查者用户名/邮箱数组 (可选) - GitLab / GitHub 通过平台API查找用户 (结果缓存在本地)，Azure DevOps 直接使用，如: [alice, bob@corp.com]
+  reviewers: []
+  
+  # 更新已有MR (可选) - 当前分支已有打开的MR时，直接提交到当前分支并根据整个分支的差异重新生成MR描述，默认为true
+  # 设置为false时每次都创建新分支和新MR (GitLab / GitHub / Gitea)
+  update_existing: true
+  
+  # 草稿MR (可选) - GitLab 标题添加 "Draft:" 前缀，GitHub 创建 Draft PR，默认为false
+  # draft: false
+  
+  # MR标签 (可选)
+  # labels: [needs-review]
+  
+  # 里程碑 (可选) - 里程碑标题，或 GitLab 里程碑ID / GitHub 里程碑编号
+  # milestone: v1.2.0
+  
+  # 允许协作 (可选) - 允许有目标分支合并权限的成员向源分支提交 (GitLab allow_collaboration / GitHub maintainer_can_modify)
+  # allow_collaboration: true
+  
+  # AI标签 (可选) - 由AI根据变更从项目已有标签中选择MR标签，与 labels 合并 (GitLab / GitHub)，默认为true
+  # ai_labels: true
+  
+  # 推荐审查者 (可选) - 根据 CODEOWNERS 和变更行的 git blame/log 作者推荐审查者，排除提交者本人 (GitLab / GitHub)
+  # off: 关闭 (默认)，suggest: 仅输出推荐，assign: 自动添加为审查者
+  # recommend_reviewers: suggest
+  
+  # 推荐审查者数量 (可选)，默认为2
+  # reviewer_count: 2
+
+# 提示词模板配置 - 按仓库自定义AI提示词 (可选)
+# 模板文件路径相对于仓库根目录，支持变量: {{language}} {{contextInfo}} {{diff}} {{branch}} {{mrTemplate}} {{labels}}
+# 模板中未使用 {{diff}} 时，diff 将作为单独的消息发送
+prompts:
+  # 系统提示词模板文件 (可选) - 替换内置系统提示词
+  # system_template: .aiflow/prompts/system.md
+  
+  # 用户提示词模板文件 (可选) - 替换内置用户提示词
+  # user_template: .aiflow/prompts/user.md
+  
+  # MR描述章节 (可选) - 替换默认的 What Changed / Why / How to Test
+  # mr_sections: [What Changed, Why, Risk, Rollback, How to Test]
+  
+  # MR标题附加规则 (可选) - 支持模板变量
+  # title_instructions: "Prefix the title with the Jira key from branch {{branch}}, e.g. PROJ-123: ..."
+
+# 提交信息校验配置 - commitlint 风格规则 (可选)
+# 同时读取仓库中已有的 commitlint 配置 (commitlint.config.*、.commitlintrc*、package.json)，此处配置优先
+# 校验失败时会请求AI修正，仍不通过则中止，避免推送被服务端钩子拒绝
+commit_lint:
+  # 启用校验 (可选) - 默认为true，未配置任何规则时不校验
+  enable: true
+  
+  # AI修正最大次数 (可选) - 默认为2
+  max_retries: 2
+  
+  # 允许的提交类型 (可选)
+  # types: [feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert]
+  
+  # 允许的作用域 (可选)
+  # scopes: [api, ui]
+  
+  # 标题最大长度 (可选)
+  # header_max_length: 72
+  
+  # 主题大小写 (可选) - lower-case | upper-case | sentence-case | start-case | pascal-case | camel-case | kebab-case | snake-case
+  # subject_case: lower-case
+
+# 问题追踪配置 - 关联 Jira / GitLab / GitHub Issue (可选)
+# 默认从分支名 (如 feature/PROJ-123-login、fix/issue-456-login) 和最近提交记录的 Closes/Refs 等尾注中提取问题编号
+# 提取到后会写入提交信息 (Refs: PROJ-123)、分支名、MR标题和描述 (--issue 指定时为 Closes PROJ-123，自动提取时为 Refs PROJ-123)
+issue:
+  # 启用问题关联 (可选) - 默认为true
+  enable: true
+  
+  # 问题编号 (可选) - 通常通过 --issue 参数指定
+  # key: PROJ-123
+  
+  # 在平台Issue中评论MR链接 (可选) - 默认为true，仅适用于 #456 形式的 GitLab/GitHub Issue
+  link: true
+  
+  # MR描述中的关闭关键字 (可选) - 默认为 Closes，可改为 Refs 等避免合并时自动关闭
+  # closing_keyword: Closes
+  
+  # Jira 项目Key (可选) - 仅从分支名和提交记录中提取这些项目的问题编号，避免 GPT-4、COVID-19 等被误识别
+  # project_keys: [PROJ, OPS]
+  
+  # 自动提取的问题也使用关闭关键字 (可选) - 默认为false，仅添加 Refs 引用，合并时不会关闭问题
+  # close_inferred: false
 `;
 
     fs.writeFileSync(localConfigPath, yamlContent);
@@ -634,6 +928,10 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
     }
 
     switch (key) {
+      case 'openai-provider':
+        config.openai = { ...config.openai, provider: value as 'openai' | 'anthropic' | 'ollama' };
+        i++;
+        break;
       case 'openai-key':
         config.openai = { ...config.openai, key: value };
         i++;
@@ -668,6 +966,13 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
         config.conan = { ...config.conan, remoteRepo: value };
         i++;
         break;
+      case 'conan-lock-files':
+        // Parse comma-separated string to lock file pattern array
+        if (value) {
+          config.conan = { ...config.conan, lockFiles: value.split(',').map(pattern => pattern.trim()).filter(pattern => pattern.length > 0) };
+        }
+        i++;
+        break;
       case 'wecom-webhook':
         config.wecom = { ...config.wecom, webhook: value };
         i++;
@@ -676,6 +981,38 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
         config.wecom = { ...config.wecom, enable: value !== 'false' };
         i++;
         break;
+      case 'slack-webhook':
+        config.slack = { ...config.slack, webhook: value };
+        i++;
+        break;
+      case 'slack-enable':
+        config.slack = { ...config.slack, enable: value !== 'false' };
+        i++;
+        break;
+      case 'feishu-webhook':
+        config.feishu = { ...config.feishu, webhook: value };
+        i++;
+        break;
+      case 'feishu-secret':
+        config.feishu = { ...config.feishu, secret: value };
+        i++;
+        break;
+      case 'feishu-enable':
+        config.feishu = { ...config.feishu, enable: value !== 'false' };
+        i++;
+        break;
+      case 'dingtalk-webhook':
+        config.dingtalk = { ...config.dingtalk, webhook: value };
+        i++;
+        break;
+      case 'dingtalk-secret':
+        config.dingtalk = { ...config.dingtalk, secret: value };
+        i++;
+        break;
+      case 'dingtalk-enable':
+        config.dingtalk = { ...config.dingtalk, enable: value !== 'false' };
+        i++;
+        break;
       case 'squash-commits':
         config.git = { ...config.git, squashCommits: value !== 'false' };
         i++;
@@ -688,6 +1025,18 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
         config.git = { ...config.git, generation_lang: value };
         i++;
         break;
+      case 'review':
+        config.git = { ...config.git, review: value !== 'false' };
+        i++;
+        break;
+      case 'branch-template':
+        config.git = { ...config.git, branch_template: value };
+        i++;
+        break;
+      case 'branch-policy':
+        config.git = { ...config.git, branch_policy: value };
+        i++;
+        break;
       case 'merge-request-assignee-id':
         const assigneeId = parseInt(value, 10);
         config.merge_request = { ...config.merge_request, assignee_id: isNaN(assigneeId) ? 0 : assigneeId };
@@ -715,6 +1064,104 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
         }
         i++;
         break;
+      case 'merge-request-assignees':
+        // Parse comma-separated string to user name array
+        if (value) {
+          const assignees = value.split(',').map(name => name.trim()).filter(name => name.length > 0);
+          config.merge_request = { ...config.merge_request, assignees };
+        }
+        i++;
+        break;
+      case 'merge-request-reviewers':
+        // Parse comma-separated string to string array
+        if (value) {
+          const reviewers = value.split(',').map(name => name.trim()).filter(name => name.length > 0);
+          config.merge_request = { ...config.merge_request, reviewers };
+        }
+        i++;
+        break;
+      case 'merge-request-update-existing':
+        config.merge_request = { ...config.merge_request, update_existing: value !== 'false' };
+        i++;
+        break;
+      case 'merge-request-draft':
+        config.merge_request = { ...config.merge_request, draft: value !== 'false' };
+        i++;
+        break;
+      case 'merge-request-labels':
+        // Parse comma-separated string to label array
+        if (value) {
+          const labels = value.split(',').map(label => label.trim()).filter(label => label.length > 0);
+          config.merge_request = { ...config.merge_request, labels };
+        }
+        i++;
+        break;
+      case 'merge-request-milestone':
+        config.merge_request = { ...config.merge_request, milestone: value };
+        i++;
+        break;
+      case 'merge-request-allow-collaboration':
+        config.merge_request = { ...config.merge_request, allow_collaboration: value !== 'false' };
+        i++;
+        break;
+      case 'merge-request-ai-labels':
+        config.merge_request = { ...config.merge_request, ai_labels: value !== 'false' };
+        i++;
+        break;
+      case 'merge-request-recommend-reviewers':
+        config.merge_request = { ...config.merge_request, recommend_reviewers: value as 'off' | 'suggest' | 'assign' };
+        i++;
+        break;
+      case 'merge-request-reviewer-count': {
+        const reviewerCount = parseInt(value, 10);
+        config.merge_request = { ...config.merge_request, reviewer_count: isNaN(reviewerCount) ? 2 : reviewerCount };
+        i++;
+        break;
+      }
+      case 'prompt-system-template':
+        config.prompts = { ...config.prompts, system_template: value };
+        i++;
+        break;
+      case 'prompt-user-template':
+        config.prompts = { ...config.prompts, user_template: value };
+        i++;
+        break;
+      case 'prompt-mr-sections':
+        // Parse comma-separated string to section heading array
+        if (value) {
+          const mrSections = value.split(',').map(section => section.trim()).filter(section => section.length > 0);
+          config.prompts = { ...config.prompts, mr_sections: mrSections };
+        }
+        i++;
+        break;
+      case 'prompt-title-instructions':
+        config.prompts = { ...config.prompts, title_instructions: value };
+        i++;
+        break;
+      case 'commit-lint':
+        config.commit_lint = { ...config.commit_lint, enable: value !== 'false' };
+        i++;
+        break;
+      case 'commit-lint-max-retries':
+        const maxRetries = parseInt(value, 10);
+        config.commit_lint = { ...config.commit_lint, max_retries: isNaN(maxRetries) ? 2 : maxRetries };
+        i++;
+        break;
+      case 'issue':
+        config.issue = { ...config.issue, key: value };
+        i++;
+        break;
+      case 'issue-link':
+        config.issue = { ...config.issue, link: value !== 'false' };
+        i++;
+        break;
+      case 'issue-project-keys':
+        // Parse comma-separated string to Jira project key array
+        if (value) {
+          config.issue = { ...config.issue, project_keys: value.split(',').map(key => key.trim()).filter(key => key.length > 0) };
+        }
+        i++;
+        break;
     }
   }
 
@@ -727,6 +1174,7 @@ export function parseCliArgs(args: string[]): Partial<AiflowConfig> {
 function getShortArgMapping(shortKey: string): string {
   const shortArgMap: Record<string, string> = {
     // OpenAI shortcuts (OpenAI Key, OpenAI Base Url, OpenAI Model, OpenAI Reasoning)
+    'op': 'openai-provider',
     'ok': 'openai-key',
     'obu': 'openai-base-url',
     'om': 'openai-model',
@@ -735,23 +1183,62 @@ function getShortArgMapping(shortKey: string): string {
     // Git access token shortcuts (Git Access Token)
     'gat': 'git-access-token',
 
-    // Conan shortcuts (Conan Remote Base Url, Conan Remote Repo)
+    // Conan shortcuts (Conan Remote Base Url, Conan Remote Repo, Conan Lock Files)
     'crbu': 'conan-remote-base-url',
     'crr': 'conan-remote-repo',
+    'clf': 'conan-lock-files',
 
     // WeChat Work shortcuts (WeChat Work webhook, WeChat Work Enable)
     'ww': 'wecom-webhook',
     'we': 'wecom-enable',
 
-    // Git shortcuts (Squash Commits, Remove Source Branch, Generate Language)
+    // Notifier shortcuts (SLack Webhook/Enable, FeiShu Webhook/Secret/Enable, DingTalk Webhook/Secret/Enable)
+    'slw': 'slack-webhook',
+    'sle': 'slack-enable',
+    'fsw': 'feishu-webhook',
+    'fss': 'feishu-secret',
+    'fse': 'feishu-enable',
+    'dtw': 'dingtalk-webhook',
+    'dts': 'dingtalk-secret',
+    'dte': 'dingtalk-enable',
+
+    // Git shortcuts (Squash Commits, Remove Source Branch, Generate Language, ReView, Branch Template, Branch Policy)
     'sc': 'squash-commits',
     'rsb': 'remove-source-branch',
     'ggl': 'git-generation-lang',
+    'rv': 'review',
+    'bt': 'branch-template',
+    'bp': 'branch-policy',
 
-    // Merge Request shortcuts (Merge Request Assignee ID, Assignee IDs, Reviewer IDs)
+    // Merge Request shortcuts (Merge Request Assignee ID, Assignee IDs, Reviewer IDs, ReviewerS, Update Existing, Draft, Labels, Milestone, Allow Collaboration, AI Labels, Recommend Reviewers, Reviewer Count)
     'mrai': 'merge-request-assignee-id',
     'mrais': 'merge-request-assignee-ids',
+    'mras': 'merge-request-assignees',
     'mrris': 'merge-request-reviewer-ids',
+    'mrrs': 'merge-request-reviewers',
+    'mrue': 'merge-request-update-existing',
+    'mrd': 'merge-request-draft',
+    'mrl': 'merge-request-labels',
+    'mrm': 'merge-request-milestone',
+    'mrac': 'merge-request-allow-collaboration',
+    'mral': 'merge-request-ai-labels',
+    'mrrr': 'merge-request-recommend-reviewers',
+    'mrrc': 'merge-request-reviewer-count',
+
+    // Prompt shortcuts (Prompt System Template, Prompt User Template, Prompt MR Sections, Prompt Title Instructions)
+    'pst': 'prompt-system-template',
+    'put': 'prompt-user-template',
+    'pms': 'prompt-mr-sections',
+    'pti': 'prompt-title-instructions',
+
+    // Commit lint shortcuts (Commit Lint, Commit Lint Max Retries)
+    'cl': 'commit-lint',
+    'clmr': 'commit-lint-max-retries',
+
+    // Issue tracker shortcuts (ISsue, Issue Link, Issue Project Keys)
+    'is': 'issue',
+    'il': 'issue-link',
+    'ipk': 'issue-project-keys',
   };
 
   return shortArgMap[shortKey] || shortKey;
@@ -771,7 +1258,8 @@ AIFlow CLI 配置选项
 配置优先级: 命令行参数 > 本地配置(.aiflow/config.yaml) > 全局配置(${globalConfigPath}) > 环境变量
 
 OpenAI 配置 - AI功能支持:
-  -ok, --openai-key <key>               OpenAI API密钥 (必需，用于AI生成提交信息)
+  -op, --openai-provider <name>         AI服务提供方 (可选，openai | anthropic | ollama，默认openai)
+  -ok, --openai-key <key>               OpenAI API密钥 (必需，用于AI生成提交信息；ollama 可不填)
   -obu, --openai-base-url <url>         OpenAI API地址 (必需，API请求端点)
   -om, --openai-model <model>           OpenAI模型 (必需，如gpt-3.5-turbo、gpt-4)
   -or, --openai-reasoning <bool>        启用推理模式 (可选，适用于o1等推理模型)
@@ -786,20 +1274,59 @@ Git 访问令牌配置 - 多平台支持:
 Conan 配置 - C++包管理:
   -crbu, --conan-remote-base-url <url>  Conan仓库API地址 (Conan操作时必需)
   -crr, --conan-remote-repo <repo>      Conan仓库名称 (可选，默认为'repo')
+  -clf, --conan-lock-files <patterns>   Conan锁文件列表，逗号分隔，支持通配符 (可选，默认为 conan.lock,conan.*.lock)
 
 企业微信配置 - 通知功能:
   -ww, --wecom-webhook <url>            企业微信机器人Webhook地址 (可选)
   -we, --wecom-enable <bool>            启用企业微信通知 (可选，true/false)
 
+Slack / 飞书 / 钉钉配置 - 通知功能 (可同时启用多个):
+  -slw, --slack-webhook <url>           Slack Incoming Webhook 地址 (可选)
+  -sle, --slack-enable <bool>           启用 Slack 通知 (可选，true/false)
+  -fsw, --feishu-webhook <url>          飞书/Lark 机器人 Webhook 地址 (可选)
+  -fss, --feishu-secret <secret>        飞书/Lark 机器人签名校验密钥 (可选)
+  -fse, --feishu-enable <bool>          启用飞书/Lark 通知 (可选，true/false)
+  -dtw, --dingtalk-webhook <url>        钉钉机器人 Webhook 地址 (可选)
+  -dts, --dingtalk-secret <secret>      钉钉机器人加签密钥 (可选，SEC开头)
+  -dte, --dingtalk-enable <bool>        启用钉钉通知 (可选，true/false)
+
 Git 配置 - 合并请求行为:
   -sc, --squash-commits <bool>          压缩提交 (可选，合并时压缩多个提交)
   -rsb, --remove-source-branch <bool>   删除源分支 (可选，合并后删除分支)
   -ggl, --git-generation-lang <lang>      生成语言 (可选，AI生成内容的语言，如: zh-CN, en, ja)
+  -rv, --review <bool>                  提交前审阅 (可选，交互式接受/重新生成/编辑/中止 AI 生成的内容)
+  -bt, --branch-template <template>     分支名模板 (可选，占位符: {user} {type} {slug} {issue} {date} {datetime} {shortsha} {package} {random})
+  -bp, --branch-policy <regex>          分支名校验正则 (可选，不匹配时在创建分支前中止)
 
 合并请求配置 - 指派和审查者:
   -mrai, --merge-request-assignee-id <id>      单个指派人用户ID (可选，设置为0取消指派)
   -mrais, --merge-request-assignee-ids <ids>   指派人用户ID列表 (可选，逗号分隔，如: 1,2,3)
+  -mras, --merge-request-assignees <names>     指派人用户名/邮箱列表 (可选，逗号分隔，GitLab / GitHub)
   -mrris, --merge-request-reviewer-ids <ids>   审查者用户ID列表 (可选，逗号分隔，如: 1,2,3)
+  -mrrs, --merge-request-reviewers <names>     审查者用户名/邮箱列表 (可选，逗号分隔，如: alice,bob@corp.com)
+  -mrue, --merge-request-update-existing <bool> 当前分支已有打开的MR时提交到当前分支并更新该MR (可选，默认true)
+  -mrd, --merge-request-draft <bool>           创建草稿MR (可选，GitLab 添加 Draft: 前缀，GitHub 创建 Draft PR)
+  -mrl, --merge-request-labels <labels>        MR标签列表 (可选，逗号分隔，如: needs-review,backend)
+  -mrm, --merge-request-milestone <milestone>  里程碑标题或ID (可选)
+  -mrac, --merge-request-allow-collaboration <bool> 允许有目标分支合并权限的成员向源分支提交 (可选)
+  -mral, --merge-request-ai-labels <bool>      由AI从项目标签中选择MR标签 (可选，默认true，支持 GitLab / GitHub)
+  -mrrr, --merge-request-recommend-reviewers <mode> 根据 CODEOWNERS 和变更行作者推荐审查者 (可选，off/suggest/assign，默认off)
+  -mrrc, --merge-request-reviewer-count <num>  推荐审查者数量 (可选，默认2)
+
+提示词模板配置 - 自定义AI提示词:
+  -pst, --prompt-system-template <file>        系统提示词模板文件 (可选，相对仓库根目录，支持 {{language}} {{contextInfo}} {{diff}} {{branch}})
+  -put, --prompt-user-template <file>          用户提示词模板文件 (可选，变量同上)
+  -pms, --prompt-mr-sections <sections>        MR描述章节列表 (可选，逗号分隔，如: What Changed,Why,Risk,Rollback,How to Test)
+  -pti, --prompt-title-instructions <text>     MR标题附加规则 (可选，支持模板变量，如: 标题以分支 {{branch}} 中的Jira编号开头)
+
+提交信息校验配置 - commitlint 规则:
+  -cl, --commit-lint <bool>                    启用提交信息校验 (可选，默认true，规则来自配置或 commitlint.config.*)
+  -clmr, --commit-lint-max-retries <n>         校验失败时请求AI修正的最大次数 (可选，默认2)
+
+问题追踪配置 - 关联 Jira / GitLab / GitHub Issue:
+  -is, --issue <key>                           问题编号 (可选，如: PROJ-123 或 #456，默认从分支名和提交记录中提取)
+  -il, --issue-link <bool>                     在平台Issue中评论MR链接 (可选，默认true，仅适用于 #456 形式的平台Issue)
+  -ipk, --issue-project-keys <keys>            Jira项目Key列表，逗号分隔 (可选，如: PROJ,OPS，仅提取这些项目的问题编号)
 
 使用示例:
   # 基本配置
@@ -846,6 +1373,10 @@ export async function initConfig(isGlobal: boolean = false): Promise<void> {
     configPath = path.join(process.cwd(), '.aiflow', 'config.yaml');
   }
 
+  if (CiUtil.isCiMode()) {
+    await CiUtil.refuseInteractivePrompt('"init" asks for each setting, provide configuration through environment variables instead');
+  }
+
   console.log(`🔧 AIFlow 配置初始化${isGlobal ? ' (全局)' : ' (本地)'}`);
   console.log(`📁 配置位置: ${configPath}`);
   console.log('💡 提示：直接回车使用默认值或跳过可选配置\n');
@@ -988,6 +1519,10 @@ export async function initConfig(isGlobal: boolean = false): Promise<void> {
     // OpenAI configuration
     if (configModules.includes('openai')) {
       console.log('🤖 OpenAI 配置:');
+      const currentProvider = configData.openai.provider || 'openai';
+      const openaiProvider = await question(`  AI服务提供方 (openai/anthropic/ollama) [${currentProvider}]: `);
+      configData.openai.provider = (openaiProvider.trim() || currentProvider) as 'openai' | 'anthropic' | 'ollama';
+
       const currentKey = configData.openai.key ? '已设置' : '';
       const openaiKey = await question(`  OpenAI API 密钥 (必需)${currentKey ? ` [${currentKey}]` : ''}: `);
       if (openaiKey.trim()) configData.openai.key = openaiKey.trim();
@@ -1236,7 +1771,10 @@ export async function createConfigFile(
     
     yamlContent += `# OpenAI API 配置 - 用于AI驱动的功能
 openai:
-  # OpenAI API 密钥 (必需) - 用于生成提交信息和代码分析
+  # AI服务提供方 (可选) - openai(OpenAI兼容接口) | anthropic(Anthropic Messages API) | ollama(Ollama /api/chat)，默认为openai
+  provider: ${openaiConfig.provider || 'openai'}
+  
+  # OpenAI API 密钥 (必需) - 用于生成提交信息和代码分析，ollama 可不填
   key: ${openaiConfig.key || 'your-openai-api-key'}
   
   # OpenAI API 基础URL (必需) - API请求的端点地址
@@ -1281,6 +1819,9 @@ conan:
   # Conan 远程仓库名称 (可选) - 默认使用的仓库名称，默认为'repo'
   remoteRepo: ${conanConfig.remoteRepo || 'repo'}
 
+  # Conan 锁文件 (可选) - 更新所有引用该包的锁文件，支持 * 和 ? 通配符，默认为 conan.lock 和 conan.*.lock
+  ${Array.isArray(conanConfig.lockFiles) && conanConfig.lockFiles.length > 0 ? `lockFiles: ${JSON.stringify(conanConfig.lockFiles)}` : '# lockFiles: [conan.lock, conan.win.lock, conan.linux.lock, locks/*.lock]'}
+
 `;
   }
 
@@ -1311,7 +1852,10 @@ git:
   
   # AI生成语言 (可选) - AI生成commit message和MR描述的语言，默认为en
   generation_lang: ${gitConfig.generation_lang || 'en'}
-
+  
+  # 提交前审阅 (可选) - 提交前交互式审阅AI生成的内容，可接受/重新生成/用$EDITOR编辑/中止，默认为false
+  review: ${gitConfig.review !== undefined ? gitConfig.review : false}
+${gitConfig.branch_template ? `  branch_template: ${JSON.stringify(gitConfig.branch_template)}\n` : ''}${gitConfig.branch_policy ? `  branch_policy: ${JSON.stringify(gitConfig.branch_policy)}\n` : ''}
 `;
   }
 
@@ -1326,8 +1870,100 @@ merge_request:
   # 指派人用户ID数组 (可选) - 多个指派人，设置为空数组取消所有指派
   assignee_ids: ${mrConfig?.assignee_ids ? JSON.stringify(mrConfig.assignee_ids) : '[]'}
   
+  # 指派人用户名/邮箱数组 (可选) - GitLab / GitHub 通过平台API查找用户
+  assignees: ${mrConfig?.assignees ? JSON.stringify(mrConfig.assignees) : '[]'}
+  
   # 审查者用户ID数组 (可选) - 设置为空数组不添加审查者
   reviewer_ids: ${mrConfig?.reviewer_ids ? JSON.stringify(mrConfig.reviewer_ids) : '[]'}
+  
+  # 审查者用户名/邮箱数组 (可选) - GitLab / GitHub 通过平台API查找用户 (结果缓存在本地)，Azure DevOps 直接使用，如: [alice, bob@corp.com]
+  reviewers: ${mrConfig?.reviewers ? JSON.stringify(mrConfig.reviewers) : '[]'}
+  
+  # 更新已有MR (可选) - 当前分支已有打开的MR时，直接提交到当前分支并更新MR描述，默认为true
+  update_existing: ${mrConfig?.update_existing !== undefined ? mrConfig.update_existing : true}
+${mrConfig?.draft !== undefined ? `  draft: ${mrConfig.draft}\n` : ''}${mrConfig?.labels?.length ? `  labels: ${JSON.stringify(mrConfig.labels)}\n` : ''}${mrConfig?.milestone !== undefined ? `  milestone: ${JSON.stringify(mrConfig.milestone)}\n` : ''}${mrConfig?.allow_collaboration !== undefined ? `  allow_collaboration: ${mrConfig.allow_collaboration}\n` : ''}${mrConfig?.ai_labels !== undefined ? `  ai_labels: ${mrConfig.ai_labels}\n` : ''}${mrConfig?.recommend_reviewers !== undefined ? `  recommend_reviewers: ${mrConfig.recommend_reviewers}\n` : ''}${mrConfig?.reviewer_count !== undefined ? `  reviewer_count: ${mrConfig.reviewer_count}\n` : ''}`;
+  }
+
+  // Prompt templates are not configured interactively, keep existing ones or add a commented example
+  if (existingConfig.prompts) {
+    yamlContent += `
+# 提示词模板配置 - 按仓库自定义AI提示词
+${yaml.dump({ prompts: existingConfig.prompts })}`;
+  } else if (modulesToInclude.length === allModules.length) {
+    yamlContent += `
+# 提示词模板配置 - 按仓库自定义AI提示词 (可选)
+# 模板文件路径相对于仓库根目录，支持变量: {{language}} {{contextInfo}} {{diff}} {{branch}} {{mrTemplate}} {{labels}}
+# prompts:
+#   system_template: .aiflow/prompts/system.md
+#   user_template: .aiflow/prompts/user.md
+#   mr_sections: [What Changed, Why, Risk, Rollback, How to Test]
+#   title_instructions: "Prefix the title with the Jira key from branch {{branch}}, e.g. PROJ-123: ..."
+`;
+  }
+
+  // Commit lint rules are not configured interactively either
+  if (existingConfig.commit_lint) {
+    yamlContent += `
+# 提交信息校验配置 - commitlint 风格规则
+${yaml.dump({ commit_lint: existingConfig.commit_lint })}`;
+  } else if (modulesToInclude.length === allModules.length) {
+    yamlContent += `
+# 提交信息校验配置 - commitlint 风格规则 (可选)，同时读取仓库中的 commitlint.config.*
+# commit_lint:
+#   enable: true
+#   max_retries: 2
+#   types: [feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert]
+#   header_max_length: 72
+#   subject_case: lower-case
+`;
+  }
+
+  // Issue linking is not configured interactively either
+  if (existingConfig.issue) {
+    yamlContent += `
+# 问题追踪配置 - 关联 Jira / GitLab / GitHub Issue
+${yaml.dump({ issue: existingConfig.issue })}`;
+  } else if (modulesToInclude.length === allModules.length) {
+    yamlContent += `
+# 问题追踪配置 - 关联 Jira / GitLab / GitHub Issue (可选)，默认从分支名和提交记录中提取问题编号
+# issue:
+#   enable: true
+#   link: true
+#   closing_keyword: Closes
+#   project_keys: [PROJ]
+#   close_inferred: false
+`;
+  }
+
+  // Slack, Feishu/Lark, DingTalk and generic webhook notifiers are not configured interactively either
+  const notifierConfigs = Object.fromEntries(
+    ['slack', 'feishu', 'dingtalk', 'notifications'].filter(key => existingConfig[key]).map(key => [key, existingConfig[key]])
+  );
+  if (Object.keys(notifierConfigs).length > 0) {
+    yamlContent += `
+# Slack / 飞书 / 钉钉 / 通用 Webhook 通知配置
+${yaml.dump(notifierConfigs)}`;
+  } else if (modulesToInclude.length === allModules.length) {
+    yamlContent += `
+# Slack / 飞书 / 钉钉 / 通用 Webhook 通知配置 (可选)，可与企业微信通知同时启用，secret 为飞书签名校验或钉钉加签密钥
+# 通用 Webhook 的 body 支持变量: {{mrUrl}} {{title}} {{branch}} {{target}} {{changedFiles}} {{commit}} {{author}}
+# slack:
+#   enable: true
+#   webhook: https://hooks.slack.com/services/T000/B000/XXXX
+# feishu:
+#   enable: true
+#   webhook: https://open.feishu.cn/open-apis/bot/v2/hook/your-token
+#   secret: your-sign-secret
+# dingtalk:
+#   enable: true
+#   webhook: https://oapi.dingtalk.com/robot/send?access_token=your-token
+#   secret: SECxxxxxxxx
+# notifications:
+#   webhooks:
+#     - url: https://dashboard.example.com/api/merge-requests
+#       headers:
+#         Authorization: Bearer your-token
+#       body: '{"title": "{{title}}", "url": "{{mrUrl}}", "author": "{{author}}"}'
 `;
   }
 
@@ -31,6 +31,64 @@ export class HttpClient {
     return result;
   }
 
+  /**
+   * GET a paginated JSON list, following the Link rel="next" header (GitHub, GitLab, Gitea)
+   * or the X-Next-Page header (GitLab) until the last page
+   * @returns Items of all pages
+   */
+  async requestJsonPages<T>(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let nextUrl: string | null = url;
+
+    while (nextUrl) {
+      const pageUrl: string = nextUrl;
+      const startTime = Date.now();
+      logger.httpRequest('GET', pageUrl);
+
+      const resp = await fetch(pageUrl, { method: 'GET', headers });
+      const duration = Date.now() - startTime;
+
+      if (!resp.ok) {
+        const errorText = await resp.text();
+        logger.error(`HTTP GET ${pageUrl} failed (${duration}ms)`, {
+          status: resp.status,
+          error: errorText
+        });
+        throw new Error(`HTTP ${resp.status}: ${errorText}`);
+      }
+
+      items.push(...await resp.json() as T[]);
+      logger.httpRequest('GET', pageUrl, resp.status, duration);
+      nextUrl = HttpClient.getNextPageUrl(pageUrl, resp.headers);
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the URL of the next page from the pagination headers of a response
+   * @returns Next page URL, null on the last page
+   */
+  static getNextPageUrl(url: string, headers: Headers): string | null {
+    const link = headers.get('link');
+    if (link) {
+      const next = link.split(',').find(part => /;\s*rel="?next"?/.test(part));
+      const match = next?.match(/<([^>]+)>/);
+      return match ? new URL(match[1], url).toString() : null;
+    }
+
+    const nextPage = headers.get('x-next-page');
+    if (nextPage) {
+      const nextUrl = new URL(url);
+      nextUrl.searchParams.set('page', nextPage);
+      return nextUrl.toString();
+    }
+    return null;
+  }
+
   async requestText(
     url: string,
     method: string,
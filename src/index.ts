@@ -1,10 +1,27 @@
 export { Shell } from './shell.js';
 export { HttpClient } from './http/http-client.js';
 export { StringUtil } from './utils/string-util.js';
+export { OutputUtil } from './utils/output-util.js';
+export { BranchNameUtil } from './utils/branch-name-util.js';
 export { GitService } from './services/git-service.js';
 export { OpenAiService } from './services/openai-service.js';
+export { LlmProviderFactory } from './services/llm-provider-factory.js';
+export { LlmProvider } from './services/llm-provider.js';
+export { CommitLintService } from './services/commit-lint-service.js';
+export { IssueLinkService } from './services/issue-link-service.js';
+export { StackService } from './services/stack-service.js';
+export { ReviewerService } from './services/reviewer-service.js';
 export { GitPlatformServiceFactory, GitPlatformService, GitPlatform, getGitAccessTokenForCurrentRepo } from './services/git-platform-service.js';
 export { GitlabPlatformService } from './services/gitlab-platform-service.js';
 export { GithubPlatformService } from './services/github-platform-service.js';
+export { GiteaPlatformService } from './services/gitea-platform-service.js';
+export { BitbucketPlatformService } from './services/bitbucket-platform-service.js';
+export { AzureDevopsPlatformService } from './services/azure-devops-platform-service.js';
+export { Notifier } from './services/notifier.js';
+export { NotifierFactory } from './services/notifier-factory.js';
 export { WecomNotifier } from './services/wecom-notifier.js';
+export { SlackNotifier } from './services/slack-notifier.js';
+export { FeishuNotifier } from './services/feishu-notifier.js';
+export { DingtalkNotifier } from './services/dingtalk-notifier.js';
+export { WebhookNotifier } from './services/webhook-notifier.js';
 export { ConanService } from './services/conan-service.js';
\ No newline at end of file
@@ -0,0 +1,124 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmProvider, LlmProviderType, LlmChatRequest, LlmChatResponse, ReasoningConfig } from './llm-provider.js';
+import { logger } from '../logger.js';
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicLlmProvider extends LlmProvider {
+  /** Default number of output tokens, the Messages API requires max_tokens */
+  private static readonly DEFAULT_MAX_TOKENS = 4096;
+  /** Minimum extended thinking budget accepted by the API */
+  private static readonly MIN_THINKING_TOKENS = 1024;
+
+  private readonly client: Anthropic;
+
+  constructor(apiKey: string, baseUrl: string, model: string, reasoning: boolean | ReasoningConfig = false) {
+    // The SDK appends /v1/messages itself
+    super(apiKey, baseUrl.replace(/\/$/, '').replace(/\/v1(\/messages)?$/, ''), model, reasoning);
+
+    this.client = new Anthropic({
+      apiKey: this.apiKey,
+      baseURL: this.baseUrl || undefined,
+      maxRetries: 3,
+      timeout: 300000
+    });
+  }
+
+  getProviderName(): LlmProviderType {
+    return 'anthropic';
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const thinkingBudget = this.getThinkingBudget();
+    const maxTokens = (request.maxTokens || AnthropicLlmProvider.DEFAULT_MAX_TOKENS) + (thinkingBudget || 0);
+
+    // System prompts are a separate parameter, consecutive messages of the same role are merged
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages: Anthropic.MessageParam[] = [];
+    for (const message of request.messages) {
+      if (message.role === 'system') {
+        continue;
+      }
+      const last = messages[messages.length - 1];
+      if (last && last.role === message.role) {
+        last.content = `${last.content}\n\n${message.content}`;
+      } else {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const requestParams: Anthropic.MessageCreateParamsNonStreaming = {
+      model: this.model,
+      max_tokens: maxTokens,
+      messages
+    };
+
+    if (system) {
+      requestParams.system = system;
+    }
+
+    if (thinkingBudget) {
+      // Extended thinking requires the default temperature and does not allow forcing a tool
+      requestParams.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+      logger.debug(`Enabling extended thinking for model: ${this.model}`, { budget_tokens: thinkingBudget });
+    } else {
+      requestParams.temperature = request.temperature ?? 0.1;
+    }
+
+    if (request.tool) {
+      requestParams.tools = [{
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: request.tool.parameters as Anthropic.Tool.InputSchema
+      }];
+      requestParams.tool_choice = thinkingBudget
+        ? { type: 'auto' }
+        : { type: 'tool', name: request.tool.name };
+    }
+
+    logger.debug(`Anthropic request params:`, requestParams);
+
+    const response = await this.client.messages.create(requestParams);
+
+    logger.debug(`Anthropic response content:`, response.content);
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+    const toolUse = response.content
+      .find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === request.tool?.name);
+
+    return {
+      toolArguments: toolUse ? JSON.stringify(toolUse.input) : undefined,
+      content: text || undefined,
+      finishReason: response.stop_reason || undefined,
+      usage: {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens
+      }
+    };
+  }
+
+  /**
+   * Get the extended thinking budget from the reasoning configuration
+   * @returns Budget in tokens, or null if reasoning is disabled
+   */
+  private getThinkingBudget(): number | null {
+    if (!this.reasoning) {
+      return null;
+    }
+    if (typeof this.reasoning === 'boolean') {
+      return AnthropicLlmProvider.MIN_THINKING_TOKENS * 2;
+    }
+    if (this.reasoning.enabled === false) {
+      return null;
+    }
+    return Math.max(this.reasoning.max_tokens || AnthropicLlmProvider.MIN_THINKING_TOKENS * 2, AnthropicLlmProvider.MIN_THINKING_TOKENS);
+  }
+}
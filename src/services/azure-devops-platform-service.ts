@@ -0,0 +1,268 @@
+import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions, PlatformApiRequest } from './git-platform-service.js';
+import { GitService } from './git-service.js';
+import { HttpClient } from '../http/http-client.js';
+import { logger } from '../logger.js';
+
+/**
+ * Azure DevOps API repository response
+ */
+interface AzureDevopsRepository {
+  id: string;
+  name: string;
+  webUrl: string;
+  project: { id: string; name: string };
+}
+
+/**
+ * Azure DevOps API pull request response
+ */
+interface AzureDevopsPullRequest {
+  pullRequestId: number;
+  title: string;
+  repository?: { webUrl?: string };
+}
+
+/**
+ * Azure DevOps API identity search response
+ */
+interface AzureDevopsIdentityResponse {
+  count: number;
+  value: Array<{ id: string; providerDisplayName?: string }>;
+}
+
+/**
+ * Azure DevOps Repos platform service implementation
+ */
+export class AzureDevopsPlatformService extends GitPlatformService {
+  private static readonly API_VERSION = '7.0';
+  /** Azure DevOps rejects pull request descriptions longer than this */
+  private static readonly MAX_DESCRIPTION_LENGTH = 4000;
+
+  /** Cache of user name/email -> identity ID */
+  private readonly identityIds = new Map<string, string>();
+
+  constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
+    super(token, baseUrl, gitService, http);
+  }
+
+  getPlatformName(): string {
+    return 'azure_devops';
+  }
+
+  async getProjectByPath(projectPath: string): Promise<GitPlatformProject> {
+    const { organization, project, repository } = this.parseProjectPath(projectPath);
+    const apiUrl = `${this.getProjectApiUrl(organization, project)}/git/repositories/${encodeURIComponent(repository)}?api-version=${AzureDevopsPlatformService.API_VERSION}`;
+
+    logger.info(`🔍 Fetching Azure DevOps repository info from: ${apiUrl}`);
+
+    try {
+      const repo = await this.http.requestJson<AzureDevopsRepository>(
+        apiUrl,
+        'GET',
+        this.getHeaders()
+      );
+
+      logger.info(`✅ Found Azure DevOps repository: ${repo.name} (ID: ${repo.id})`);
+      logger.info(`📋 Project: ${organization}/${repo.project.name}`);
+
+      return {
+        id: repo.id,
+        name: repo.name,
+        full_name: `${organization}/${repo.project.name}/${repo.name}`,
+        web_url: repo.webUrl
+      };
+    } catch (error) {
+      throw new Error(`Failed to get Azure DevOps repository info for path "${projectPath}": ${error}`);
+    }
+  }
+
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    try {
+      const projectPath = this.gitService.parseProjectPathFromUrl() || '';
+      await this.resolveIdentityIds(this.parseProjectPath(projectPath).organization, options?.reviewers);
+    } catch (error) {
+      logger.warn(`⚠️  Could not resolve reviewers for preview: ${error instanceof Error ? error.message : error}`);
+    }
+    return super.previewMergeRequest(sourceBranch, targetBranch, title, options);
+  }
+
+  protected async createMergeRequestInternal(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): Promise<MergeRequestResponse> {
+    // Get repository information
+    const project = await this.getProject();
+
+    const {
+      assignee_id,
+      assignee_ids,
+      reviewer_ids,
+      reviewers
+    } = options;
+
+    // Note: Azure DevOps has no assignees and identifies users by GUID, not numeric IDs
+    if (assignee_id || (assignee_ids && assignee_ids.length > 0)) {
+      logger.warn(`💡 Note: Azure DevOps does not support assignees on pull requests, use reviewers instead.`);
+    }
+    if (reviewer_ids && reviewer_ids.length > 0) {
+      logger.warn(`💡 Note: Azure DevOps does not use numeric user IDs, configure merge_request.reviewers with user names or emails instead.`);
+    }
+
+    await this.resolveIdentityIds(this.parseProjectPath(project.full_name).organization, reviewers);
+    const [createRequest] = this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, options);
+    logger.info(`📋 Creating Azure DevOps pull request for repository ${project.full_name}`);
+
+    try {
+      const resp = await this.http.requestJson<AzureDevopsPullRequest>(
+        createRequest.url,
+        createRequest.method,
+        createRequest.headers,
+        createRequest.body
+      );
+
+      const webUrl = `${resp.repository?.webUrl || project.web_url}/pullrequest/${resp.pullRequestId}`;
+      logger.info(`✅ Created Azure DevOps pull request: ${webUrl}`);
+
+      // Convert to unified response format
+      return {
+        web_url: webUrl,
+        id: resp.pullRequestId,
+        title: resp.title,
+        number: resp.pullRequestId
+      };
+    } catch (error) {
+      throw new Error(`Failed to create Azure DevOps pull request: ${error}`);
+    }
+  }
+
+  protected buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): PlatformApiRequest[] {
+    const {
+      reviewers,
+      squash = true,
+      removeSourceBranch = true,
+      description = ''
+    } = options;
+
+    const { organization, project: projectName } = this.parseProjectPath(project.full_name);
+
+    let body = description;
+    if (body.length > AzureDevopsPlatformService.MAX_DESCRIPTION_LENGTH) {
+      logger.warn(`⚠️  Description exceeds ${AzureDevopsPlatformService.MAX_DESCRIPTION_LENGTH} characters, truncating`);
+      body = body.substring(0, AzureDevopsPlatformService.MAX_DESCRIPTION_LENGTH - 3) + '...';
+    }
+
+    const requestBody: any = {
+      sourceRefName: `refs/heads/${sourceBranch}`,
+      targetRefName: `refs/heads/${targetBranch}`,
+      title: title,
+      description: body,
+      // Used as defaults when the pull request is completed
+      completionOptions: {
+        mergeStrategy: squash ? 'squash' : 'noFastForward',
+        deleteSourceBranch: removeSourceBranch
+      }
+    };
+
+    const reviewerIds = [...new Set(reviewers || [])]
+      .map(reviewer => this.identityIds.get(reviewer) || (this.isIdentityId(reviewer) ? reviewer : ''))
+      .filter(id => id.length > 0);
+    if (reviewerIds.length > 0) {
+      logger.info(`📋 Setting reviewers: ${reviewerIds.join(', ')}`);
+      requestBody.reviewers = reviewerIds.map(id => ({ id }));
+    }
+
+    return [{
+      method: 'POST',
+      url: `${this.getProjectApiUrl(organization, projectName)}/git/repositories/${project.id}/pullrequests?api-version=${AzureDevopsPlatformService.API_VERSION}`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    }];
+  }
+
+  /**
+   * Split a project path into organization, project and repository
+   * @param projectPath Project path (e.g. "org/project/repo")
+   */
+  private parseProjectPath(projectPath: string): { organization: string; project: string; repository: string } {
+    const segments = projectPath.split('/').filter(segment => segment.length > 0).map(segment => decodeURIComponent(segment));
+    if (segments.length !== 3) {
+      throw new Error(`Invalid Azure DevOps project path, expected "organization/project/repository": ${projectPath}`);
+    }
+    return {
+      organization: segments[0],
+      project: segments[1],
+      repository: segments[2]
+    };
+  }
+
+  /**
+   * Get the REST API URL of a project
+   * @param organization Organization name
+   * @param project Project name
+   */
+  private getProjectApiUrl(organization: string, project: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(organization)}/${encodeURIComponent(project)}/_apis`;
+  }
+
+  /**
+   * Check whether a value already is an identity ID (GUID)
+   * @param value User name, email or identity ID
+   */
+  private isIdentityId(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+  }
+
+  /**
+   * Resolve reviewer user names/emails to identity IDs
+   * @param organization Organization the identities belong to
+   * @param reviewers Reviewer user names, emails or identity IDs
+   */
+  private async resolveIdentityIds(organization: string, reviewers: string[] = []): Promise<void> {
+    const pending = [...new Set(reviewers)].filter(reviewer => !this.isIdentityId(reviewer) && !this.identityIds.has(reviewer));
+
+    // Identities are served from the vssps host (e.g. https://vssps.dev.azure.com)
+    const identityBaseUrl = this.baseUrl.replace('://dev.azure.com', '://vssps.dev.azure.com');
+
+    for (const reviewer of pending) {
+      try {
+        const resp = await this.http.requestJson<AzureDevopsIdentityResponse>(
+          `${identityBaseUrl}/${encodeURIComponent(organization)}/_apis/identities?searchFilter=General&filterValue=${encodeURIComponent(reviewer)}&queryMembership=None&api-version=${AzureDevopsPlatformService.API_VERSION}`,
+          'GET',
+          this.getHeaders()
+        );
+        const identity = resp.value?.[0];
+        if (identity) {
+          this.identityIds.set(reviewer, identity.id);
+        } else {
+          logger.warn(`⚠️  Azure DevOps identity "${reviewer}" not found`);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Failed to resolve Azure DevOps identity "${reviewer}": ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Get default headers for Azure DevOps API requests (PAT via basic auth)
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    };
+  }
+}
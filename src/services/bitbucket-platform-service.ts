@@ -0,0 +1,274 @@
+import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions, PlatformApiRequest } from './git-platform-service.js';
+import { GitService } from './git-service.js';
+import { HttpClient } from '../http/http-client.js';
+import { logger } from '../logger.js';
+
+/**
+ * Bitbucket Server API link list
+ */
+interface BitbucketLinks {
+  self?: Array<{ href: string }>;
+}
+
+/**
+ * Bitbucket Server API repository response
+ */
+interface BitbucketRepository {
+  id: number;
+  slug: string;
+  name: string;
+  project: { key: string };
+  links?: BitbucketLinks;
+}
+
+/**
+ * Bitbucket Server API pull request response
+ */
+interface BitbucketPullRequest {
+  id: number;
+  title: string;
+  links?: BitbucketLinks;
+}
+
+/**
+ * Bitbucket Server API paged user response
+ */
+interface BitbucketUserPage {
+  values: Array<{ id: number; name: string; slug: string }>;
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+/**
+ * Bitbucket Server / Data Center platform service implementation
+ */
+export class BitbucketPlatformService extends GitPlatformService {
+  /** Cache of user ID -> user name, Bitbucket expects user names for reviewers */
+  private readonly userNames = new Map<number, string>();
+
+  constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
+    super(token, baseUrl, gitService, http);
+  }
+
+  getPlatformName(): string {
+    return 'bitbucket';
+  }
+
+  async getProjectByPath(projectPath: string): Promise<GitPlatformProject> {
+    const { projectKey, repoSlug } = this.parseProjectPath(projectPath);
+    const apiUrl = this.getRepositoryApiUrl(projectKey, repoSlug);
+
+    logger.info(`🔍 Fetching Bitbucket repository info from: ${apiUrl}`);
+
+    try {
+      const repo = await this.http.requestJson<BitbucketRepository>(
+        apiUrl,
+        'GET',
+        this.getHeaders()
+      );
+
+      logger.info(`✅ Found Bitbucket repository: ${repo.name} (ID: ${repo.id})`);
+      logger.info(`📋 Project key: ${repo.project.key}, slug: ${repo.slug}`);
+
+      return {
+        id: repo.id.toString(),
+        name: repo.name,
+        full_name: `${repo.project.key}/${repo.slug}`,
+        web_url: repo.links?.self?.[0]?.href || `${this.baseUrl}/projects/${repo.project.key}/repos/${repo.slug}/browse`
+      };
+    } catch (error) {
+      throw new Error(`Failed to get Bitbucket repository info for path "${projectPath}": ${error}`);
+    }
+  }
+
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    await this.resolveUserNames(options?.reviewer_ids);
+    return super.previewMergeRequest(sourceBranch, targetBranch, title, options);
+  }
+
+  protected async createMergeRequestInternal(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): Promise<MergeRequestResponse> {
+    // Get repository information
+    const project = await this.getProject();
+
+    const {
+      assignee_id,
+      assignee_ids,
+      assignees,
+      reviewer_ids,
+      squash = true,
+      removeSourceBranch = true
+    } = options;
+
+    await this.resolveUserNames(reviewer_ids);
+    const [createRequest] = this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, options);
+    logger.info(`📋 Creating Bitbucket pull request for repository ${project.full_name}`);
+
+    // Note: Bitbucket Server pull requests have no assignees, only reviewers
+    if (assignee_id || (assignee_ids && assignee_ids.length > 0) || (assignees && assignees.length > 0)) {
+      logger.warn(`💡 Note: Bitbucket Server does not support assignees on pull requests, use reviewer_ids or reviewers instead.`);
+    }
+
+    try {
+      const resp = await this.http.requestJson<BitbucketPullRequest>(
+        createRequest.url,
+        createRequest.method,
+        createRequest.headers,
+        createRequest.body
+      );
+
+      const { projectKey, repoSlug } = this.parseProjectPath(project.full_name);
+      const webUrl = resp.links?.self?.[0]?.href
+        || `${this.baseUrl}/projects/${projectKey}/repos/${repoSlug}/pull-requests/${resp.id}/overview`;
+      logger.info(`✅ Created Bitbucket pull request: ${webUrl}`);
+
+      // Note: Bitbucket applies the merge strategy and branch deletion when the PR is merged
+      if (squash || removeSourceBranch) {
+        logger.info(`💡 Note: Bitbucket squash (${squash}) and delete branch (${removeSourceBranch}) settings will apply during merge`);
+      }
+
+      // Convert to unified response format
+      return {
+        web_url: webUrl,
+        id: resp.id,
+        title: resp.title,
+        number: resp.id
+      };
+    } catch (error) {
+      throw new Error(`Failed to create Bitbucket pull request: ${error}`);
+    }
+  }
+
+  protected buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): PlatformApiRequest[] {
+    const { description = '' } = options;
+
+    const { projectKey, repoSlug } = this.parseProjectPath(project.full_name);
+    const repository = {
+      slug: repoSlug,
+      project: { key: projectKey }
+    };
+
+    const requestBody: any = {
+      title: title,
+      description: description,
+      state: 'OPEN',
+      open: true,
+      closed: false,
+      fromRef: { id: `refs/heads/${sourceBranch}`, repository },
+      toRef: { id: `refs/heads/${targetBranch}`, repository }
+    };
+
+    // Reviewer names are Bitbucket user names
+    const reviewers = [...new Set([...this.toUserNames(options.reviewer_ids), ...(options.reviewers || [])])];
+    if (reviewers.length > 0) {
+      logger.info(`📋 Setting reviewers: ${reviewers.join(', ')}`);
+      requestBody.reviewers = reviewers.map(name => ({ user: { name } }));
+    }
+
+    return [{
+      method: 'POST',
+      url: `${this.getRepositoryApiUrl(projectKey, repoSlug)}/pull-requests`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    }];
+  }
+
+  /**
+   * Split a project path into Bitbucket project key and repository slug.
+   * HTTP clone URLs contain an extra "scm/" prefix (e.g. "scm/PROJ/repo").
+   * @param projectPath Project path parsed from the remote URL
+   */
+  private parseProjectPath(projectPath: string): { projectKey: string; repoSlug: string } {
+    const segments = projectPath.split('/').filter(segment => segment.length > 0);
+    if (segments.length < 2) {
+      throw new Error(`Invalid Bitbucket project path: ${projectPath}`);
+    }
+    return {
+      projectKey: segments[segments.length - 2],
+      repoSlug: segments[segments.length - 1]
+    };
+  }
+
+  /**
+   * Get the REST API URL of a repository
+   * @param projectKey Project key (or ~username for personal repositories)
+   * @param repoSlug Repository slug
+   */
+  private getRepositoryApiUrl(projectKey: string, repoSlug: string): string {
+    return `${this.baseUrl}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(repoSlug)}`;
+  }
+
+  /**
+   * Resolve configured user IDs to user names, Bitbucket's PR API only accepts user names
+   * @param ids User IDs
+   */
+  private async resolveUserNames(ids: number[] = []): Promise<void> {
+    const pending = new Set(ids.filter(id => id > 0 && !this.userNames.has(id)));
+    if (pending.size === 0) {
+      return;
+    }
+
+    try {
+      // Bitbucket has no lookup by ID, page through the user list instead
+      let start = 0;
+      while (pending.size > 0) {
+        const page = await this.http.requestJson<BitbucketUserPage>(
+          `${this.baseUrl}/rest/api/1.0/users?limit=100&start=${start}`,
+          'GET',
+          this.getHeaders()
+        );
+        for (const user of page.values || []) {
+          if (pending.delete(user.id)) {
+            this.userNames.set(user.id, user.name);
+          }
+        }
+        if (page.isLastPage || page.nextPageStart === undefined) {
+          break;
+        }
+        start = page.nextPageStart;
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Failed to resolve Bitbucket user IDs: ${error}`);
+    }
+
+    for (const id of pending) {
+      logger.warn(`⚠️  Bitbucket user with ID ${id} not found`);
+    }
+  }
+
+  /**
+   * Map user IDs to user names, skipping IDs that could not be resolved
+   * @param ids User IDs
+   */
+  private toUserNames(ids: number[] = []): string[] {
+    return [...new Set(ids.filter(id => id > 0))]
+      .map(id => this.userNames.get(id))
+      .filter((name): name is string => Boolean(name));
+  }
+
+  /**
+   * Get default headers for Bitbucket API requests
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.token}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    };
+  }
+}
@@ -0,0 +1,418 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { pathToFileURL } from 'url';
+import { logger } from '../logger.js';
+
+/**
+ * Text cases supported by the subject-case rule (commitlint names)
+ */
+export type SubjectCase =
+  | 'lower-case' | 'upper-case' | 'camel-case' | 'kebab-case'
+  | 'pascal-case' | 'sentence-case' | 'snake-case' | 'start-case';
+
+/**
+ * Commitlint-style commit message rules
+ */
+export interface CommitLintRules {
+  /** Allowed commit types */
+  types?: string[];
+  /** Allowed scopes */
+  scopes?: string[];
+  /** Maximum header length */
+  headerMaxLength?: number;
+  /** Subject case rule: 'always' requires one of the cases, 'never' forbids all of them */
+  subjectCase?: {
+    when: 'always' | 'never';
+    cases: SubjectCase[];
+  };
+}
+
+/**
+ * Commit lint rules from the aiflow configuration (commit_lint section)
+ */
+export interface CommitLintConfig {
+  types?: string[];
+  scopes?: string[];
+  header_max_length?: number;
+  subject_case?: string | string[];
+}
+
+/**
+ * Parsed conventional commit header
+ */
+interface CommitHeader {
+  type: string;
+  scopes: string[];
+  breaking: boolean;
+  subject: string;
+}
+
+/**
+ * Validates commit messages against commitlint-style rules.
+ * Rules are read from an existing commitlint configuration and the aiflow configuration,
+ * the latter taking precedence.
+ */
+export class CommitLintService {
+  /** Commitlint configuration files, in lookup order (same as cosmiconfig) */
+  private static readonly CONFIG_FILES = [
+    '.commitlintrc',
+    '.commitlintrc.json',
+    '.commitlintrc.yaml',
+    '.commitlintrc.yml',
+    '.commitlintrc.js',
+    '.commitlintrc.cjs',
+    '.commitlintrc.mjs',
+    '.commitlintrc.ts',
+    '.commitlintrc.cts',
+    '.commitlintrc.mts',
+    'commitlint.config.js',
+    'commitlint.config.cjs',
+    'commitlint.config.mjs',
+    'commitlint.config.ts',
+    'commitlint.config.cts',
+    'commitlint.config.mts'
+  ];
+
+  /** Replacements for types that are not allowed, only types with the same release impact are used */
+  private static readonly TYPE_FALLBACKS: Record<string, string> = {
+    refactor: 'fix',
+    perf: 'fix',
+    style: 'fix',
+    build: 'chore',
+    ci: 'chore',
+    test: 'chore'
+  };
+
+  /** Rules of @commitlint/config-conventional that this service supports */
+  private static readonly CONVENTIONAL_RULES: CommitLintRules = {
+    types: ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test'],
+    headerMaxLength: 100,
+    subjectCase: { when: 'never', cases: ['sentence-case', 'start-case', 'pascal-case', 'upper-case'] }
+  };
+
+  private static readonly SUPPORTED_CASES: SubjectCase[] = [
+    'lower-case', 'upper-case', 'camel-case', 'kebab-case', 'pascal-case', 'sentence-case', 'snake-case', 'start-case'
+  ];
+
+  constructor(private readonly rules: CommitLintRules) { }
+
+  /**
+   * Load commit lint rules for a repository
+   * @param repoRoot Repository root directory containing the commitlint configuration
+   * @param config Rules from the aiflow configuration, overriding the commitlint configuration
+   * @returns Lint service, or null if no rules are configured
+   */
+  static async load(repoRoot: string, config: CommitLintConfig = {}): Promise<CommitLintService | null> {
+    const fileRules = await CommitLintService.loadCommitlintConfig(repoRoot);
+    const configRules = CommitLintService.fromConfig(config);
+
+    const rules: CommitLintRules = { ...fileRules };
+    for (const [key, value] of Object.entries(configRules)) {
+      if (value !== undefined) {
+        (rules as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    if (!rules.types && !rules.scopes && !rules.headerMaxLength && !rules.subjectCase) {
+      return null;
+    }
+    return new CommitLintService(rules);
+  }
+
+  /**
+   * Validate a commit message
+   * @param message Commit message
+   * @returns Rule violations, empty if the message is valid
+   */
+  lint(message: string): string[] {
+    const header = (message || '').split('\n')[0].trim();
+    const violations: string[] = [];
+
+    if (this.rules.headerMaxLength && header.length > this.rules.headerMaxLength) {
+      violations.push(`header must not be longer than ${this.rules.headerMaxLength} characters, current length is ${header.length}`);
+    }
+
+    const parsed = this.parseHeader(header);
+    if (!parsed) {
+      violations.push(`header must follow the format "type(scope): subject"`);
+      return violations;
+    }
+
+    if (this.rules.types && this.rules.types.length > 0 && !this.rules.types.includes(parsed.type)) {
+      violations.push(`type "${parsed.type}" must be one of [${this.rules.types.join(', ')}]`);
+    }
+
+    if (this.rules.scopes && this.rules.scopes.length > 0) {
+      const invalidScopes = parsed.scopes.filter(scope => !this.rules.scopes!.includes(scope));
+      if (invalidScopes.length > 0) {
+        violations.push(`scope "${invalidScopes.join(', ')}" must be one of [${this.rules.scopes.join(', ')}]`);
+      }
+    }
+
+    if (!parsed.subject) {
+      violations.push('subject may not be empty');
+    } else if (this.rules.subjectCase && !this.checkSubjectCase(parsed.subject)) {
+      const { when, cases } = this.rules.subjectCase;
+      violations.push(`subject must ${when === 'never' ? 'not ' : ''}be ${cases.join(', ')}`);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Adjust the commit header to the rules without AI, for messages that cannot be corrected
+   * (e.g. generated offline): types that are not allowed are replaced by a type with the same release impact
+   * (refactor/perf/style → fix, build/ci/test → chore) or kept when none is allowed, never by "feat";
+   * scopes that are not allowed are dropped, the subject case is changed where possible
+   * and the header is truncated to the maximum length.
+   * @param message Commit message
+   * @returns Commit message with the adjusted header, the body is kept
+   */
+  conform(message: string): string {
+    const [header, ...body] = (message || '').split('\n');
+    const parsed = this.parseHeader(header.trim());
+    if (!parsed) {
+      return message;
+    }
+
+    const { types, scopes, headerMaxLength } = this.rules;
+    let type = parsed.type;
+    if (types && types.length > 0 && !types.includes(type)) {
+      const fallback = CommitLintService.TYPE_FALLBACKS[type];
+      if (fallback && types.includes(fallback)) {
+        type = fallback;
+      } else {
+        logger.warn(`⚠️  Commit type "${type}" is not allowed and has no allowed replacement in [${types.join(', ')}], keeping it`);
+      }
+    }
+    const allowedScopes = scopes && scopes.length > 0
+      ? parsed.scopes.filter(scope => scopes.includes(scope))
+      : parsed.scopes;
+    const subject = this.conformSubjectCase(parsed.subject);
+
+    let result = `${type}${allowedScopes.length > 0 ? `(${allowedScopes.join(',')})` : ''}${parsed.breaking ? '!' : ''}: ${subject}`;
+    if (headerMaxLength && result.length > headerMaxLength) {
+      result = `${result.substring(0, headerMaxLength - 3).trimEnd()}...`;
+    }
+    return [result, ...body].join('\n');
+  }
+
+  /**
+   * Describe the active rules for the AI correction prompt
+   */
+  describeRules(): string {
+    const lines = ['Header format: type(scope): subject'];
+    if (this.rules.types?.length) {
+      lines.push(`Allowed types: ${this.rules.types.join(', ')}`);
+    }
+    if (this.rules.scopes?.length) {
+      lines.push(`Allowed scopes (optional): ${this.rules.scopes.join(', ')}`);
+    }
+    if (this.rules.headerMaxLength) {
+      lines.push(`Maximum header length: ${this.rules.headerMaxLength} characters`);
+    }
+    if (this.rules.subjectCase) {
+      lines.push(`Subject case: ${this.rules.subjectCase.when === 'never' ? 'must not be' : 'must be'} ${this.rules.subjectCase.cases.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert the aiflow commit_lint configuration to rules
+   * @param config Configuration section
+   */
+  private static fromConfig(config: CommitLintConfig): CommitLintRules {
+    const subjectCases = config.subject_case === undefined
+      ? []
+      : (Array.isArray(config.subject_case) ? config.subject_case : [config.subject_case]);
+    const cases = CommitLintService.toSubjectCases(subjectCases);
+
+    return {
+      types: config.types && config.types.length > 0 ? config.types : undefined,
+      scopes: config.scopes && config.scopes.length > 0 ? config.scopes : undefined,
+      headerMaxLength: config.header_max_length && config.header_max_length > 0 ? config.header_max_length : undefined,
+      subjectCase: cases.length > 0 ? { when: 'always', cases } : undefined
+    };
+  }
+
+  /**
+   * Load rules from an existing commitlint configuration file
+   * @param repoRoot Repository root directory
+   * @returns Rules found, empty if there is no commitlint configuration
+   */
+  private static async loadCommitlintConfig(repoRoot: string): Promise<CommitLintRules> {
+    for (const fileName of CommitLintService.CONFIG_FILES) {
+      const filePath = path.join(repoRoot, fileName);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+
+      try {
+        let config: any;
+        if (/\.[cm]?[jt]s$/.test(fileName)) {
+          const module = await import(pathToFileURL(filePath).href);
+          config = module.default ?? module;
+        } else {
+          config = yaml.load(fs.readFileSync(filePath, 'utf8'));
+        }
+
+        logger.info(`📏 Using commitlint configuration: ${fileName}`);
+        return CommitLintService.fromCommitlintConfig(config || {});
+      } catch (error) {
+        if (/\.[cm]?ts$/.test(fileName)) {
+          // Node.js only imports TypeScript natively from 22.18 / 23.6 (type stripping), commitlint compiles it itself
+          logger.warn(`⚠️  TypeScript commitlint configuration ${fileName} cannot be loaded by this Node.js version, its rules are not applied. Set them in the commit_lint section of the aiflow configuration instead: ${error}`);
+        } else {
+          logger.warn(`⚠️  Failed to load commitlint configuration ${fileName}: ${error}`);
+        }
+        return {};
+      }
+    }
+
+    // package.json "commitlint" field
+    const packageJsonPath = path.join(repoRoot, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+        if (packageJson.commitlint) {
+          logger.info(`📏 Using commitlint configuration from package.json`);
+          return CommitLintService.fromCommitlintConfig(packageJson.commitlint);
+        }
+      } catch (error) {
+        logger.debug(`Failed to read package.json for commitlint configuration: ${error}`);
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Convert a commitlint configuration object to rules.
+   * Only @commitlint/config-conventional is resolved from "extends", other presets are ignored.
+   * @param config Commitlint configuration object
+   */
+  private static fromCommitlintConfig(config: any): CommitLintRules {
+    const extendsList: string[] = Array.isArray(config.extends) ? config.extends : (config.extends ? [config.extends] : []);
+    const rules: CommitLintRules = extendsList.some(name => String(name).includes('config-conventional'))
+      ? { ...CommitLintService.CONVENTIONAL_RULES }
+      : {};
+
+    const ruleConfigs = config.rules || {};
+    const getRule = (name: string): [number, string, any] | null => {
+      const rule = ruleConfigs[name];
+      return Array.isArray(rule) ? [rule[0], rule[1] || 'always', rule[2]] : null;
+    };
+
+    const typeEnum = getRule('type-enum');
+    if (typeEnum) {
+      rules.types = typeEnum[0] > 0 && typeEnum[1] === 'always' && Array.isArray(typeEnum[2]) ? typeEnum[2] : undefined;
+    }
+
+    const scopeEnum = getRule('scope-enum');
+    if (scopeEnum) {
+      rules.scopes = scopeEnum[0] > 0 && scopeEnum[1] === 'always' && Array.isArray(scopeEnum[2]) ? scopeEnum[2] : undefined;
+    }
+
+    const headerMaxLength = getRule('header-max-length');
+    if (headerMaxLength) {
+      rules.headerMaxLength = headerMaxLength[0] > 0 && typeof headerMaxLength[2] === 'number' ? headerMaxLength[2] : undefined;
+    }
+
+    const subjectCase = getRule('subject-case');
+    if (subjectCase) {
+      const cases = CommitLintService.toSubjectCases(Array.isArray(subjectCase[2]) ? subjectCase[2] : [subjectCase[2]]);
+      rules.subjectCase = subjectCase[0] > 0 && cases.length > 0
+        ? { when: subjectCase[1] === 'never' ? 'never' : 'always', cases }
+        : undefined;
+    }
+
+    return rules;
+  }
+
+  /**
+   * Keep the supported case names
+   * @param cases Case names
+   */
+  private static toSubjectCases(cases: unknown[]): SubjectCase[] {
+    return cases
+      .map(value => String(value).trim().toLowerCase())
+      .filter((value): value is SubjectCase => CommitLintService.SUPPORTED_CASES.includes(value as SubjectCase));
+  }
+
+  /**
+   * Parse a conventional commit header
+   * @param header First line of the commit message
+   */
+  private parseHeader(header: string): CommitHeader | null {
+    const match = header.match(/^(\w[\w-]*)(?:\(([^)]*)\))?(!?): ?(.*)$/);
+    if (!match) {
+      return null;
+    }
+    return {
+      type: match[1],
+      scopes: match[2] ? match[2].split(/[,/]/).map(scope => scope.trim()).filter(Boolean) : [],
+      breaking: match[3] === '!',
+      subject: match[4].trim()
+    };
+  }
+
+  /**
+   * Check the subject against the subject-case rule
+   * @param subject Commit subject
+   */
+  private checkSubjectCase(subject: string): boolean {
+    const { when, cases } = this.rules.subjectCase!;
+    // Subjects without cased letters (e.g. Chinese) satisfy any case rule
+    if (subject.toLowerCase() === subject.toUpperCase()) {
+      return true;
+    }
+    const matches = cases.some(textCase => this.isCase(subject, textCase));
+    return when === 'never' ? !matches : matches;
+  }
+
+  /**
+   * Change the subject case to satisfy the subject-case rule, with as little change as possible
+   * @param subject Commit subject
+   * @returns Subject satisfying the rule, or the original subject if no simple change does
+   */
+  private conformSubjectCase(subject: string): string {
+    if (!subject || !this.rules.subjectCase || this.checkSubjectCase(subject)) {
+      return subject;
+    }
+    const candidates = [
+      subject.charAt(0).toLowerCase() + subject.slice(1),
+      subject.toLowerCase(),
+      subject.charAt(0).toUpperCase() + subject.slice(1).toLowerCase(),
+      subject.toUpperCase()
+    ];
+    return candidates.find(candidate => this.checkSubjectCase(candidate)) ?? subject;
+  }
+
+  /**
+   * Check whether text is written in a case
+   * @param text Text to check
+   * @param textCase Case name
+   */
+  private isCase(text: string, textCase: SubjectCase): boolean {
+    const words = text.split(/\s+/).filter(Boolean);
+    switch (textCase) {
+      case 'lower-case':
+        return text === text.toLowerCase();
+      case 'upper-case':
+        return text === text.toUpperCase();
+      case 'sentence-case':
+        return text === text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+      case 'start-case':
+        return words.every(word => word.charAt(0) === word.charAt(0).toUpperCase());
+      case 'pascal-case':
+        return /^[A-Z][A-Za-z0-9]*$/.test(text);
+      case 'camel-case':
+        return /^[a-z][A-Za-z0-9]*$/.test(text);
+      case 'kebab-case':
+        return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+      case 'snake-case':
+        return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+    }
+  }
+}
@@ -7,6 +7,11 @@ const { escapeRegExp } = _;
  * Service for managing conandata.yml file updates
  */
 export class ConanDataService {
+  /** Package reference list items, e.g. "- zterm/1.0.0.24", "- fmt/[>=10 <11]" or "- boost/1.83.0@corp/stable" */
+  private static readonly REFERENCE_PATTERN = /^\s*-\s+([A-Za-z0-9_][A-Za-z0-9_+.-]*)\/(\[[^\]\n]*\]|\d[\w.+-]*|cci\.[\w.+-]+)(?=[\s@#]|$)/gm;
+  /** Versions that are file names, e.g. "- patches/0001-fix.patch" */
+  private static readonly FILE_NAME_PATTERN = /\.(?:patch|diff|txt|zip|tar|gz|tgz|xz|bz2|7z|json|ya?ml|cmake|py|sh)$/i;
+
   private readonly filePath: string;
 
   constructor(workingDirectory: string = process.cwd()) {
@@ -81,6 +86,24 @@ export class ConanDataService {
     this.writeContent(updatedContent);
   }
 
+  /**
+   * Get the names of all packages referenced in conandata.yml.
+   * Only unquoted "name/version" list items with a version-like second part are references,
+   * URLs, quoted values and file paths such as "patches/0001-fix.patch" are not.
+   * @returns Package names in order of first appearance
+   */
+  getPackageNames(): string[] {
+    const content = this.readContent();
+
+    const names = new Set<string>();
+    for (const match of content.matchAll(ConanDataService.REFERENCE_PATTERN)) {
+      if (!ConanDataService.FILE_NAME_PATTERN.test(match[2])) {
+        names.add(match[1]);
+      }
+    }
+    return [...names];
+  }
+
   /**
    * Get current package version from conandata.yml
    * @param packageName Package name
@@ -13,28 +13,94 @@ interface ConanLockEntry {
 }
 
 /**
- * Service for managing conan.win.lock file updates
+ * Lockfile sections holding recipe references
+ */
+type ConanLockSection = 'requires' | 'build_requires' | 'python_requires';
+
+/**
+ * Conan 2 lockfile content
+ */
+interface ConanLockfile {
+  version?: string;
+  requires?: string[];
+  build_requires?: string[];
+  python_requires?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Service for managing Conan lock file (conan.lock, conan.win.lock, ...) updates
  */
 export class ConanLockService {
+  /** Lock files discovered when conan.lockFiles is not configured */
+  static readonly DEFAULT_LOCK_FILE_PATTERNS = ['conan.lock', 'conan.*.lock'];
+
+  /** Lockfile sections updated for a package */
+  private static readonly LOCK_SECTIONS: ConanLockSection[] = ['requires', 'build_requires', 'python_requires'];
+
+  private readonly lockFile: string;
   private readonly filePath: string;
 
-  constructor(workingDirectory: string = process.cwd()) {
-    this.filePath = path.join(workingDirectory, 'conan.win.lock');
+  /**
+   * @param workingDirectory Directory the lock file path is relative to
+   * @param lockFile Lock file path (e.g., "conan.linux.lock")
+   */
+  constructor(workingDirectory: string = process.cwd(), lockFile: string = 'conan.lock') {
+    this.lockFile = lockFile;
+    this.filePath = path.join(workingDirectory, lockFile);
   }
 
   /**
-   * Check if conan.win.lock exists
+   * Find the lock files matching the given patterns.
+   * Patterns are paths relative to the working directory, "*" and "?" match within the file name
+   * (e.g., "conan.*.lock", "locks/*.lock").
+   * @param workingDirectory Directory the patterns are relative to
+   * @param patterns Lock file patterns
+   * @returns Matching lock file paths relative to the working directory, sorted and without duplicates
+   */
+  static discover(workingDirectory: string, patterns: string[] = ConanLockService.DEFAULT_LOCK_FILE_PATTERNS): string[] {
+    const lockFiles = new Set<string>();
+    for (const pattern of patterns) {
+      const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+      const directory = path.posix.dirname(normalized);
+      const fileName = path.posix.basename(normalized);
+      const directoryPath = path.join(workingDirectory, directory);
+      if (!fs.existsSync(directoryPath) || !fs.statSync(directoryPath).isDirectory()) {
+        continue;
+      }
+
+      const fileNamePattern = new RegExp(`^${fileName.split(/([*?])/).map(part =>
+        part === '*' ? '.*' : part === '?' ? '.' : escapeRegExp(part)
+      ).join('')}$`);
+      for (const entry of fs.readdirSync(directoryPath, { withFileTypes: true })) {
+        if (entry.isFile() && fileNamePattern.test(entry.name)) {
+          lockFiles.add(directory === '.' ? entry.name : `${directory}/${entry.name}`);
+        }
+      }
+    }
+    return [...lockFiles].sort();
+  }
+
+  /**
+   * Get the lock file path relative to the working directory
+   */
+  getLockFile(): string {
+    return this.lockFile;
+  }
+
+  /**
+   * Check if the lock file exists
    */
   exists(): boolean {
     return fs.existsSync(this.filePath);
   }
 
   /**
-   * Read and parse conan.win.lock content
+   * Read and parse lock file content
    */
   readContent(): string {
     if (!this.exists()) {
-      throw new Error(`conan.win.lock not found at ${this.filePath}`);
+      throw new Error(`${this.lockFile} not found at ${this.filePath}`);
     }
     return fs.readFileSync(this.filePath, 'utf-8');
   }
@@ -68,52 +134,177 @@ export class ConanLockService {
   }
 
   /**
-   * Update package version in conan.win.lock
+   * Parse lockfile content
+   * @param content Lockfile content
+   * @returns Parsed lockfile
+   * @throws Error if the content is not a Conan 2 JSON lockfile
+   */
+  parseLockfile(content: string): ConanLockfile {
+    let lockfile: unknown;
+    try {
+      lockfile = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`${this.lockFile} is not a valid JSON lockfile: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!lockfile || typeof lockfile !== 'object' || Array.isArray(lockfile)) {
+      throw new Error(`${this.lockFile} is not a valid JSON lockfile: expected an object`);
+    }
+    for (const section of ConanLockService.LOCK_SECTIONS) {
+      const entries = (lockfile as ConanLockfile)[section];
+      if (entries !== undefined && (!Array.isArray(entries) || entries.some(entry => typeof entry !== 'string'))) {
+        throw new Error(`${this.lockFile} is not a valid JSON lockfile: "${section}" must be an array of references`);
+      }
+    }
+    return lockfile as ConanLockfile;
+  }
+
+  /**
+   * Get the package name of a reference
+   * @param packageRef Reference like "zterm/1.0.0.24" or "zterm/1.0.0.24@user/channel"
+   */
+  private static getPackageName(packageRef: string): string {
+    return packageRef.split('/')[0];
+  }
+
+  /**
+   * Update package version in the lock file.
+   * Entries of the package in requires, build_requires and python_requires are replaced,
+   * the updated sections are sorted the way Conan writes them and the rest of the file is kept as is.
    * @param packageName Package name (e.g., "zterm")
    * @param newVersion New version (e.g., "1.0.0.25")
    * @param newRevision New revision hash (e.g., "9bbcb882c9c62af94fcfd21f98e3b711")
    * @param newTimestamp New timestamp (e.g., "1757090078.826")
-   * @returns Updated content
+   * @returns Updated content, unchanged if the package is not locked
+   * @throws Error if the lockfile is invalid or the update does not produce a valid lockfile
    */
   updatePackageVersion(packageName: string, newVersion: string, newRevision: string, newTimestamp: string): string {
     const content = this.readContent();
-    
-    // Pattern to match package lock entries
-    // Matches: "packageName/version#hash%timestamp"
-    const safePackageName = escapeRegExp(packageName);
-    const lockPattern = new RegExp(
-      `"${safePackageName}\/[^#]+#[^%]+%[^"]+"`,'g'
-    );
-    
-    let updatedContent = content;
+    const lockfile = this.parseLockfile(content);
+
     let matchCount = 0;
-    
-    updatedContent = content.replace(lockPattern, (match) => {
-      // Remove quotes for parsing
-      const entryWithoutQuotes = match.slice(1, -1);
-      const parsed = this.parseLockEntry(entryWithoutQuotes);
-      
-      if (parsed) {
+    const updatedEntries: string[] = [];
+    for (const section of ConanLockService.LOCK_SECTIONS) {
+      const entries = lockfile[section];
+      if (!entries) {
+        continue;
+      }
+
+      let sectionUpdated = false;
+      const updated = entries.map(entry => {
+        const parsed = this.parseLockEntry(entry);
+        if (!parsed || ConanLockService.getPackageName(parsed.packageRef) !== packageName) {
+          return entry;
+        }
+
         matchCount++;
-        const newPackageRef = `${packageName}/${newVersion}`;
-        const newEntry = this.buildLockEntry(newPackageRef, newRevision, newTimestamp);
-        return `"${newEntry}"`;
+        sectionUpdated = true;
+        // Keep the user/channel of the locked reference
+        const userChannel = parsed.packageRef.includes('@') ? parsed.packageRef.substring(parsed.packageRef.indexOf('@')) : '';
+        const newEntry = this.buildLockEntry(`${packageName}/${newVersion}${userChannel}`, newRevision, newTimestamp);
+        updatedEntries.push(newEntry);
+        return newEntry;
+      });
+
+      if (sectionUpdated) {
+        lockfile[section] = ConanLockService.sortEntries([...new Set(updated)]);
       }
-      
-      return match;
-    });
-    
+    }
+
     if (matchCount === 0) {
-      console.warn(`⚠️  No lock entries for package "${packageName}" found in conan.win.lock`);
-    } else {
-      console.log(`✅ Updated ${matchCount} lock entries for ${packageName} in conan.win.lock`);
+      console.warn(`⚠️  No lock entries for package "${packageName}" found in ${this.lockFile}`);
+      return content;
     }
-    
+
+    const updatedContent = ConanLockService.formatLockfile(lockfile, content);
+
+    // Check the result before it is written
+    const written = this.parseLockfile(updatedContent);
+    for (const entry of updatedEntries) {
+      if (!ConanLockService.LOCK_SECTIONS.some(section => written[section]?.includes(entry))) {
+        throw new Error(`Failed to update ${packageName} in ${this.lockFile}: ${entry} is missing from the result`);
+      }
+    }
+
+    console.log(`✅ Updated ${matchCount} lock entries for ${packageName} in ${this.lockFile}`);
     return updatedContent;
   }
 
   /**
-   * Write updated content to conan.win.lock
+   * Sort lock entries the way Conan does: references in reverse order of
+   * name, version, user, channel, timestamp and revision
+   * @param entries Lock entries
+   * @returns Sorted entries
+   */
+  static sortEntries(entries: string[]): string[] {
+    const toKey = (entry: string) => {
+      const [reference, revisionAndTimestamp = ''] = entry.split('#');
+      const [revision, timestamp = '0'] = revisionAndTimestamp.split('%');
+      const [nameVersion, userChannel = ''] = reference.split('@');
+      const [name, version = ''] = nameVersion.split('/');
+      const [user = '', channel = ''] = userChannel.split('/');
+      return { name, version, user, channel, timestamp: parseFloat(timestamp) || 0, revision };
+    };
+    const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+    return [...entries].sort((a, b) => {
+      const keyA = toKey(a);
+      const keyB = toKey(b);
+      return compareStrings(keyB.name, keyA.name)
+        || ConanLockService.compareVersions(keyB.version, keyA.version)
+        || compareStrings(keyB.user, keyA.user)
+        || compareStrings(keyB.channel, keyA.channel)
+        || keyB.timestamp - keyA.timestamp
+        || compareStrings(keyB.revision, keyA.revision);
+    });
+  }
+
+  /**
+   * Compare Conan versions item by item, numeric items numerically.
+   * A pre-release (1.0-pre) is lower than its release (1.0).
+   * @returns Negative if a < b, positive if a > b, 0 if equal
+   */
+  static compareVersions(a: string, b: string): number {
+    const [mainA, preA = ''] = a.split('+')[0].split(/-(.*)/s);
+    const [mainB, preB = ''] = b.split('+')[0].split(/-(.*)/s);
+    const itemsA = mainA.split('.');
+    const itemsB = mainB.split('.');
+
+    for (let i = 0; i < Math.max(itemsA.length, itemsB.length); i++) {
+      const itemA = itemsA[i] ?? '';
+      const itemB = itemsB[i] ?? '';
+      if (itemA === itemB) {
+        continue;
+      }
+      if (/^\d+$/.test(itemA) && /^\d+$/.test(itemB)) {
+        return Number(itemA) - Number(itemB);
+      }
+      return itemA < itemB ? -1 : 1;
+    }
+
+    if (preA === preB) {
+      return 0;
+    }
+    if (!preA || !preB) {
+      return preA ? -1 : 1;
+    }
+    return preA < preB ? -1 : 1;
+  }
+
+  /**
+   * Serialize a lockfile with the indentation, line endings and final newline of the original content
+   * @param lockfile Lockfile to serialize
+   * @param original Original lockfile content
+   */
+  private static formatLockfile(lockfile: ConanLockfile, original: string): string {
+    const indent = original.match(/\n([ \t]+)\S/)?.[1];
+    const eol = original.includes('\r\n') ? '\r\n' : '\n';
+    const json = indent ? JSON.stringify(lockfile, null, indent) : JSON.stringify(lockfile);
+    return `${json.replace(/\n/g, eol)}${/\r?\n$/.test(original) ? eol : ''}`;
+  }
+
+  /**
+   * Write updated content to the lock file
    */
   writeContent(content: string): void {
     fs.writeFileSync(this.filePath, content, 'utf-8');
@@ -133,22 +324,20 @@ export class ConanLockService {
   }
 
   /**
-   * Get current package info from conan.win.lock
+   * Get current package info from the lock file
    * @param packageName Package name
    * @returns Current lock entry info or null if not found
    */
   getCurrentLockInfo(packageName: string): ConanLockEntry | null {
-    const content = this.readContent();
-    
-    const safePackageName = escapeRegExp(packageName);
-    // Pattern to find package lock entry
-    const lockPattern = new RegExp(
-      `"(${safePackageName}\/[^#]+#[^%]+%[^"]+)"`, 'g'
-    );
-    
-    const match = lockPattern.exec(content);
-    if (match) {
-      return this.parseLockEntry(match[1]);
+    const lockfile = this.parseLockfile(this.readContent());
+
+    for (const section of ConanLockService.LOCK_SECTIONS) {
+      for (const entry of lockfile[section] || []) {
+        const parsed = this.parseLockEntry(entry);
+        if (parsed && ConanLockService.getPackageName(parsed.packageRef) === packageName) {
+          return parsed;
+        }
+      }
     }
     
     return null;
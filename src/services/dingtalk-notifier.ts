@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { logger } from '../logger.js';
+import { MergeRequestNotice, Notifier, NotifierType } from './notifier.js';
+
+/**
+ * DingTalk custom robot notifier service
+ */
+export class DingtalkNotifier extends Notifier {
+  private readonly secret: string;
+
+  /**
+   * @param webhook Robot webhook URL (https://oapi.dingtalk.com/robot/send?access_token=...)
+   * @param secret Signing secret (SEC...), required when the robot uses the signing security setting
+   */
+  constructor(webhook: string, secret: string = '') {
+    super(webhook);
+    this.secret = secret;
+    logger.info('DingtalkNotifier initialized');
+  }
+
+  getNotifierName(): NotifierType {
+    return 'dingtalk';
+  }
+
+  /**
+   * Build the markdown webhook payload for a merge request notice
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the DingTalk webhook
+   */
+  buildMergeRequestNoticePayload(notice: MergeRequestNotice): { msgtype: string; markdown: { title: string; text: string } } {
+    const { branch, target, mrUrl, title, commit, changedFiles } = notice;
+    const files = this.listChangedFiles(
+      changedFiles,
+      file => `- ${file}`,
+      count => `- **...还有 ${count} 个文件**`
+    );
+
+    // DingTalk markdown needs blank lines between paragraphs and has no code blocks
+    const text = `### 🎉 合并请求已创建，请及时进行代码审查！
+
+📋 **MR链接**: [${mrUrl}](${mrUrl})
+
+📝 **MR标题**: ${title}
+
+🌿 **分支信息**: ${branch} → ${target}
+
+📝 **提交信息**:
+
+${commit.split('\n').map(line => `> ${line}`).join('\n')}
+
+📁 **变更文件** (${changedFiles.length} 个):
+
+${files}
+`;
+
+    return { msgtype: 'markdown', markdown: { title: `合并请求: ${title}`, text } };
+  }
+
+  /**
+   * Get the webhook URL with its access token masked, for display purposes
+   */
+  getMaskedWebhook(): string {
+    return this.webhook.replace(/(access_token=)[^&]+/, '$1***');
+  }
+
+  /**
+   * Append the request signature when a secret is configured:
+   * urlEncode(base64(HmacSHA256(key = secret, message = timestamp + "\n" + secret)))
+   */
+  protected getRequestUrl(): string {
+    if (!this.secret) {
+      return this.webhook;
+    }
+    const timestamp = Date.now().toString();
+    const sign = crypto.createHmac('sha256', this.secret).update(`${timestamp}\n${this.secret}`).digest('base64');
+    return `${this.webhook}${this.webhook.includes('?') ? '&' : '?'}timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+  }
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { logger } from '../logger.js';
+import { MergeRequestNotice, Notifier, NotifierType } from './notifier.js';
+
+/**
+ * Feishu/Lark custom bot notifier service
+ */
+export class FeishuNotifier extends Notifier {
+  private readonly secret: string;
+
+  /**
+   * @param webhook Bot webhook URL (open.feishu.cn or open.larksuite.com)
+   * @param secret Signature secret, required when the bot has signature verification enabled
+   */
+  constructor(webhook: string, secret: string = '') {
+    super(webhook);
+    this.secret = secret;
+    logger.info('FeishuNotifier initialized');
+  }
+
+  getNotifierName(): NotifierType {
+    return 'feishu';
+  }
+
+  /**
+   * Build the interactive card webhook payload for a merge request notice, signed if a secret is configured
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the Feishu webhook
+   */
+  buildMergeRequestNoticePayload(notice: MergeRequestNotice): object {
+    const { branch, target, mrUrl, title, commit, changedFiles } = notice;
+    const files = this.listChangedFiles(
+      changedFiles,
+      file => `• ${file}`,
+      count => `**...还有 ${count} 个文件**`
+    );
+
+    const content = `📋 **MR链接**: [${mrUrl}](${mrUrl})
+📝 **MR标题**: ${title}
+🌿 **分支信息**: ${branch} → ${target}
+📝 **提交信息**:
+${commit}
+📁 **变更文件** (${changedFiles.length} 个):
+${files}`;
+
+    return {
+      ...this.sign(),
+      msg_type: 'interactive',
+      card: {
+        header: {
+          template: 'blue',
+          title: { tag: 'plain_text', content: '🎉 合并请求已创建，请及时进行代码审查！' }
+        },
+        elements: [{ tag: 'markdown', content }]
+      }
+    };
+  }
+
+  /**
+   * Sign the request: base64(HmacSHA256(key = timestamp + "\n" + secret, message = ""))
+   * @returns Timestamp (seconds) and signature, empty if no secret is configured
+   */
+  private sign(): { timestamp?: string; sign?: string } {
+    if (!this.secret) {
+      return {};
+    }
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const sign = crypto.createHmac('sha256', `${timestamp}\n${this.secret}`).update('').digest('base64');
+    return { timestamp, sign };
+  }
+}
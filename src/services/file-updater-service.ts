@@ -2,25 +2,66 @@ import { ConanDataService } from './conandata-service.js';
 import { ConanLockService } from './conanlock-service.js';
 import { ConanService, ConanPackageVersion, ConanCompletePackageInfo } from './conan-service.js';
 import { GitService } from './git-service.js';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Package updated by FileUpdaterService.updatePackages()
+ */
+export interface ConanPackageUpdate {
+  packageName: string;
+  /** Version in conandata.yml before the update, null if not referenced */
+  previousVersion: string | null;
+  /** Revision in the lock file before the update, null if not locked */
+  previousRevision: string | null;
+  /** Package info the files were updated to */
+  completeInfo: ConanCompletePackageInfo;
+}
+
+/**
+ * Package skipped by FileUpdaterService.updatePackages() because its update failed
+ */
+export interface ConanPackageSkip {
+  packageName: string;
+  /** Why the update failed */
+  error: string;
+}
 
 /**
  * Service for updating Conan package files and managing git operations
  */
 export class FileUpdaterService {
   private readonly conanDataService: ConanDataService;
-  private readonly conanLockService: ConanLockService;
   private readonly conanService: ConanService;
   private readonly gitService: GitService;
+  private readonly workingDirectory: string;
+  private readonly lockFilePatterns: string[];
 
+  /**
+   * @param conanService Conan remote API service
+   * @param gitService Git service used for staging
+   * @param workingDirectory Directory containing conandata.yml and the lock files
+   * @param lockFilePatterns Lock file patterns (conan.lockFiles), defaults to conan.lock and conan.*.lock
+   */
   constructor(
     conanService: ConanService,
     gitService: GitService,
-    workingDirectory?: string
+    workingDirectory?: string,
+    lockFilePatterns: string[] = ConanLockService.DEFAULT_LOCK_FILE_PATTERNS
   ) {
     this.conanService = conanService;
     this.gitService = gitService;
+    this.workingDirectory = workingDirectory || process.cwd();
+    this.lockFilePatterns = lockFilePatterns;
     this.conanDataService = new ConanDataService(workingDirectory);
-    this.conanLockService = new ConanLockService(workingDirectory);
+  }
+
+  /**
+   * Get a lock service for every lock file matching the configured patterns
+   */
+  private getLockServices(): ConanLockService[] {
+    return ConanLockService.discover(this.workingDirectory, this.lockFilePatterns)
+      .map(lockFile => new ConanLockService(this.workingDirectory, lockFile));
   }
 
   /**
@@ -33,8 +74,8 @@ export class FileUpdaterService {
       missing.push('conandata.yml');
     }
     
-    if (!this.conanLockService.exists()) {
-      missing.push('conan.win.lock');
+    if (this.getLockServices().length === 0) {
+      missing.push(`Conan lock file (${this.lockFilePatterns.join(', ')})`);
     }
     
     if (missing.length > 0) {
@@ -42,6 +83,15 @@ export class FileUpdaterService {
     }
   }
 
+  /**
+   * Get the names of all packages referenced in conandata.yml
+   * @returns Package names in order of first appearance
+   */
+  getReferencedPackages(): string[] {
+    this.validateFiles();
+    return this.conanDataService.getPackageNames();
+  }
+
   /**
    * Get latest version for a package
    * @param remote Remote repository name
@@ -88,34 +138,41 @@ export class FileUpdaterService {
    */
   needsUpdate(packageName: string, completeInfo: ConanCompletePackageInfo): boolean {
     const currentDataVersion = this.conanDataService.getCurrentVersion(packageName);
-    const currentLockInfo = this.conanLockService.getCurrentLockInfo(packageName);
+    const currentLocks = this.getLockServices()
+      .map(lockService => ({ lockFile: lockService.getLockFile(), lockInfo: lockService.getCurrentLockInfo(packageName) }))
+      .filter(lock => lock.lockInfo !== null);
     
     console.log(`📋 Current versions:`);
     console.log(`   conandata.yml: ${currentDataVersion || 'not found'}`);
-    console.log(`   conan.win.lock: ${currentLockInfo?.packageRef || 'not found'}`);
-    console.log(`   conan.win.lock revision: ${currentLockInfo?.hash || 'not found'}`);
+    for (const { lockFile, lockInfo } of currentLocks) {
+      console.log(`   ${lockFile}: ${lockInfo?.packageRef} (revision: ${lockInfo?.hash})`);
+    }
+    if (currentLocks.length === 0) {
+      console.log(`   lock files: not found`);
+    }
     console.log(`   Latest available: ${packageName}/${completeInfo.version}`);
     console.log(`   Latest revision: ${completeInfo.revision}`);
     
-    if (!currentDataVersion && !currentLockInfo) {
-      console.log(`⚠️  Package ${packageName} not found in either file`);
+    if (!currentDataVersion && currentLocks.length === 0) {
+      console.log(`⚠️  Package ${packageName} not found in conandata.yml or any lock file`);
       return false;
     }
     
-    // Check both version and revision
+    // Check the version and the revision in every lock file referencing the package
     const versionNeedsUpdate = currentDataVersion !== completeInfo.version;
-    const revisionNeedsUpdate = currentLockInfo?.hash !== completeInfo.revision;
-    const packageRefNeedsUpdate = currentLockInfo?.packageRef !== `${packageName}/${completeInfo.version}`;
+    const outdatedLocks = currentLocks.filter(({ lockInfo }) =>
+      lockInfo?.hash !== completeInfo.revision || lockInfo?.packageRef !== `${packageName}/${completeInfo.version}`
+    );
     
-    const needsUpdate = versionNeedsUpdate || revisionNeedsUpdate || packageRefNeedsUpdate;
+    const needsUpdate = versionNeedsUpdate || outdatedLocks.length > 0;
     
     if (needsUpdate) {
       console.log(`🔄 Update needed for ${packageName}:`);
       if (versionNeedsUpdate) {
         console.log(`   📦 Version: ${currentDataVersion} → ${completeInfo.version}`);
       }
-      if (revisionNeedsUpdate) {
-        console.log(`   🔒 Revision: ${currentLockInfo?.hash || 'none'} → ${completeInfo.revision}`);
+      for (const { lockFile, lockInfo } of outdatedLocks) {
+        console.log(`   🔒 ${lockFile}: ${lockInfo?.hash} → ${completeInfo.revision}`);
       }
     } else {
       console.log(`✅ Package ${packageName} is already up to date`);
@@ -125,7 +182,7 @@ export class FileUpdaterService {
   }
 
   /**
-   * Update package in both files using complete package info
+   * Update package in conandata.yml and every lock file referencing it, using complete package info
    * @param completeInfo Complete package information with revision
    */
   updatePackageFiles(completeInfo: ConanCompletePackageInfo): void {
@@ -136,25 +193,65 @@ export class FileUpdaterService {
     // Update conandata.yml
     this.conanDataService.updateAndSave(completeInfo.packageName, completeInfo.version);
     
-    // Update conan.win.lock with correct revision and timestamp
-    this.conanLockService.updateAndSave(
-      completeInfo.packageName, 
-      completeInfo.version, 
-      completeInfo.revision,
-      completeInfo.timestamp
-    );
+    // Update the lock files with correct revision and timestamp
+    const lockServices = this.getLockServices().filter(lockService => lockService.getCurrentLockInfo(completeInfo.packageName));
+    for (const lockService of lockServices) {
+      lockService.updateAndSave(
+        completeInfo.packageName,
+        completeInfo.version,
+        completeInfo.revision,
+        completeInfo.timestamp
+      );
+    }
     
-    console.log(`✅ Successfully updated ${completeInfo.packageName} in both files`);
+    console.log(`✅ Successfully updated ${completeInfo.packageName} in conandata.yml and ${lockServices.length} lock file(s)`);
     console.log(`🔒 Lock entry: ${completeInfo.lockEntry}`);
   }
 
+  /**
+   * Get the files updated by this service
+   * @returns File paths relative to the working directory
+   */
+  getFilesToStage(): string[] {
+    return ['conandata.yml', ...this.getLockServices().map(lockService => lockService.getLockFile())];
+  }
+
+  /**
+   * Take a snapshot of the updated files so they can be restored later (e.g. after a dry run)
+   * @returns Map of file path to content, null for files that do not exist
+   */
+  snapshotFiles(): Map<string, string | null> {
+    const snapshot = new Map<string, string | null>();
+    for (const file of this.getFilesToStage()) {
+      const filePath = path.join(this.workingDirectory, file);
+      snapshot.set(file, fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore files from a snapshot taken by snapshotFiles()
+   * @param snapshot Snapshot to restore
+   */
+  restoreFiles(snapshot: Map<string, string | null>): void {
+    for (const [file, content] of snapshot) {
+      const filePath = path.join(this.workingDirectory, file);
+      if (content === null) {
+        fs.rmSync(filePath, { force: true });
+      } else {
+        fs.writeFileSync(filePath, content, 'utf8');
+      }
+    }
+    console.log(`↩️  Restored ${snapshot.size} file(s)`);
+  }
+
   /**
    * Stage updated files for git commit
    */
   stageFiles(): void {
     console.log(`📋 Staging updated files...`);
     
-    const filesToStage = ['conandata.yml', 'conan.win.lock'];
+    const filesToStage = this.getFilesToStage();
     
     try {
       this.gitService.addFiles(filesToStage);
@@ -192,4 +289,47 @@ export class FileUpdaterService {
     console.log(`🎉 Package files updated for ${packageName} (not staged yet)`);
     return completeInfo;
   }
+
+  /**
+   * Update several packages, running updatePackage() once per package (only update files, don't stage).
+   * A package that fails to update is skipped so the others still make it into the same commit.
+   * @param remote Remote repository name
+   * @param packageNames Package names to update
+   * @returns Packages that were updated (empty if all are up to date) and packages that were skipped
+   * @throws Error if none of the packages could be updated
+   */
+  async updatePackages(remote: string, packageNames: string[]): Promise<{ updates: ConanPackageUpdate[]; skipped: ConanPackageSkip[] }> {
+    this.validateFiles();
+
+    const updates: ConanPackageUpdate[] = [];
+    const skipped: ConanPackageSkip[] = [];
+    for (const packageName of packageNames) {
+      const previousVersion = this.conanDataService.getCurrentVersion(packageName);
+      const previousRevision = this.getLockServices()
+        .map(lockService => lockService.getCurrentLockInfo(packageName)?.hash)
+        .find(hash => hash) || null;
+
+      try {
+        const completeInfo = await this.updatePackage(remote, packageName);
+        if (completeInfo) {
+          updates.push({ packageName, previousVersion, previousRevision, completeInfo });
+        }
+      } catch (error) {
+        const skip = { packageName, error: error instanceof Error ? error.message : String(error) };
+        console.warn(`⚠️  Skipping ${skip.packageName}: ${skip.error}`);
+        skipped.push(skip);
+      }
+    }
+
+    const failures = skipped.map(skip => `${skip.packageName}: ${skip.error}`);
+    if (skipped.length > 0 && skipped.length === packageNames.length) {
+      throw new Error(`Failed to update packages: ${failures.join('; ')}`);
+    }
+    if (skipped.length > 0) {
+      console.warn(`⚠️  ${skipped.length} package(s) skipped: ${failures.join('; ')}`);
+    }
+
+    console.log(`🎉 ${updates.length} of ${packageNames.length} package(s) updated`);
+    return { updates, skipped };
+  }
 }
@@ -1,7 +1,9 @@
 import { GitService } from './git-service.js';
 import { HttpClient } from '../http/http-client.js';
-import { LoadedConfig, getGitAccessToken } from '../config.js';
+import { LoadedConfig, getGitAccessToken, getGlobalConfigDir } from '../config.js';
+import { UserCache } from './user-cache.js';
 import { logger } from '../logger.js';
+import path from 'path';
 
 /**
  * Git platform merge/pull request response
@@ -13,6 +15,25 @@ export interface MergeRequestResponse {
   number?: number;   // Request number (GitHub specific)
 }
 
+/**
+ * Open merge/pull request of a source branch
+ */
+export interface OpenMergeRequest {
+  id: number;             // Request number used in API paths (GitLab iid, GitHub/Gitea number)
+  web_url: string;        // Web URL for the merge/pull request
+  title: string;          // Title of the request
+  target_branch: string;  // Branch the request merges into
+  description?: string;   // Current description
+}
+
+/**
+ * Platform user
+ */
+export interface PlatformUser {
+  id: number;             // Numeric user ID
+  username: string;       // Login / user name
+}
+
 /**
  * Git platform project information
  */
@@ -30,9 +51,25 @@ export interface MergeRequestOptions {
   assignee_id?: number;
   assignee_ids?: number[];
   reviewer_ids?: number[];
+  assignees?: string[];   // Assignee user names/emails, resolved to user IDs on platforms with user lookup (used as logins by Gitea)
+  reviewers?: string[];   // Reviewer user names/emails, resolved to user IDs on platforms with user lookup (used as-is by Gitea, Bitbucket and Azure DevOps)
   squash?: boolean;
   removeSourceBranch?: boolean;
   description?: string;
+  draft?: boolean;                 // Create as draft (GitLab "Draft:" title prefix, GitHub draft pull request)
+  labels?: string[];               // Label names
+  milestone?: string | number;     // Milestone title, or ID (GitLab) / number (GitHub)
+  allow_collaboration?: boolean;   // Allow commits from members who can merge to the target branch
+}
+
+/**
+ * Platform API request description, used to build and preview requests
+ */
+export interface PlatformApiRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
 }
 
 /**
@@ -43,6 +80,11 @@ export abstract class GitPlatformService {
   protected readonly baseUrl: string;
   protected readonly http: HttpClient;
   protected readonly gitService: GitService;
+  /** Users looked up by name or email, null when not found */
+  private readonly resolvedUsers = new Map<string, PlatformUser | null>();
+  /** Users looked up by name or email, by user ID */
+  private readonly usersById = new Map<number, PlatformUser>();
+  private userCache?: UserCache;
 
   protected constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
     this.token = token;
@@ -105,6 +147,64 @@ export abstract class GitPlatformService {
     options?: MergeRequestOptions
   ): Promise<MergeRequestResponse>;
 
+  /**
+   * Build the API requests needed to create a merge/pull request.
+   * The first entry is the create request, follow-up requests may contain placeholders
+   * (e.g. the request number) that are only known after creation.
+   * @param project Project the request is created in
+   * @param sourceBranch Source branch name
+   * @param targetBranch Target branch name
+   * @param title Request title
+   * @param options Merge request options including assignees, reviewers, squash, etc.
+   * @returns Requests in the order they are sent
+   */
+  protected abstract buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): PlatformApiRequest[];
+
+  /**
+   * Preview the API requests createMergeRequest() would send, without sending them.
+   * Credentials in headers are masked.
+   * @param sourceBranch Source branch name
+   * @param targetBranch Target branch name
+   * @param title Request title
+   * @param options Merge request options including assignees, reviewers, squash, etc.
+   * @returns Requests in the order they would be sent
+   */
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    let project: GitPlatformProject;
+    try {
+      project = await this.getProject();
+    } catch (error) {
+      // Previewing must not fail just because the project lookup failed
+      const projectPath = this.gitService.parseProjectPathFromUrl() || '<project-path>';
+      logger.warn(`⚠️  Could not fetch project info, using placeholders: ${error instanceof Error ? error.message : error}`);
+      project = {
+        id: '<project-id>',
+        name: projectPath.split('/').pop() || projectPath,
+        full_name: projectPath,
+        web_url: ''
+      };
+    }
+
+    const resolvedOptions = await this.resolveNamedUsers(options);
+    return this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, resolvedOptions).map(request => ({
+      ...request,
+      headers: Object.fromEntries(
+        Object.entries(request.headers).map(([key, value]) => [key, /authorization|token/i.test(key) ? '***' : value])
+      )
+    }));
+  }
+
   /**
    * Create a merge/pull request
    * @param sourceBranch Source branch name
@@ -119,7 +219,7 @@ export abstract class GitPlatformService {
     title: string,
     options?: MergeRequestOptions
   ): Promise<string> {
-    const response = await this.createMergeRequestInternal(sourceBranch, targetBranch, title, options);
+    const response = await this.createMergeRequestInternal(sourceBranch, targetBranch, title, await this.resolveNamedUsers(options));
     return response.web_url;
   }
 
@@ -147,6 +247,145 @@ export abstract class GitPlatformService {
     return this.createMergeRequest(sourceBranch, targetBranch, title, options);
   }
 
+  /**
+   * Find the open merge/pull request of a source branch.
+   * Platforms without support keep this default, a new request is then created every time.
+   * @param sourceBranch Source branch name
+   * @returns Open request, or null if there is none
+   */
+  async findOpenMergeRequest(sourceBranch: string): Promise<OpenMergeRequest | null> {
+    logger.debug(`Finding open merge requests of ${sourceBranch} is not supported on ${this.getPlatformName()}`);
+    return null;
+  }
+
+  /**
+   * Update the title and/or description of an open merge/pull request
+   * @param mergeRequest Open request returned by findOpenMergeRequest()
+   * @param changes Fields to update
+   * @returns Web URL of the updated request
+   */
+  async updateMergeRequest(mergeRequest: OpenMergeRequest, changes: { title?: string; description?: string }): Promise<string> {
+    throw new Error(`Updating merge requests is not supported on ${this.getPlatformName()} (${mergeRequest.web_url}, ${Object.keys(changes).join(', ')})`);
+  }
+
+  /**
+   * Link a merge/pull request to a platform issue by commenting on the issue.
+   * Platforms without issue support keep this default and skip linking.
+   * @param issueNumber Issue number
+   * @param mergeRequestUrl Web URL of the merge/pull request
+   * @returns Whether the issue was linked
+   */
+  async linkIssue(issueNumber: number, mergeRequestUrl: string): Promise<boolean> {
+    logger.info(`💡 Note: Linking issue #${issueNumber} to ${mergeRequestUrl} is not supported on ${this.getPlatformName()}`);
+    return false;
+  }
+
+  /**
+   * Look up a platform user by user name or email.
+   * Found users are kept in a local cache file shared by all repositories of the platform.
+   * @param nameOrEmail User name (with or without leading @) or email
+   * @returns User, or null if no user is found
+   */
+  async resolveUser(nameOrEmail: string): Promise<PlatformUser | null> {
+    const key = nameOrEmail.trim().replace(/^@/, '').toLowerCase();
+    if (!key) {
+      return null;
+    }
+    if (!this.resolvedUsers.has(key)) {
+      this.userCache ??= new UserCache(path.join(getGlobalConfigDir(), UserCache.CACHE_FILE), this.baseUrl);
+      let user = this.userCache.get(key) || null;
+      if (!user) {
+        try {
+          user = await this.findUser(key);
+        } catch (error) {
+          logger.warn(`⚠️  Failed to look up ${this.getPlatformName()} user "${key}": ${error instanceof Error ? error.message : error}`);
+        }
+        if (user) {
+          this.userCache.set(key, user);
+        }
+      }
+      this.resolvedUsers.set(key, user);
+      if (user) {
+        this.usersById.set(user.id, user);
+      }
+    }
+    return this.resolvedUsers.get(key) || null;
+  }
+
+  /**
+   * Get a user previously returned by resolveUser()
+   * @param id User ID
+   * @returns User, or undefined if the user was not looked up
+   */
+  protected getResolvedUser(id: number): PlatformUser | undefined {
+    return this.usersById.get(id);
+  }
+
+  /**
+   * Whether the platform can look up users by name or email (see findUser())
+   */
+  protected supportsUserLookup(): boolean {
+    return false;
+  }
+
+  /**
+   * Resolve assignee and reviewer names/emails to user IDs on platforms with user lookup.
+   * Platforms without user lookup get the options unchanged and use the names directly
+   * (Gitea logins, Bitbucket user names, Azure DevOps unique names).
+   * @param options Merge request options
+   * @returns Options with the names added to assignee_ids and reviewer_ids
+   */
+  protected async resolveNamedUsers(options: MergeRequestOptions = {}): Promise<MergeRequestOptions> {
+    if (!this.supportsUserLookup() || (!options.assignees?.length && !options.reviewers?.length)) {
+      return options;
+    }
+
+    const toIds = async (names: string[] = [], role: string): Promise<number[]> => {
+      const ids: number[] = [];
+      for (const name of names) {
+        const user = await this.resolveUser(name);
+        if (user) {
+          logger.debug(`Resolved ${role} "${name}" to ${this.getPlatformName()} user @${user.username} (ID: ${user.id})`);
+          ids.push(user.id);
+        } else {
+          logger.warn(`⚠️  ${this.getPlatformName()} user "${name}" not found, not added as ${role}`);
+        }
+      }
+      return ids;
+    };
+
+    const assigneeIds = [...new Set([...(options.assignee_ids || []), ...await toIds(options.assignees, 'assignee')])];
+    const reviewerIds = [...new Set([...(options.reviewer_ids || []), ...await toIds(options.reviewers, 'reviewer')])];
+    return {
+      ...options,
+      assignees: undefined,
+      reviewers: undefined,
+      assignee_ids: assigneeIds.length > 0 ? assigneeIds : undefined,
+      reviewer_ids: reviewerIds.length > 0 ? reviewerIds : undefined
+    };
+  }
+
+  /**
+   * Find a platform user by user name or email.
+   * Platforms without user lookup keep this default, users are then never resolved.
+   * @param nameOrEmail Lower-case user name or email
+   * @returns User, or null if no user is found
+   */
+  protected async findUser(nameOrEmail: string): Promise<PlatformUser | null> {
+    logger.debug(`Looking up user "${nameOrEmail}" is not supported on ${this.getPlatformName()}`);
+    return null;
+  }
+
+  /**
+   * Get the label names defined in the project.
+   * Platforms without label support keep this default, no labels are then suggested.
+   * @returns Label names
+   */
+  async getProjectLabels(): Promise<string[]> {
+    logger.debug(`Listing project labels is not supported on ${this.getPlatformName()}`);
+    return [];
+  }
+
   /**
    * Get the base URL of this service
    */
@@ -161,6 +400,9 @@ export abstract class GitPlatformService {
 export enum GitPlatform {
   GITLAB = 'gitlab',
   GITHUB = 'github',
+  GITEA = 'gitea',
+  BITBUCKET = 'bitbucket',
+  AZURE_DEVOPS = 'azure_devops',
   GITEE = 'gitee',
   GITEE_ORG = 'gitee_org',
   CODING = 'coding',
@@ -257,6 +499,21 @@ export class GitPlatformServiceFactory {
           return new module.GithubPlatformService(token, baseUrl, gitSvc, httpClient);
         }
 
+        case GitPlatform.GITEA: {
+          const module = await import('./gitea-platform-service.js');
+          return new module.GiteaPlatformService(token, baseUrl, gitSvc, httpClient);
+        }
+
+        case GitPlatform.BITBUCKET: {
+          const module = await import('./bitbucket-platform-service.js');
+          return new module.BitbucketPlatformService(token, baseUrl, gitSvc, httpClient);
+        }
+
+        case GitPlatform.AZURE_DEVOPS: {
+          const module = await import('./azure-devops-platform-service.js');
+          return new module.AzureDevopsPlatformService(token, baseUrl, gitSvc, httpClient);
+        }
+
         default:
           return undefined;
       }
@@ -282,6 +539,19 @@ export class GitPlatformServiceFactory {
       return GitPlatform.GITLAB;
     }
 
+    if (hostname === 'dev.azure.com') {
+      return GitPlatform.AZURE_DEVOPS;
+    }
+
+    if (hostname === 'codeberg.org' || hostname.includes('gitea') || hostname.includes('forgejo')) {
+      return GitPlatform.GITEA;
+    }
+
+    // Bitbucket Cloud (bitbucket.org) uses a different API and is not supported
+    if (hostname !== 'bitbucket.org' && hostname.includes('bitbucket')) {
+      return GitPlatform.BITBUCKET;
+    }
+
     // For unknown hostnames, try to detect by API endpoints
     GitPlatformServiceFactory.logger.info(`Unknown hostname ${hostname}, detecting platform via API endpoints`);
 
@@ -335,6 +605,62 @@ export class GitPlatformServiceFactory {
         }
       }
 
+      // Test Gitea / Forgejo API endpoint (version endpoint, GET only)
+      GitPlatformServiceFactory.logger.debug(`Testing Gitea API: ${baseUrl}/api/v1/version`);
+
+      const controllerGitea = new AbortController();
+      const timeoutIdGitea = setTimeout(() => controllerGitea.abort(), timeout);
+
+      try {
+        const giteaResponse = await fetch(`${baseUrl}/api/v1/version`, {
+          method: 'GET',
+          headers: { 'Accept': 'application/json' },
+          signal: controllerGitea.signal
+        });
+        clearTimeout(timeoutIdGitea);
+
+        if (giteaResponse.status === 200) {
+          const body = await giteaResponse.json().catch(() => null) as { version?: string } | null;
+          if (body && typeof body.version === 'string') {
+            GitPlatformServiceFactory.logger.info(`Gitea API detected (version: ${body.version})`);
+            return GitPlatform.GITEA;
+          }
+        }
+      } catch (error) {
+        clearTimeout(timeoutIdGitea);
+        if (error instanceof Error && error.name !== 'AbortError') {
+          GitPlatformServiceFactory.logger.debug(`Gitea API test failed: ${error.message}`);
+        }
+      }
+
+      // Test Bitbucket Server API endpoint (application properties, public)
+      GitPlatformServiceFactory.logger.debug(`Testing Bitbucket API: ${baseUrl}/rest/api/1.0/application-properties`);
+
+      const controllerBitbucket = new AbortController();
+      const timeoutIdBitbucket = setTimeout(() => controllerBitbucket.abort(), timeout);
+
+      try {
+        const bitbucketResponse = await fetch(`${baseUrl}/rest/api/1.0/application-properties`, {
+          method: 'GET',
+          headers: { 'Accept': 'application/json' },
+          signal: controllerBitbucket.signal
+        });
+        clearTimeout(timeoutIdBitbucket);
+
+        if (bitbucketResponse.status === 200) {
+          const body = await bitbucketResponse.json().catch(() => null) as { displayName?: string; version?: string } | null;
+          if (body && body.displayName === 'Bitbucket') {
+            GitPlatformServiceFactory.logger.info(`Bitbucket API detected (version: ${body.version})`);
+            return GitPlatform.BITBUCKET;
+          }
+        }
+      } catch (error) {
+        clearTimeout(timeoutIdBitbucket);
+        if (error instanceof Error && error.name !== 'AbortError') {
+          GitPlatformServiceFactory.logger.debug(`Bitbucket API test failed: ${error.message}`);
+        }
+      }
+
       // Test GitHub API endpoint
       // Use URL parsing to avoid unsafe substring check (see CodeQL warning)
       let hostname;
@@ -380,6 +706,6 @@ export class GitPlatformServiceFactory {
    * Get list of supported platforms
    */
   static getSupportedPlatforms(): GitPlatform[] {
-    return [GitPlatform.GITLAB, GitPlatform.GITHUB];
+    return [GitPlatform.GITLAB, GitPlatform.GITHUB, GitPlatform.GITEA, GitPlatform.BITBUCKET, GitPlatform.AZURE_DEVOPS];
   }
 }
@@ -1,6 +1,9 @@
+import fs from 'fs';
+import path from 'path';
 import { Shell } from '../shell.js';
 import { StringUtil } from '../utils/string-util.js';
 import { logger } from '../logger.js';
+import { quote } from 'shell-quote';
 
 /**
  * Git file status interface
@@ -18,6 +21,24 @@ export interface GitFileStatus {
   statusDescription: string;
 }
 
+/**
+ * Merge request / pull request description template found in the repository
+ */
+export interface MergeRequestTemplate {
+  /** Template path relative to repository root */
+  path: string;
+  /** Template content */
+  content: string;
+}
+
+/**
+ * Author of commits or lines
+ */
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
 /**
  * Git operations service
  */
@@ -25,6 +46,22 @@ export class GitService {
   private readonly shell: Shell;
   private static readonly protocolCache = new Map<string, string>();
   private static readonly instances = new Map<string, GitService>();
+  /** SSH-only hostnames mapped to the hostname serving the web UI and API */
+  private static readonly sshHostAliases: Record<string, string> = {
+    'ssh.dev.azure.com': 'dev.azure.com'
+  };
+  /** Default MR/PR description template locations, in lookup order */
+  private static readonly MERGE_REQUEST_TEMPLATE_PATHS = [
+    '.gitlab/merge_request_templates/Default.md',
+    '.gitlab/merge_request_templates/default.md',
+    '.github/pull_request_template.md',
+    '.github/PULL_REQUEST_TEMPLATE.md',
+    '.gitea/pull_request_template.md',
+    '.gitea/PULL_REQUEST_TEMPLATE.md',
+    'docs/pull_request_template.md',
+    'pull_request_template.md',
+    'PULL_REQUEST_TEMPLATE.md'
+  ];
   private remote_name?: string;
   private remote_urls = new Map<string, string>();
 
@@ -312,6 +349,24 @@ export class GitService {
     }
   }
 
+  /**
+   * Get the configured git user name as written in commits
+   * @returns User name, empty if not configured
+   */
+  getUserDisplayName(): string {
+    const result = this.shell.runWithExitCode("git", "config", "user.name");
+    return result.success ? result.output.trim() : '';
+  }
+
+  /**
+   * Get the configured git user email
+   * @returns User email, empty if not configured
+   */
+  getUserEmail(): string {
+    const result = this.shell.runWithExitCode("git", "config", "user.email");
+    return result.success ? result.output.trim() : '';
+  }
+
   /**
    * Get git diff of staged changes
    * @param options Diff options
@@ -684,6 +739,15 @@ export class GitService {
   commit(message: string): void {
     logger.info('Committing changes...');
     logger.debug(`Commit message: ${message.substring(0, 100)}${message.length > 100 ? '...' : ''}`);
+    this.shell.runProcess("git", ...this.buildCommitArgs(message));
+  }
+
+  /**
+   * Build git arguments for committing with the given message
+   * @param message Commit message
+   * @returns Arguments for the git executable
+   */
+  private buildCommitArgs(message: string): string[] {
     if (!message.includes("\n")) {
       // 单行 commit
       const escapedMessage = message
@@ -691,15 +755,14 @@ export class GitService {
         .replace(/"/g, '\\"')
         .replace(/`/g, "\\`");
 
-      this.shell.runProcess("git", "commit", "-m", escapedMessage);
-      return;
+      return ["commit", "-m", escapedMessage];
     }
     const lines = message.split(/\r?\n/).map(line => line.trimEnd());
     const args: string[] = ["commit"];
     for (const line of lines) {
       args.push("-m", line);
     }
-    this.shell.runProcess("git", ...args);
+    return args;
   }
 
   /**
@@ -727,6 +790,41 @@ export class GitService {
     return true;
   }
 
+  /**
+   * Describe the git commands commitAndPush() would run, without running them
+   * @param branch Branch name
+   * @param message Commit message
+   * @param filesToStage Files that would be staged before committing
+   * @returns Shell-quoted command lines
+   */
+  getCommitAndPushCommands(branch: string, message: string, filesToStage: string[] = []): string[] {
+    const commands: string[][] = [["checkout", "-b", branch]];
+    if (filesToStage.length > 0) {
+      commands.push(["add", "-f", ...filesToStage]);
+    }
+    commands.push(this.buildCommitArgs(message));
+    commands.push(["push", "-u", this.getRemoteName(), branch]);
+    return commands.map(args => quote(["git", ...args]));
+  }
+
+  /**
+   * Describe the git command commit() would run, without running it
+   * @param message Commit message
+   * @returns Shell-quoted command lines
+   */
+  getCommitCommands(message: string): string[] {
+    return [quote(["git", ...this.buildCommitArgs(message)])];
+  }
+
+  /**
+   * Describe the git command push() would run, without running it
+   * @param branchName Branch name to push
+   * @returns Shell-quoted command lines
+   */
+  getPushCommands(branchName: string): string[] {
+    return [quote(["git", "push", "-u", this.getRemoteName(), branchName])];
+  }
+
   getChangedFiles(limit?: number): string[] {
     try {
       const output = this.shell.runProcess("git", "diff", "--cached", "--name-only").trim();
@@ -751,6 +849,39 @@ export class GitService {
     return this.shell.runProcess("git", "rev-parse", "--show-toplevel").trim();
   }
 
+  /**
+   * Get the git directory shared by all worktrees of the repository (e.g. .git in the repository root)
+   * @returns Absolute path of the common git directory
+   */
+  getGitCommonDir(): string {
+    return path.resolve(process.cwd(), this.shell.runProcess("git", "rev-parse", "--git-common-dir").trim());
+  }
+
+  /**
+   * Get the repository's default merge request / pull request description template
+   * (GitLab `.gitlab/merge_request_templates/Default.md`, GitHub `.github/pull_request_template.md`, etc.)
+   * @returns Template found in the repository root, or null if none exists
+   */
+  getMergeRequestTemplate(): MergeRequestTemplate | null {
+    try {
+      const repoRoot = this.getRepositoryRoot();
+      for (const templatePath of GitService.MERGE_REQUEST_TEMPLATE_PATHS) {
+        const fullPath = path.join(repoRoot, templatePath);
+        if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isFile()) {
+          continue;
+        }
+        const content = fs.readFileSync(fullPath, 'utf8').trim();
+        if (content) {
+          logger.debug(`Found merge request template: ${templatePath}`);
+          return { path: templatePath, content };
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to detect merge request template:', error);
+    }
+    return null;
+  }
+
   /**
    * Gets the default remote name for the current repository.
    * Tries to detect the most appropriate remote in the following order:
@@ -836,6 +967,12 @@ export class GitService {
       // Handle SSH URLs (git@hostname:user/repo.git)
       if (url.startsWith('git@')) {
         const match = url.match(/git@([^:]+):/);
+        return match ? (GitService.sshHostAliases[match[1]] || match[1]) : '';
+      }
+
+      // Handle SSH URLs with scheme (ssh://git@hostname:7999/project/repo.git)
+      if (url.startsWith('ssh://')) {
+        const match = url.match(/^ssh:\/\/(?:[^@\/]+@)?([^:\/]+)/);
         return match ? match[1] : '';
       }
 
@@ -865,16 +1002,24 @@ export class GitService {
       if (url.startsWith('git@')) {
         const match = url.match(/git@([^:]+):/);
         if (match) {
-          const hostname = match[1];
+          const hostname = GitService.sshHostAliases[match[1]] || match[1];
           // Auto-detect protocol by trying HTTPS first, then fallback to HTTP
           return await this.detectProtocolForHost(hostname);
         }
       }
 
-      // Handle HTTPS/HTTP URLs (https://hostname/user/repo.git)
+      // Handle SSH URLs with scheme (ssh://git@hostname:7999/project/repo.git)
+      if (url.startsWith('ssh://')) {
+        const match = url.match(/^ssh:\/\/(?:[^@\/]+@)?([^:\/]+)/);
+        if (match) {
+          return await this.detectProtocolForHost(match[1]);
+        }
+      }
+
+      // Handle HTTPS/HTTP URLs (https://[user@]hostname/user/repo.git)
+      // The origin drops the userinfo, fetch() rejects URLs that include credentials
       if (url.startsWith('http')) {
-        const match = url.match(/^(https?:\/\/[^\/]+)/);
-        return match ? match[1] : '';
+        return new URL(url).origin;
       }
 
       return '';
@@ -887,18 +1032,36 @@ export class GitService {
   /**
    * Parse project path from Git remote URL
    * @param remoteUrl Git remote URL (optional, will get current remote if not provided)
-   * @returns Project path (e.g., "user/repo")
+   * @returns Project path (e.g., "user/repo", "org/project/repo" for Azure DevOps)
    */
   parseProjectPathFromUrl(remoteUrl?: string): string | null {
     const url = remoteUrl || this.getRemoteUrl();
 
     try {
+      // Handle Azure DevOps SSH URLs (git@ssh.dev.azure.com:v3/org/project/repo)
+      const azureSshMatch = url.match(/^git@ssh\.dev\.azure\.com:v3\/([^\/]+)\/([^\/]+)\/([^\/]+?)(?:\.git)?$/);
+      if (azureSshMatch) {
+        return `${azureSshMatch[1]}/${azureSshMatch[2]}/${azureSshMatch[3]}`;
+      }
+
+      // Handle Azure DevOps HTTPS URLs (https://[org@]dev.azure.com/org/project/_git/repo)
+      const azureHttpMatch = url.match(/^https?:\/\/(?:[^@\/]+@)?dev\.azure\.com\/([^\/]+)\/([^\/]+)\/_git\/([^\/]+?)(?:\.git)?$/);
+      if (azureHttpMatch) {
+        return `${azureHttpMatch[1]}/${azureHttpMatch[2]}/${azureHttpMatch[3]}`;
+      }
+
       // Handle SSH URLs (git@hostname:user/repo.git)
       const sshMatch = url.match(/^git@([^:]+):(.+?)(?:\.git)?$/);
       if (sshMatch) {
         return sshMatch[2];
       }
 
+      // Handle SSH URLs with scheme (ssh://git@hostname:7999/project/repo.git)
+      const sshSchemeMatch = url.match(/^ssh:\/\/(?:[^@\/]+@)?[^\/]+\/(.+?)(?:\.git)?$/);
+      if (sshSchemeMatch) {
+        return sshSchemeMatch[1];
+      }
+
       // Handle HTTPS/HTTP URLs (https://hostname/user/repo.git)
       const httpMatch = url.match(/^https?:\/\/[^\/]+\/(.+?)(?:\.git)?$/);
       if (httpMatch) {
@@ -931,7 +1094,8 @@ export class GitService {
       'gitee.com',
       'codeberg.org',
       'git.sr.ht',
-      'coding.net'
+      'coding.net',
+      'dev.azure.com'
     ];
 
     if (httpsOnlyHosts.includes(hostname)) {
@@ -1213,9 +1377,11 @@ export class GitService {
 
   /**
    * Check if repository has uncommitted changes
+   * @param includeUntracked Whether untracked files count as changes (default: true)
    */
-  hasUncommittedChanges(): boolean {
-    const status = this.shell.runProcess("git", "status", "--porcelain").trim();
+  hasUncommittedChanges(includeUntracked: boolean = true): boolean {
+    const args = includeUntracked ? ["status", "--porcelain"] : ["status", "--porcelain", "--untracked-files=no"];
+    const status = this.shell.runProcess("git", ...args).trim();
     return status.length > 0;
   }
 
@@ -1508,16 +1674,17 @@ export class GitService {
   /**
    * Get merge-base commit hash between current branch and target branch
    * @param otherBranch Target branch name
+   * @param fromRef Branch or commit to compare with (default: HEAD)
    * @returns Merge-base commit hash or null if not found
    */
-  getMergeBase(otherBranch: string): string | null {
+  getMergeBase(otherBranch: string, fromRef: string = "HEAD"): string | null {
     try {
       if (!otherBranch || otherBranch.trim() === '') {
         logger.warn('Empty branch name provided for merge-base');
         return null;
       }
 
-      const mergeBase = this.shell.runProcess("git", "merge-base", "HEAD", otherBranch).trim();
+      const mergeBase = this.shell.runProcess("git", "merge-base", fromRef, otherBranch).trim();
 
       if (!mergeBase || mergeBase === '') {
         logger.warn(`No merge-base found between current branch and ${otherBranch}`);
@@ -1532,6 +1699,179 @@ export class GitService {
     }
   }
 
+  /**
+   * Resolve a branch or ref to a commit hash
+   * @param ref Branch name or ref (e.g. origin/main)
+   * @returns Commit hash, or null if the ref does not exist
+   */
+  getCommitHash(ref: string): string | null {
+    const result = this.shell.runWithExitCode("git", "rev-parse", "--verify", "--quiet", `${ref}^{commit}`);
+    return result.success && result.output.trim() ? result.output.trim() : null;
+  }
+
+  /**
+   * Fetch branches from the remote
+   * @returns True if the fetch succeeded
+   */
+  fetch(): boolean {
+    const remote = this.getRemoteName();
+    logger.info(`Fetching ${remote}...`);
+    const result = this.shell.runWithExitCode("git", "fetch", remote);
+    if (!result.success) {
+      logger.warn(`Failed to fetch ${remote}: ${result.output}`);
+    }
+    return result.success;
+  }
+
+  /**
+   * Rebase the commits of a branch made after oldBase onto newBase.
+   * The rebase is aborted if it stops on conflicts.
+   * @param newBase Commit or branch to rebase onto
+   * @param oldBase Commit the branch is currently based on
+   * @param branch Branch to rebase (checked out by git)
+   * @returns True if the rebase succeeded
+   */
+  rebaseOnto(newBase: string, oldBase: string, branch: string): boolean {
+    logger.info(`Rebasing ${branch} onto ${newBase}`);
+    const result = this.shell.runWithExitCode("git", "rebase", "--onto", newBase, oldBase, branch);
+    if (!result.success) {
+      logger.warn(`Rebase of ${branch} failed: ${result.output}`);
+      this.shell.runWithExitCode("git", "rebase", "--abort");
+    }
+    return result.success;
+  }
+
+  /**
+   * Force-push a branch, refusing to overwrite remote commits that were not fetched
+   * @param branchName Branch name to push
+   * @returns True if the push succeeded
+   */
+  forcePushWithLease(branchName: string): boolean {
+    logger.info(`Force-pushing branch (with lease): ${branchName}`);
+    const result = this.shell.runWithExitCode("git", "push", "--force-with-lease", this.getRemoteName(), branchName);
+    if (!result.success) {
+      logger.warn(`Failed to push ${branchName}: ${result.output}`);
+    }
+    return result.success;
+  }
+
+  /**
+   * Describe the git commands rebaseOnto() and forcePushWithLease() would run, without running them
+   * @param newBase Commit or branch to rebase onto
+   * @param oldBase Commit the branch is currently based on
+   * @param branch Branch to rebase and push
+   * @returns Shell-quoted command lines
+   */
+  getRestackCommands(newBase: string, oldBase: string, branch: string): string[] {
+    return [
+      quote(["git", "rebase", "--onto", newBase, oldBase, branch]),
+      quote(["git", "push", "--force-with-lease", this.getRemoteName(), branch])
+    ];
+  }
+
+  /**
+   * Get messages of the commits on the current branch that are not on another branch
+   * @param otherBranch Branch to exclude commits of (e.g. the target branch), all of HEAD's history if empty
+   * @param limit Maximum number of commits (default: 20)
+   * @returns Commit messages, most recent first
+   */
+  getRecentCommitMessages(otherBranch?: string, limit: number = 20): string[] {
+    try {
+      const args = ["log", "--format=%B%x00", "-n", `${limit}`, "HEAD"];
+      if (otherBranch) {
+        args.push("--not", otherBranch);
+      }
+      const result = this.shell.runWithExitCode("git", ...args);
+      if (!result.success) {
+        logger.debug(`Failed to get recent commit messages: ${result.output}`);
+        return [];
+      }
+      return result.output.split('\0').map(message => message.trim()).filter(Boolean);
+    } catch (error) {
+      logger.debug(`Failed to get recent commit messages: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get the line ranges of a file changed by the staged changes, or by the commits since baseRef
+   * @param filePath File path relative to the repository root
+   * @param baseRef Commit the branch changes are compared against, staged changes are used if empty
+   * @returns Changed line ranges in the original file (1-based, inclusive); pure insertions are
+   * represented by the line they follow, new files have no ranges
+   */
+  getChangedLineRanges(filePath: string, baseRef?: string): Array<{ start: number; end: number }> {
+    const args = baseRef
+      ? ["diff", "-U0", "--no-color", baseRef, "HEAD", "--", filePath]
+      : ["diff", "--cached", "-U0", "--no-color", "--", filePath];
+    const result = this.shell.runWithExitCode("git", "-C", this.getRepositoryRoot(), ...args);
+    if (!result.success) {
+      logger.debug(`Failed to get changed lines of ${filePath}: ${result.output}`);
+      return [];
+    }
+
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (const match of result.output.matchAll(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/gm)) {
+      const start = parseInt(match[1], 10);
+      const count = match[2] === undefined ? 1 : parseInt(match[2], 10);
+      if (start > 0) {
+        ranges.push({ start, end: start + Math.max(count, 1) - 1 });
+      }
+    }
+    return ranges;
+  }
+
+  /**
+   * Get the authors of lines of a file with git blame
+   * @param filePath File path relative to the repository root
+   * @param ranges Line ranges to blame (1-based, inclusive)
+   * @param ref Commit to blame (default: HEAD)
+   * @returns One author per blamed line
+   */
+  getLineAuthors(filePath: string, ranges: Array<{ start: number; end: number }>, ref: string = "HEAD"): GitAuthor[] {
+    if (ranges.length === 0) {
+      return [];
+    }
+    const args = ["blame", "--line-porcelain", ...ranges.flatMap(range => ["-L", `${range.start},${range.end}`]), ref, "--", filePath];
+    const result = this.shell.runWithExitCode("git", "-C", this.getRepositoryRoot(), ...args);
+    if (!result.success) {
+      logger.debug(`Failed to blame ${filePath}: ${result.output}`);
+      return [];
+    }
+
+    const authors: GitAuthor[] = [];
+    let name = '';
+    for (const line of result.output.split('\n')) {
+      if (line.startsWith('author ')) {
+        name = line.substring('author '.length).trim();
+      } else if (line.startsWith('author-mail ')) {
+        authors.push({ name, email: line.substring('author-mail '.length).trim().replace(/^<|>$/g, '') });
+      }
+    }
+    return authors;
+  }
+
+  /**
+   * Get the authors of the most recent commits touching a file
+   * @param filePath File path relative to the repository root
+   * @param limit Maximum number of commits (default: 20)
+   * @param ref Commit to start from (default: HEAD)
+   * @returns One author per commit, most recent first
+   */
+  getFileAuthors(filePath: string, limit: number = 20, ref: string = "HEAD"): GitAuthor[] {
+    const result = this.shell.runWithExitCode("git", "-C", this.getRepositoryRoot(), "log", "--no-merges", "--format=%an%x09%ae", "-n", `${limit}`, ref, "--", filePath);
+    if (!result.success) {
+      logger.debug(`Failed to get authors of ${filePath}: ${result.output}`);
+      return [];
+    }
+    return result.output.split('\n')
+      .filter(line => line.includes('\t'))
+      .map(line => {
+        const [name, email] = line.split('\t');
+        return { name: name.trim(), email: email.trim() };
+      });
+  }
+
   /**
    * Get simplified branch graph visualization (similar to GitLens)
    * @param limit Maximum number of commits to show (default: 20)
@@ -0,0 +1,316 @@
+import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions, PlatformApiRequest, OpenMergeRequest } from './git-platform-service.js';
+import { GitService } from './git-service.js';
+import { HttpClient } from '../http/http-client.js';
+import { logger } from '../logger.js';
+
+/**
+ * Gitea API repository response
+ */
+interface GiteaRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  html_url: string;
+}
+
+/**
+ * Gitea API pull request response
+ */
+interface GiteaPullRequest {
+  html_url: string;
+  id: number;
+  title: string;
+  number: number;
+  body?: string | null;
+  head?: { ref: string };
+  base?: { ref: string };
+}
+
+/**
+ * Gitea API user search response
+ */
+interface GiteaUserSearchResponse {
+  ok: boolean;
+  data: Array<{ id: number; login: string }>;
+}
+
+/**
+ * Gitea / Forgejo platform service implementation
+ */
+export class GiteaPlatformService extends GitPlatformService {
+  /** Cache of user ID -> login, Gitea expects logins for assignees and reviewers */
+  private readonly userLogins = new Map<number, string>();
+
+  constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
+    super(token, baseUrl, gitService, http);
+  }
+
+  getPlatformName(): string {
+    return 'gitea';
+  }
+
+  async getProjectByPath(projectPath: string): Promise<GitPlatformProject> {
+    const apiUrl = `${this.baseUrl}/api/v1/repos/${projectPath}`;
+
+    logger.info(`🔍 Fetching Gitea repository info from: ${apiUrl}`);
+
+    try {
+      const repo = await this.http.requestJson<GiteaRepository>(
+        apiUrl,
+        'GET',
+        this.getHeaders()
+      );
+
+      logger.info(`✅ Found Gitea repository: ${repo.name} (ID: ${repo.id})`);
+      logger.info(`📋 Full name: ${repo.full_name}`);
+
+      return {
+        id: repo.id.toString(),
+        name: repo.name,
+        full_name: repo.full_name,
+        web_url: repo.html_url
+      };
+    } catch (error) {
+      throw new Error(`Failed to get Gitea repository info for path "${projectPath}": ${error}`);
+    }
+  }
+
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    await this.resolveUserLogins(options);
+    return super.previewMergeRequest(sourceBranch, targetBranch, title, options);
+  }
+
+  protected async createMergeRequestInternal(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): Promise<MergeRequestResponse> {
+    // Get repository information
+    const project = await this.getProject();
+
+    const {
+      squash = true,
+      removeSourceBranch = true
+    } = options;
+
+    await this.resolveUserLogins(options);
+    const [createRequest] = this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, options);
+    logger.info(`📋 Creating Gitea pull request for repository ${project.full_name}`);
+
+    try {
+      const resp = await this.http.requestJson<GiteaPullRequest>(
+        createRequest.url,
+        createRequest.method,
+        createRequest.headers,
+        createRequest.body
+      );
+
+      logger.info(`✅ Created Gitea pull request: ${resp.html_url}`);
+
+      // Reviewers are requested with a separate API call after creation
+      const reviewers = this.getReviewerLogins(options);
+      if (reviewers.length > 0) {
+        const request = this.buildReviewersRequest(project.full_name, resp.number, reviewers);
+        try {
+          logger.info(`📋 Setting reviewers: ${reviewers.join(', ')}`);
+          await this.http.requestJson(request.url, request.method, request.headers, request.body);
+          logger.info(`✅ Successfully added reviewers to PR #${resp.number}`);
+        } catch (error) {
+          logger.warn(`⚠️  Failed to set reviewers: ${error}. PR created successfully but reviewers not assigned.`);
+        }
+      }
+
+      // Note: Gitea applies the merge style and branch deletion when the PR is merged
+      if (squash || removeSourceBranch) {
+        logger.info(`💡 Note: Gitea squash (${squash}) and delete branch (${removeSourceBranch}) settings will apply during merge`);
+      }
+
+      // Convert to unified response format
+      return {
+        web_url: resp.html_url,
+        id: resp.id,
+        title: resp.title,
+        number: resp.number
+      };
+    } catch (error) {
+      throw new Error(`Failed to create Gitea pull request: ${error}`);
+    }
+  }
+
+  async findOpenMergeRequest(sourceBranch: string): Promise<OpenMergeRequest | null> {
+    const project = await this.getProject();
+    // Gitea cannot filter pull requests by head branch, so the open ones are matched page by page
+    const apiUrl = `${this.baseUrl}/api/v1/repos/${project.full_name}/pulls?state=open&limit=50`;
+
+    try {
+      let pullRequest: GiteaPullRequest | undefined;
+      // The server may cap the page size below the requested limit, so only an empty page ends the list
+      for (let page = 1; !pullRequest; page++) {
+        const pullRequests = await this.http.requestJson<GiteaPullRequest[]>(`${apiUrl}&page=${page}`, 'GET', this.getHeaders());
+        if (pullRequests.length === 0) {
+          return null;
+        }
+        pullRequest = pullRequests.find(pr => pr.head?.ref === sourceBranch);
+      }
+
+      return {
+        id: pullRequest.number,
+        web_url: pullRequest.html_url,
+        title: pullRequest.title,
+        target_branch: pullRequest.base?.ref || '',
+        description: pullRequest.body || ''
+      };
+    } catch (error) {
+      throw new Error(`Failed to find open Gitea pull request for branch "${sourceBranch}": ${error}`);
+    }
+  }
+
+  async updateMergeRequest(mergeRequest: OpenMergeRequest, changes: { title?: string; description?: string }): Promise<string> {
+    const project = await this.getProject();
+    const apiUrl = `${this.baseUrl}/api/v1/repos/${project.full_name}/pulls/${mergeRequest.id}`;
+
+    try {
+      const resp = await this.http.requestJson<GiteaPullRequest>(
+        apiUrl,
+        'PATCH',
+        this.getHeaders(),
+        JSON.stringify({ title: changes.title, body: changes.description })
+      );
+
+      logger.info(`✅ Updated Gitea pull request: ${resp.html_url}`);
+      return resp.html_url;
+    } catch (error) {
+      throw new Error(`Failed to update Gitea pull request #${mergeRequest.id}: ${error}`);
+    }
+  }
+
+  protected buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): PlatformApiRequest[] {
+    const { description = '' } = options;
+
+    const assignees = this.getAssigneeLogins(options);
+    if (assignees.length > 0) {
+      logger.info(`📋 Setting assignees: ${assignees.join(', ')}`);
+    }
+
+    const requestBody: any = {
+      title: title,
+      head: sourceBranch,
+      base: targetBranch,
+      body: description
+    };
+
+    if (assignees.length > 0) {
+      requestBody.assignees = assignees;
+    }
+
+    const requests: PlatformApiRequest[] = [{
+      method: 'POST',
+      url: `${this.baseUrl}/api/v1/repos/${project.full_name}/pulls`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    }];
+
+    const reviewers = this.getReviewerLogins(options);
+    if (reviewers.length > 0) {
+      // The pull request number is only known after creation
+      requests.push(this.buildReviewersRequest(project.full_name, '{number}', reviewers));
+    }
+
+    return requests;
+  }
+
+  /**
+   * Build the request asking reviewers to review a pull request
+   * @param repoFullName Full repository name (owner/repo)
+   * @param prNumber Pull request number (or a placeholder when previewing)
+   * @param reviewers Reviewer logins
+   */
+  private buildReviewersRequest(repoFullName: string, prNumber: number | string, reviewers: string[]): PlatformApiRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/api/v1/repos/${repoFullName}/pulls/${prNumber}/requested_reviewers`,
+      headers: this.getHeaders(),
+      body: JSON.stringify({ reviewers })
+    };
+  }
+
+  /**
+   * Resolve configured user IDs to logins, Gitea's PR API only accepts logins
+   * @param options Merge request options containing user IDs
+   */
+  private async resolveUserLogins(options: MergeRequestOptions = {}): Promise<void> {
+    const ids = [
+      ...(options.assignee_id ? [options.assignee_id] : []),
+      ...(options.assignee_ids || []),
+      ...(options.reviewer_ids || [])
+    ].filter(id => id > 0 && !this.userLogins.has(id));
+
+    for (const id of new Set(ids)) {
+      try {
+        const resp = await this.http.requestJson<GiteaUserSearchResponse>(
+          `${this.baseUrl}/api/v1/users/search?uid=${id}`,
+          'GET',
+          this.getHeaders()
+        );
+        const user = resp.data?.find(u => u.id === id);
+        if (user) {
+          this.userLogins.set(id, user.login);
+        } else {
+          logger.warn(`⚠️  Gitea user with ID ${id} not found`);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Failed to resolve Gitea user ID ${id}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Map user IDs to logins, skipping IDs that could not be resolved
+   * @param ids User IDs
+   */
+  private toLogins(ids: number[] = []): string[] {
+    return [...new Set(ids.filter(id => id > 0))]
+      .map(id => this.userLogins.get(id))
+      .filter((login): login is string => Boolean(login));
+  }
+
+  /**
+   * Get the assignee logins from assignee IDs and assignee names (used as logins)
+   * @param options Merge request options
+   */
+  private getAssigneeLogins(options: MergeRequestOptions): string[] {
+    const { assignee_id, assignee_ids, assignees = [] } = options;
+    return [...new Set([...this.toLogins([...(assignee_id ? [assignee_id] : []), ...(assignee_ids || [])]), ...assignees])];
+  }
+
+  /**
+   * Get the reviewer logins from reviewer IDs and reviewer names (used as logins)
+   * @param options Merge request options
+   */
+  private getReviewerLogins(options: MergeRequestOptions): string[] {
+    return [...new Set([...this.toLogins(options.reviewer_ids), ...(options.reviewers || [])])];
+  }
+
+  /**
+   * Get default headers for Gitea API requests
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `token ${this.token}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions } from './git-platform-service.js';
+import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions, PlatformApiRequest, OpenMergeRequest, PlatformUser } from './git-platform-service.js';
 import { GitService } from './git-service.js';
 import { HttpClient } from '../http/http-client.js';
 import { logger } from '../logger.js';
@@ -21,12 +21,42 @@ interface GithubPullRequest {
   id: number;
   title: string;
   number: number;
+  body?: string | null;
+  base?: { ref: string };
+}
+
+/**
+ * GitHub API milestone response
+ */
+interface GithubMilestone {
+  number: number;
+  title: string;
+}
+
+/**
+ * GitHub API label response
+ */
+interface GithubLabel {
+  name: string;
+}
+
+/**
+ * GitHub API user response
+ */
+interface GithubUser {
+  id: number;
+  login: string;
 }
 
 /**
  * GitHub platform service implementation
  */
 export class GithubPlatformService extends GitPlatformService {
+  /** Cache of milestone title -> number, GitHub expects milestone numbers */
+  private readonly milestoneNumbers = new Map<string, number>();
+  /** Cache of user ID -> login, GitHub expects logins for assignees and reviewers */
+  private readonly userLogins = new Map<number, string>();
+
   constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
     super(token, baseUrl, gitService, http);
   }
@@ -74,6 +104,74 @@ export class GithubPlatformService extends GitPlatformService {
     // Get repository information
     const project = await this.getProject();
 
+    const {
+      reviewer_ids,
+      squash = true,
+      removeSourceBranch = true
+    } = options;
+
+    await this.resolveMilestone(project, options.milestone);
+    await this.resolveUserLogins(options);
+    const [createRequest] = this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, options);
+    logger.info(`📋 Creating GitHub pull request for repository ${project.full_name}`);
+
+    try {
+      const resp = await this.http.requestJson<GithubPullRequest>(
+        createRequest.url,
+        createRequest.method,
+        createRequest.headers,
+        createRequest.body
+      );
+
+      logger.info(`✅ Created GitHub pull request: ${resp.html_url}`);
+
+      // Add reviewers if specified (GitHub requires separate API call)
+      const reviewers = this.toLogins(reviewer_ids);
+      if (reviewers.length > 0) {
+        try {
+          logger.info(`📋 Setting reviewers: ${reviewers.join(', ')}`);
+          await this.addReviewersToRequest(project.full_name, resp.number, reviewers);
+        } catch (error) {
+          logger.warn(`⚠️  Failed to set reviewers: ${error}. PR created successfully but reviewers not assigned.`);
+        }
+      }
+
+      // Labels and milestone are set through the issues API (GitHub requires separate API call)
+      const issueRequest = this.buildIssueFieldsRequest(project.full_name, resp.number, options);
+      if (issueRequest) {
+        try {
+          await this.http.requestJson(issueRequest.url, issueRequest.method, issueRequest.headers, issueRequest.body);
+          logger.info(`✅ Successfully set labels/milestone of PR #${resp.number}`);
+        } catch (error) {
+          logger.warn(`⚠️  Failed to set labels/milestone: ${error}. PR created successfully but labels/milestone not set.`);
+        }
+      }
+
+      // Note: GitHub doesn't support auto-squash and auto-delete via API during PR creation
+      // These settings would need to be configured in the repository settings or during merge
+      if (squash || removeSourceBranch) {
+        logger.info(`💡 Note: GitHub squash (${squash}) and delete branch (${removeSourceBranch}) settings will apply during merge`);
+      }
+
+      // Convert to unified response format
+      return {
+        web_url: resp.html_url,  // Map html_url to web_url for consistency
+        id: resp.id,
+        title: resp.title,
+        number: resp.number
+      };
+    } catch (error) {
+      throw new Error(`Failed to create GitHub pull request: ${error}`);
+    }
+  }
+
+  protected buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): PlatformApiRequest[] {
     // Extract options with defaults
     const {
       assignee_id,
@@ -81,23 +179,15 @@ export class GithubPlatformService extends GitPlatformService {
       reviewer_ids,
       squash = true,
       removeSourceBranch = true,
-      description = ''
+      description = '',
+      draft = false,
+      allow_collaboration = true
     } = options;
 
-    // Build assignees array for GitHub (GitHub uses username strings, but we'll try with IDs first)
-    const assignees: string[] = [];
-
-    // Note: GitHub API typically expects usernames, not user IDs for assignees
-    // For now, we'll convert IDs to strings and let the API handle validation
-    if (assignee_id && assignee_id > 0) {
-      assignees.push(assignee_id.toString());
-      logger.info(`📋 Setting assignee ID: ${assignee_id}`);
-    }
-
-    if (assignee_ids && assignee_ids.length > 0) {
-      const validAssigneeIds = assignee_ids.filter(id => id > 0).map(id => id.toString());
-      assignees.push(...validAssigneeIds);
-      logger.info(`📋 Setting assignee IDs: ${validAssigneeIds.join(', ')}`);
+    // GitHub expects logins for assignees, user IDs are resolved by resolveUserLogins()
+    const assignees = this.toLogins([...(assignee_id ? [assignee_id] : []), ...(assignee_ids || [])]);
+    if (assignees.length > 0) {
+      logger.info(`📋 Setting assignees: ${assignees.join(', ')}`);
     }
 
     // GitHub uses different terminology: Pull Request instead of Merge Request
@@ -106,9 +196,14 @@ export class GithubPlatformService extends GitPlatformService {
       head: sourceBranch,    // Source branch
       base: targetBranch,    // Target branch
       body: `Auto-generated pull request created by AIFlow.\n\nSource: ${sourceBranch}\nTarget: ${targetBranch}\n\nSquash commits: ${squash ? 'Yes' : 'No'}\nDelete source branch: ${removeSourceBranch ? 'Yes' : 'No'}`,
-      maintainer_can_modify: true  // Allow maintainer to modify the PR
+      maintainer_can_modify: allow_collaboration  // Allow maintainer to modify the PR
     };
 
+    if (draft) {
+      requestBody.draft = true;
+      logger.info(`📋 Creating as draft pull request`);
+    }
+
     // Add assignees if specified
     if (assignees.length > 0) {
       requestBody.assignees = assignees;
@@ -120,51 +215,215 @@ export class GithubPlatformService extends GitPlatformService {
       logger.info(`📋 Setting description: ${description}`);
     }
 
-    const apiUrl = `${this.getApiBaseUrl()}/repos/${project.full_name}/pulls`;
-    logger.info(`📋 Creating GitHub pull request for repository ${project.full_name}`);
+    const requests: PlatformApiRequest[] = [{
+      method: 'POST',
+      url: `${this.getApiBaseUrl()}/repos/${project.full_name}/pulls`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    }];
+
+    const reviewers = this.toLogins(reviewer_ids);
+    if (reviewers.length > 0) {
+      // The pull request number is only known after creation
+      requests.push(this.buildReviewersRequest(project.full_name, '{number}', reviewers));
+    }
+
+    const issueRequest = this.buildIssueFieldsRequest(project.full_name, '{number}', options);
+    if (issueRequest) {
+      requests.push(issueRequest);
+    }
+
+    return requests;
+  }
+
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    if (options?.milestone !== undefined) {
+      try {
+        await this.resolveMilestone(await this.getProject(), options.milestone);
+      } catch (error) {
+        logger.warn(`⚠️  Could not resolve milestone "${options.milestone}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    const resolvedOptions = await this.resolveNamedUsers(options);
+    await this.resolveUserLogins(resolvedOptions);
+    return super.previewMergeRequest(sourceBranch, targetBranch, title, resolvedOptions);
+  }
+
+  /**
+   * Build the issues API request setting labels and milestone of a pull request
+   * @param repoFullName Full repository name (owner/repo)
+   * @param prNumber Pull request number (or a placeholder when previewing)
+   * @param options Merge request options
+   * @returns Request, or null if neither labels nor a milestone are set
+   */
+  private buildIssueFieldsRequest(repoFullName: string, prNumber: number | string, options: MergeRequestOptions): PlatformApiRequest | null {
+    const requestBody: { labels?: string[]; milestone?: number } = {};
+    if (options.labels && options.labels.length > 0) {
+      requestBody.labels = options.labels;
+      logger.info(`📋 Setting labels: ${options.labels.join(', ')}`);
+    }
+    const milestoneNumber = this.toMilestoneNumber(options.milestone);
+    if (milestoneNumber !== undefined) {
+      requestBody.milestone = milestoneNumber;
+      logger.info(`📋 Setting milestone: ${milestoneNumber}`);
+    }
+    if (Object.keys(requestBody).length === 0) {
+      return null;
+    }
+
+    return {
+      method: 'PATCH',
+      url: `${this.getApiBaseUrl()}/repos/${repoFullName}/issues/${prNumber}`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    };
+  }
+
+  /**
+   * Resolve a milestone title to its number (cached)
+   * @param project Repository the milestone belongs to
+   * @param milestone Milestone title or number
+   */
+  private async resolveMilestone(project: GitPlatformProject, milestone?: string | number): Promise<void> {
+    if (milestone === undefined || this.toMilestoneNumber(milestone) !== undefined) {
+      return;
+    }
+
+    const title = String(milestone);
+    try {
+      const milestones = await this.http.requestJsonPages<GithubMilestone>(
+        `${this.getApiBaseUrl()}/repos/${project.full_name}/milestones?state=open&per_page=100`,
+        this.getHeaders()
+      );
+      const found = milestones.find(item => item.title === title);
+      if (found) {
+        this.milestoneNumbers.set(title, found.number);
+      } else {
+        logger.warn(`⚠️  Milestone "${title}" not found in repository ${project.full_name}`);
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Failed to resolve milestone "${title}": ${error}`);
+    }
+  }
+
+  /**
+   * Get the number of a milestone given by number or by an already resolved title
+   * @param milestone Milestone title or number
+   */
+  private toMilestoneNumber(milestone?: string | number): number | undefined {
+    if (milestone === undefined || milestone === '') {
+      return undefined;
+    }
+    if (/^\d+$/.test(String(milestone))) {
+      return parseInt(String(milestone), 10);
+    }
+    return this.milestoneNumbers.get(String(milestone));
+  }
+
+  async findOpenMergeRequest(sourceBranch: string): Promise<OpenMergeRequest | null> {
+    const project = await this.getProject();
+    const owner = project.full_name.split('/')[0];
+    const apiUrl = `${this.getApiBaseUrl()}/repos/${project.full_name}/pulls?state=open&head=${encodeURIComponent(`${owner}:${sourceBranch}`)}`;
+
+    try {
+      const pullRequests = await this.http.requestJson<GithubPullRequest[]>(apiUrl, 'GET', this.getHeaders());
+
+      const pullRequest = pullRequests[0];
+      if (!pullRequest) {
+        return null;
+      }
+      return {
+        id: pullRequest.number,
+        web_url: pullRequest.html_url,
+        title: pullRequest.title,
+        target_branch: pullRequest.base?.ref || '',
+        description: pullRequest.body || ''
+      };
+    } catch (error) {
+      throw new Error(`Failed to find open GitHub pull request for branch "${sourceBranch}": ${error}`);
+    }
+  }
+
+  async updateMergeRequest(mergeRequest: OpenMergeRequest, changes: { title?: string; description?: string }): Promise<string> {
+    const project = await this.getProject();
+    const apiUrl = `${this.getApiBaseUrl()}/repos/${project.full_name}/pulls/${mergeRequest.id}`;
 
     try {
       const resp = await this.http.requestJson<GithubPullRequest>(
+        apiUrl,
+        'PATCH',
+        this.getHeaders(),
+        JSON.stringify({ title: changes.title, body: changes.description })
+      );
+
+      logger.info(`✅ Updated GitHub pull request: ${resp.html_url}`);
+      return resp.html_url;
+    } catch (error) {
+      throw new Error(`Failed to update GitHub pull request #${mergeRequest.id}: ${error}`);
+    }
+  }
+
+  async linkIssue(issueNumber: number, mergeRequestUrl: string): Promise<boolean> {
+    const project = await this.getProject();
+    const apiUrl = `${this.getApiBaseUrl()}/repos/${project.full_name}/issues/${issueNumber}/comments`;
+
+    try {
+      await this.http.requestJson(
         apiUrl,
         'POST',
-        {
-          'Authorization': `Bearer ${this.token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json'
-        },
-        JSON.stringify(requestBody)
+        this.getHeaders(),
+        JSON.stringify({ body: `Pull request: ${mergeRequestUrl}` })
       );
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to comment on GitHub issue #${issueNumber}: ${error}`);
+    }
+  }
 
-      logger.info(`✅ Created GitHub pull request: ${resp.html_url}`);
+  async getProjectLabels(): Promise<string[]> {
+    const project = await this.getProject();
+    const apiUrl = `${this.getApiBaseUrl()}/repos/${project.full_name}/labels?per_page=100`;
 
-      // Add reviewers if specified (GitHub requires separate API call)
-      if (reviewer_ids && reviewer_ids.length > 0) {
-        const validReviewerIds = reviewer_ids.filter(id => id > 0);
-        if (validReviewerIds.length > 0) {
-          try {
-            logger.info(`📋 Setting reviewer IDs: ${validReviewerIds.join(', ')}`);
-            await this.addReviewersToRequest(project.full_name, resp.number, validReviewerIds);
-          } catch (error) {
-            logger.warn(`⚠️  Failed to set reviewers: ${error}. PR created successfully but reviewers not assigned.`);
-          }
-        }
-      }
+    try {
+      const labels = await this.http.requestJsonPages<GithubLabel>(apiUrl, this.getHeaders());
+      return labels.map(label => label.name);
+    } catch (error) {
+      throw new Error(`Failed to list GitHub repository labels: ${error}`);
+    }
+  }
 
-      // Note: GitHub doesn't support auto-squash and auto-delete via API during PR creation
-      // These settings would need to be configured in the repository settings or during merge
-      if (squash || removeSourceBranch) {
-        logger.info(`💡 Note: GitHub squash (${squash}) and delete branch (${removeSourceBranch}) settings will apply during merge`);
+  protected supportsUserLookup(): boolean {
+    return true;
+  }
+
+  protected async findUser(nameOrEmail: string): Promise<PlatformUser | null> {
+    // Commit emails of the form 123+login@users.noreply.github.com contain the login
+    const noreplyMatch = nameOrEmail.match(/^(?:\d+\+)?([a-z0-9-]+)@users\.noreply\.github\.com$/);
+    const login = noreplyMatch ? noreplyMatch[1] : nameOrEmail;
+
+    try {
+      if (login.includes('@')) {
+        // Only users with a public email are found
+        const result = await this.http.requestJson<{ items: GithubUser[] }>(
+          `${this.getApiBaseUrl()}/search/users?q=${encodeURIComponent(`${login} in:email`)}`,
+          'GET',
+          this.getHeaders()
+        );
+        return result.items.length > 0 ? { id: result.items[0].id, username: result.items[0].login } : null;
       }
 
-      // Convert to unified response format
-      return {
-        web_url: resp.html_url,  // Map html_url to web_url for consistency
-        id: resp.id,
-        title: resp.title,
-        number: resp.number
-      };
+      const user = await this.http.requestJson<GithubUser>(`${this.getApiBaseUrl()}/users/${encodeURIComponent(login)}`, 'GET', this.getHeaders());
+      return { id: user.id, username: user.login };
     } catch (error) {
-      throw new Error(`Failed to create GitHub pull request: ${error}`);
+      if (String(error).includes('HTTP 404')) {
+        return null;
+      }
+      throw new Error(`Failed to look up GitHub user: ${error}`);
     }
   }
 
@@ -172,38 +431,92 @@ export class GithubPlatformService extends GitPlatformService {
    * Add reviewers to a pull request
    * @param repoFullName Full repository name (owner/repo)
    * @param prNumber Pull request number
-   * @param reviewerIds Array of reviewer user IDs
+   * @param reviewers Reviewer logins
    */
-  private async addReviewersToRequest(repoFullName: string, prNumber: number, reviewerIds: number[]): Promise<void> {
-    const apiUrl = `${this.getApiBaseUrl()}/repos/${repoFullName}/pulls/${prNumber}/requested_reviewers`;
-
-    // GitHub API expects usernames, not user IDs, but we'll try with IDs converted to strings
-    // In a real implementation, you might want to fetch user info by ID to get usernames
-    const reviewers = reviewerIds.map(id => id.toString());
-
-    const requestBody = {
-      reviewers: reviewers  // GitHub expects usernames, but we're sending IDs as strings
-    };
+  private async addReviewersToRequest(repoFullName: string, prNumber: number, reviewers: string[]): Promise<void> {
+    const request = this.buildReviewersRequest(repoFullName, prNumber, reviewers);
 
     try {
       await this.http.requestJson(
-        apiUrl,
-        'POST',
-        {
-          'Authorization': `Bearer ${this.token}`,
-          'Accept': 'application/vnd.github.v3+json',
-          'Content-Type': 'application/json'
-        },
-        JSON.stringify(requestBody)
+        request.url,
+        request.method,
+        request.headers,
+        request.body
       );
       logger.info(`✅ Successfully added reviewers to PR #${prNumber}`);
     } catch (error) {
       // Don't throw here, just log the warning since the PR was already created successfully
       logger.warn(`⚠️  Could not add reviewers to PR #${prNumber}: ${error}`);
-      logger.warn(`💡 Note: GitHub API requires usernames for reviewers, not user IDs. Consider using usernames in configuration.`);
     }
   }
 
+  /**
+   * Build the request adding reviewers to a pull request
+   * @param repoFullName Full repository name (owner/repo)
+   * @param prNumber Pull request number (or a placeholder when previewing)
+   * @param reviewers Reviewer logins
+   */
+  private buildReviewersRequest(repoFullName: string, prNumber: number | string, reviewers: string[]): PlatformApiRequest {
+    const requestBody = {
+      reviewers: reviewers
+    };
+
+    return {
+      method: 'POST',
+      url: `${this.getApiBaseUrl()}/repos/${repoFullName}/pulls/${prNumber}/requested_reviewers`,
+      headers: this.getHeaders(),
+      body: JSON.stringify(requestBody)
+    };
+  }
+
+  /**
+   * Resolve configured user IDs to logins, GitHub's pull request API only accepts logins
+   * @param options Merge request options containing user IDs
+   */
+  private async resolveUserLogins(options: MergeRequestOptions = {}): Promise<void> {
+    const ids = [
+      ...(options.assignee_id ? [options.assignee_id] : []),
+      ...(options.assignee_ids || []),
+      ...(options.reviewer_ids || [])
+    ].filter(id => id > 0 && !this.userLogins.has(id));
+
+    for (const id of new Set(ids)) {
+      // Users resolved from names or emails are already known
+      const resolved = this.getResolvedUser(id);
+      if (resolved) {
+        this.userLogins.set(id, resolved.username);
+        continue;
+      }
+      try {
+        const user = await this.http.requestJson<GithubUser>(`${this.getApiBaseUrl()}/user/${id}`, 'GET', this.getHeaders());
+        this.userLogins.set(id, user.login);
+      } catch (error) {
+        logger.warn(`⚠️  Failed to resolve GitHub user ID ${id}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Map user IDs to logins, skipping IDs that could not be resolved
+   * @param ids User IDs
+   */
+  private toLogins(ids: number[] = []): string[] {
+    return [...new Set(ids.filter(id => id > 0))]
+      .map(id => this.userLogins.get(id))
+      .filter((login): login is string => Boolean(login));
+  }
+
+  /**
+   * Get default headers for GitHub API requests
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.token}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json'
+    };
+  }
+
   /**
    * Get GitHub API base URL
    * For github.com, use api.github.com
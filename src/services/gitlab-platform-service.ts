@@ -1,4 +1,4 @@
-import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions } from './git-platform-service.js';
+import { GitPlatformService, GitPlatformProject, MergeRequestResponse, MergeRequestOptions, PlatformApiRequest, OpenMergeRequest, PlatformUser } from './git-platform-service.js';
 import { GitService } from './git-service.js';
 import { HttpClient } from '../http/http-client.js';
 import { logger } from '../logger.js';
@@ -19,13 +19,42 @@ interface GitlabProject {
 interface GitlabMergeRequest {
   web_url: string;
   id: number;
+  iid: number;
   title: string;
+  target_branch: string;
+  description: string | null;
+}
+
+/**
+ * GitLab API milestone response
+ */
+interface GitlabMilestone {
+  id: number;
+  title: string;
+}
+
+/**
+ * GitLab API label response
+ */
+interface GitlabLabel {
+  name: string;
+}
+
+/**
+ * GitLab API user response
+ */
+interface GitlabUser {
+  id: number;
+  username: string;
 }
 
 /**
  * GitLab platform service implementation
  */
 export class GitlabPlatformService extends GitPlatformService {
+  /** Cache of milestone title -> ID, GitLab expects milestone IDs */
+  private readonly milestoneIds = new Map<string, number>();
+
   constructor(token: string, baseUrl: string, gitService: GitService, http: HttpClient) {
     super(token, baseUrl, gitService, http);
   }
@@ -72,7 +101,214 @@ export class GitlabPlatformService extends GitPlatformService {
   ): Promise<MergeRequestResponse> {
     // Get project information
     const project = await this.getProject();
+    await this.resolveMilestone(project, options.milestone);
+    const [createRequest] = this.buildMergeRequestApiRequests(project, sourceBranch, targetBranch, title, options);
 
+    logger.info(`📋 Creating GitLab merge request for project ${project.id}`);
+
+    try {
+      const resp = await this.http.requestJson<GitlabMergeRequest>(
+        createRequest.url,
+        createRequest.method,
+        createRequest.headers,
+        createRequest.body
+      );
+
+      logger.info(`✅ Created GitLab merge request: ${resp.web_url}`);
+      
+      // Convert to unified response format
+      return {
+        web_url: resp.web_url,
+        id: resp.id,
+        title: resp.title
+      };
+    } catch (error) {
+      throw new Error(`Failed to create GitLab merge request: ${error}`);
+    }
+  }
+
+  async previewMergeRequest(
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options?: MergeRequestOptions
+  ): Promise<PlatformApiRequest[]> {
+    if (options?.milestone !== undefined) {
+      try {
+        await this.resolveMilestone(await this.getProject(), options.milestone);
+      } catch (error) {
+        logger.warn(`⚠️  Could not resolve milestone "${options.milestone}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return super.previewMergeRequest(sourceBranch, targetBranch, title, options);
+  }
+
+  /**
+   * Resolve a milestone title to its ID (cached)
+   * @param project Project the milestone belongs to
+   * @param milestone Milestone title or ID
+   */
+  private async resolveMilestone(project: GitPlatformProject, milestone?: string | number): Promise<void> {
+    if (milestone === undefined || this.toMilestoneId(milestone) !== undefined) {
+      return;
+    }
+
+    const title = String(milestone);
+    const apiUrl = `${this.baseUrl}/api/v4/projects/${project.id}/milestones?title=${encodeURIComponent(title)}`;
+    try {
+      const milestones = await this.http.requestJson<GitlabMilestone[]>(
+        apiUrl,
+        'GET',
+        {
+          'PRIVATE-TOKEN': this.token,
+          'Content-Type': 'application/json'
+        }
+      );
+      if (milestones.length > 0) {
+        this.milestoneIds.set(title, milestones[0].id);
+      } else {
+        logger.warn(`⚠️  Milestone "${title}" not found in project ${project.full_name}`);
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Failed to resolve milestone "${title}": ${error}`);
+    }
+  }
+
+  /**
+   * Get the ID of a milestone given by ID or by an already resolved title
+   * @param milestone Milestone title or ID
+   */
+  private toMilestoneId(milestone?: string | number): number | undefined {
+    if (milestone === undefined || milestone === '') {
+      return undefined;
+    }
+    if (/^\d+$/.test(String(milestone))) {
+      return parseInt(String(milestone), 10);
+    }
+    return this.milestoneIds.get(String(milestone));
+  }
+
+  async findOpenMergeRequest(sourceBranch: string): Promise<OpenMergeRequest | null> {
+    const project = await this.getProject();
+    const apiUrl = `${this.baseUrl}/api/v4/projects/${project.id}/merge_requests?state=opened&source_branch=${encodeURIComponent(sourceBranch)}`;
+
+    try {
+      const mergeRequests = await this.http.requestJson<GitlabMergeRequest[]>(
+        apiUrl,
+        'GET',
+        {
+          'PRIVATE-TOKEN': this.token,
+          'Content-Type': 'application/json'
+        }
+      );
+
+      const mergeRequest = mergeRequests[0];
+      if (!mergeRequest) {
+        return null;
+      }
+      return {
+        id: mergeRequest.iid,
+        web_url: mergeRequest.web_url,
+        title: mergeRequest.title,
+        target_branch: mergeRequest.target_branch,
+        description: mergeRequest.description || ''
+      };
+    } catch (error) {
+      throw new Error(`Failed to find open GitLab merge request for branch "${sourceBranch}": ${error}`);
+    }
+  }
+
+  async updateMergeRequest(mergeRequest: OpenMergeRequest, changes: { title?: string; description?: string }): Promise<string> {
+    const project = await this.getProject();
+    const apiUrl = `${this.baseUrl}/api/v4/projects/${project.id}/merge_requests/${mergeRequest.id}`;
+
+    const bodyParams: string[] = [];
+    if (changes.title !== undefined) {
+      bodyParams.push(`title=${encodeURIComponent(changes.title)}`);
+    }
+    if (changes.description !== undefined) {
+      bodyParams.push(`description=${encodeURIComponent(changes.description)}`);
+    }
+
+    try {
+      const resp = await this.http.requestJson<GitlabMergeRequest>(
+        apiUrl,
+        'PUT',
+        {
+          'PRIVATE-TOKEN': this.token,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        bodyParams.join('&')
+      );
+
+      logger.info(`✅ Updated GitLab merge request: ${resp.web_url}`);
+      return resp.web_url;
+    } catch (error) {
+      throw new Error(`Failed to update GitLab merge request !${mergeRequest.id}: ${error}`);
+    }
+  }
+
+  async linkIssue(issueNumber: number, mergeRequestUrl: string): Promise<boolean> {
+    const project = await this.getProject();
+    const apiUrl = `${this.baseUrl}/api/v4/projects/${project.id}/issues/${issueNumber}/notes`;
+
+    try {
+      await this.http.requestJson(
+        apiUrl,
+        'POST',
+        {
+          'PRIVATE-TOKEN': this.token,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        `body=${encodeURIComponent(`Merge request: ${mergeRequestUrl}`)}`
+      );
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to comment on GitLab issue #${issueNumber}: ${error}`);
+    }
+  }
+
+  async getProjectLabels(): Promise<string[]> {
+    const project = await this.getProject();
+    const apiUrl = `${this.baseUrl}/api/v4/projects/${project.id}/labels?per_page=100`;
+
+    try {
+      const labels = await this.http.requestJsonPages<GitlabLabel>(apiUrl, {
+        'PRIVATE-TOKEN': this.token
+      });
+      return labels.map(label => label.name);
+    } catch (error) {
+      throw new Error(`Failed to list GitLab project labels: ${error}`);
+    }
+  }
+
+  protected supportsUserLookup(): boolean {
+    return true;
+  }
+
+  protected async findUser(nameOrEmail: string): Promise<PlatformUser | null> {
+    // Emails are matched by the user search (public or, for administrators, any email)
+    const query = nameOrEmail.includes('@')
+      ? `search=${encodeURIComponent(nameOrEmail)}`
+      : `username=${encodeURIComponent(nameOrEmail)}`;
+
+    try {
+      const users = await this.http.requestJson<GitlabUser[]>(`${this.baseUrl}/api/v4/users?${query}`, 'GET', {
+        'PRIVATE-TOKEN': this.token
+      });
+      return users.length > 0 ? { id: users[0].id, username: users[0].username } : null;
+    } catch (error) {
+      throw new Error(`Failed to search GitLab users: ${error}`);
+    }
+  }
+
+  protected buildMergeRequestApiRequests(
+    project: GitPlatformProject,
+    sourceBranch: string,
+    targetBranch: string,
+    title: string,
+    options: MergeRequestOptions = {}
+  ): PlatformApiRequest[] {
     // Extract options with defaults
     const {
       assignee_id,
@@ -80,14 +316,21 @@ export class GitlabPlatformService extends GitPlatformService {
       reviewer_ids,
       squash = true,
       removeSourceBranch = true,
-      description = ''
+      description = '',
+      draft = false,
+      labels,
+      milestone,
+      allow_collaboration
     } = options;
 
+    // GitLab marks merge requests as draft by the title prefix
+    const requestTitle = draft && !/^(draft:|\[draft\]|\(draft\))/i.test(title) ? `Draft: ${title}` : title;
+
     // Build request body with all parameters
     const bodyParams = [
       `source_branch=${encodeURIComponent(sourceBranch)}`,
       `target_branch=${encodeURIComponent(targetBranch)}`,
-      `title=${encodeURIComponent(title)}`,
+      `title=${encodeURIComponent(requestTitle)}`,
       `squash=${squash}`,                           // Squash all commits into one
       `remove_source_branch=${removeSourceBranch}` // Delete source branch after merge
     ];
@@ -128,29 +371,31 @@ export class GitlabPlatformService extends GitPlatformService {
       }
     }
 
-    logger.info(`📋 Creating GitLab merge request for project ${project.id}`);
+    // Add labels if specified
+    if (labels && labels.length > 0) {
+      bodyParams.push(`labels=${encodeURIComponent(labels.join(','))}`);
+      logger.info(`📋 Setting labels: ${labels.join(', ')}`);
+    }
 
-    try {
-      const resp = await this.http.requestJson<GitlabMergeRequest>(
-        `${this.baseUrl}/api/v4/projects/${project.id}/merge_requests`,
-        'POST',
-        {
-          'PRIVATE-TOKEN': this.token,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        bodyParams.join('&')
-      );
+    // Add milestone if specified and resolved
+    const milestoneId = this.toMilestoneId(milestone);
+    if (milestoneId !== undefined) {
+      bodyParams.push(`milestone_id=${milestoneId}`);
+      logger.info(`📋 Setting milestone ID: ${milestoneId}`);
+    }
 
-      logger.info(`✅ Created GitLab merge request: ${resp.web_url}`);
-      
-      // Convert to unified response format
-      return {
-        web_url: resp.web_url,
-        id: resp.id,
-        title: resp.title
-      };
-    } catch (error) {
-      throw new Error(`Failed to create GitLab merge request: ${error}`);
+    if (allow_collaboration !== undefined) {
+      bodyParams.push(`allow_collaboration=${allow_collaboration}`);
     }
+
+    return [{
+      method: 'POST',
+      url: `${this.baseUrl}/api/v4/projects/${project.id}/merge_requests`,
+      headers: {
+        'PRIVATE-TOKEN': this.token,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: bodyParams.join('&')
+    }];
   }
 }
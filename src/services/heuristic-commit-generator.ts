@@ -0,0 +1,272 @@
+import path from 'path';
+import { CommitGenerationResult } from './openai-service.js';
+import { logger } from '../logger.js';
+
+/**
+ * Change status of a file in a diff
+ */
+type FileChangeStatus = 'added' | 'deleted' | 'renamed' | 'modified';
+
+/**
+ * Category of a changed file, used to infer the commit type
+ */
+type FileCategory = 'test' | 'docs' | 'lock' | 'source';
+
+/**
+ * Per-file statistics parsed from a git diff
+ */
+interface FileDiffStat {
+  path: string;
+  oldPath?: string;
+  status: FileChangeStatus;
+  category: FileCategory;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Deterministic, offline commit information generator.
+ * Infers a conventional commit type and scope from file paths and diff stats,
+ * used when AI generation is disabled (--no-ai) or unavailable.
+ */
+export class HeuristicCommitGenerator {
+  /** Maximum length of the commit header */
+  private static readonly MAX_HEADER_LENGTH = 72;
+  /** Maximum number of files listed in the MR description */
+  private static readonly MAX_LISTED_FILES = 50;
+  /** Changes up to this many lines touching existing files only are treated as fixes */
+  private static readonly SMALL_CHANGE_LINES = 10;
+
+  private static readonly LOCK_FILES = new Set([
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'npm-shrinkwrap.json', 'bun.lockb',
+    'cargo.lock', 'go.sum', 'poetry.lock', 'pipfile.lock', 'composer.lock', 'gemfile.lock',
+    'podfile.lock', 'pubspec.lock', 'mix.lock', 'flake.lock', 'packages.lock.json'
+  ]);
+
+  /**
+   * Generate commit message, branch name and MR description from a diff
+   * @param diff The git diff content to analyze
+   * @param language Language code for the MR description headings (default: 'en')
+   * @param mrTemplate Optional repository MR/PR description template, kept above the file list
+   * @returns Commit generation result
+   */
+  generate(diff: string, language: string = 'en', mrTemplate?: string): CommitGenerationResult {
+    const files = this.parseDiff(diff);
+    if (files.length === 0) {
+      throw new Error('Empty diff provided');
+    }
+
+    const type = this.inferType(files);
+    // Source files decide the scope when present, tests and docs accompanying them do not
+    const sources = files.filter(file => file.category === 'source');
+    const scope = this.inferScope(sources.length > 0 ? sources : files);
+    const { verb, object } = this.describeChange(files);
+
+    const header = this.truncate(`${type}${scope ? `(${scope})` : ''}: ${verb} ${object}`, HeuristicCommitGenerator.MAX_HEADER_LENGTH);
+    const branch = `${type}/${this.slugify(`${verb} ${files.length === 1 ? object : (scope || object)}`)}`;
+
+    logger.info(`🧮 Generated commit information offline (${files.length} file(s), type: ${type}${scope ? `, scope: ${scope}` : ''})`);
+
+    return {
+      commit: header,
+      branch,
+      title: header,
+      description: mrTemplate
+        ? `${mrTemplate.trim()}\n\n${this.buildDescription(files, language)}`
+        : this.buildDescription(files, language)
+    };
+  }
+
+  /**
+   * Parse per-file statistics from a git diff
+   * @param diff The git diff content
+   * @returns File statistics in diff order
+   */
+  private parseDiff(diff: string): FileDiffStat[] {
+    const files: FileDiffStat[] = [];
+    let current: FileDiffStat | null = null;
+
+    for (const line of diff.split('\n')) {
+      const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      if (header) {
+        current = {
+          path: header[2],
+          status: header[1] !== header[2] ? 'renamed' : 'modified',
+          category: this.categorize(header[2]),
+          additions: 0,
+          deletions: 0
+        };
+        if (current.status === 'renamed') {
+          current.oldPath = header[1];
+        }
+        files.push(current);
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      if (line.startsWith('new file mode')) {
+        current.status = 'added';
+      } else if (line.startsWith('deleted file mode')) {
+        current.status = 'deleted';
+      } else if (line.startsWith('+') && !line.startsWith('+++')) {
+        current.additions++;
+      } else if (line.startsWith('-') && !line.startsWith('---')) {
+        current.deletions++;
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Categorize a file by its path
+   * @param filePath File path relative to the repository root
+   */
+  private categorize(filePath: string): FileCategory {
+    const lower = filePath.toLowerCase();
+    const baseName = path.posix.basename(lower);
+
+    if (HeuristicCommitGenerator.LOCK_FILES.has(baseName) || baseName.endsWith('.lock')) {
+      return 'lock';
+    }
+    if (/(^|\/)(tests?|__tests__|specs?)\//.test(lower) || /[._-](test|spec)s?\.[^/]+$/.test(baseName)) {
+      return 'test';
+    }
+    if (/\.(md|mdx|rst|adoc)$/.test(baseName) || /(^|\/)docs?\//.test(lower)) {
+      return 'docs';
+    }
+    return 'source';
+  }
+
+  /**
+   * Infer the conventional commit type
+   * @param files Changed files
+   */
+  private inferType(files: FileDiffStat[]): string {
+    const sources = files.filter(file => file.category === 'source');
+
+    if (sources.length === 0) {
+      const categories = new Set(files.map(file => file.category));
+      if (categories.size === 1) {
+        const [category] = categories;
+        return category === 'lock' ? 'chore' : category;
+      }
+      return 'chore';
+    }
+
+    const additions = sources.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = sources.reduce((sum, file) => sum + file.deletions, 0);
+
+    if (sources.some(file => file.status === 'added')) {
+      return 'feat';
+    }
+    if (sources.every(file => file.status === 'renamed' || file.status === 'deleted') || deletions > additions) {
+      return 'refactor';
+    }
+    if (additions + deletions <= HeuristicCommitGenerator.SMALL_CHANGE_LINES) {
+      return 'fix';
+    }
+    return additions >= deletions * 2 ? 'feat' : 'refactor';
+  }
+
+  /**
+   * Infer the commit scope from the deepest directory shared by all files
+   * @param files Files to derive the scope from
+   * @returns Scope, or empty string if there is no meaningful common directory
+   */
+  private inferScope(files: FileDiffStat[]): string {
+    const directories = files.map(file => path.posix.dirname(file.path).split('/'));
+    const common: string[] = [];
+    for (let i = 0; i < directories[0].length; i++) {
+      const segment = directories[0][i];
+      if (segment === '.' || !directories.every(dirs => dirs[i] === segment)) {
+        break;
+      }
+      common.push(segment);
+    }
+
+    // Skip generic container directories (e.g. "src", "lib")
+    const meaningful = common.filter(segment => !['src', 'lib', 'app', 'source', 'sources'].includes(segment.toLowerCase()));
+    return meaningful.length > 0 ? this.slugify(meaningful[meaningful.length - 1], 3, 20) : '';
+  }
+
+  /**
+   * Describe the change with a verb and an object, e.g. "add" + "login.ts"
+   * @param files Changed files
+   */
+  private describeChange(files: FileDiffStat[]): { verb: string; object: string } {
+    const statuses = new Set(files.map(file => file.status));
+    const verb = statuses.size === 1
+      ? ({ added: 'add', deleted: 'remove', renamed: 'rename', modified: 'update' } as const)[files[0].status]
+      : 'update';
+
+    const names = files.map(file => path.posix.basename(file.path));
+    let object: string;
+    if (names.length === 1) {
+      object = names[0];
+    } else if (names.length === 2) {
+      object = `${names[0]} and ${names[1]}`;
+    } else {
+      object = `${names.length} files`;
+    }
+
+    return { verb, object };
+  }
+
+  /**
+   * Build a markdown MR description listing the changed files
+   * @param files Changed files
+   * @param language Language code for the headings
+   */
+  private buildDescription(files: FileDiffStat[], language: string): string {
+    const chinese = ['zh-cn', 'zhcn', 'zh-tw', 'zhtw'].includes(language.toLowerCase());
+    const headings = chinese
+      ? { changed: '## 变更内容', stats: '## 统计', note: '_此描述由离线规则生成，未使用 AI。_', more: '其余' }
+      : { changed: '## What Changed', stats: '## Stats', note: '_This description was generated offline without AI._', more: 'more' };
+
+    const lines = [headings.changed];
+    for (const file of files.slice(0, HeuristicCommitGenerator.MAX_LISTED_FILES)) {
+      const name = file.oldPath ? `\`${file.oldPath}\` → \`${file.path}\`` : `\`${file.path}\``;
+      lines.push(`- ${name} (${file.status}, +${file.additions}/-${file.deletions})`);
+    }
+    if (files.length > HeuristicCommitGenerator.MAX_LISTED_FILES) {
+      lines.push(`- ... ${headings.more} ${files.length - HeuristicCommitGenerator.MAX_LISTED_FILES}`);
+    }
+
+    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+    lines.push('', headings.stats, `${files.length} file(s) changed, ${additions} insertion(s)(+), ${deletions} deletion(s)(-)`);
+    lines.push('', headings.note);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert text to a kebab-case slug
+   * @param text Text to convert
+   * @param maxWords Maximum number of words
+   * @param maxLength Maximum slug length
+   */
+  private slugify(text: string, maxWords: number = 4, maxLength: number = 40): string {
+    const words = text
+      .replace(/\.[a-z0-9]+\b/gi, '') // Drop file extensions
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 0)
+      .slice(0, maxWords);
+    return words.join('-').substring(0, maxLength).replace(/-+$/, '') || 'changes';
+  }
+
+  /**
+   * Truncate text to a maximum length
+   * @param text Text to truncate
+   * @param maxLength Maximum length
+   */
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+  }
+}
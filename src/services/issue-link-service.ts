@@ -0,0 +1,207 @@
+import { logger } from '../logger.js';
+
+/**
+ * Issue tracker reference extracted for the current change
+ */
+export interface IssueReference {
+  /** Issue key as written in commits and MRs (e.g. "PROJ-123" or "#456") */
+  key: string;
+  /** Issue number of platform issues (GitLab/GitHub "#456"), undefined for Jira-style keys */
+  number?: number;
+  /** Where the key was found */
+  source: 'cli' | 'branch' | 'commit';
+}
+
+/**
+ * Extracts issue keys from branch names and commit messages,
+ * and injects them into commit messages, MR titles and descriptions.
+ */
+export class IssueLinkService {
+  /** Jira-style issue key, e.g. PROJ-123 */
+  private static readonly JIRA_KEY_PATTERN = /(?:^|[^A-Za-z0-9])([A-Z][A-Z0-9_]+)-(\d+)(?![A-Za-z0-9])/g;
+  /** Platform issue numbers in branch names, e.g. fix/#456, issue-456, gh-456 */
+  private static readonly BRANCH_NUMBER_PATTERNS = [
+    /#(\d+)/,
+    /(?:^|[/_-])(?:issues?|gh)[-_/]?(\d+)(?![A-Za-z0-9])/i
+  ];
+  /** Issue trailer lines in commit message bodies, e.g. "Closes #456" or "Refs: PROJ-123" */
+  private static readonly COMMIT_TRAILER_PATTERN = /^([A-Za-z]+(?:-[A-Za-z]+)?)\s*:?\s+(#\d+|[A-Z][A-Z0-9_]+-\d+)\s*(?:[,;].*)?$/;
+  /** Trailer keywords that reference an issue */
+  private static readonly COMMIT_TRAILER_KEYWORDS = new Set(['ref', 'refs', 'references', 'close', 'closes', 'closed', 'fix', 'fixes', 'fixed', 'resolve', 'resolves', 'resolved', 'related', 'related-to', 'issue']);
+
+  /**
+   * @param closingKeyword Keyword that closes the issue when the MR is merged (e.g. "Closes")
+   * @param closeInferred Also use the closing keyword for issues inferred from the branch name or commits,
+   * otherwise they are only referenced ("Refs")
+   */
+  constructor(private readonly closingKeyword: string = 'Closes', private readonly closeInferred: boolean = false) { }
+
+  /**
+   * Parse an explicitly provided issue key ("PROJ-123", "#456" or "456")
+   * @param value Issue key
+   * @returns Issue reference, or null if the value is not an issue key
+   */
+  static parse(value: string): IssueReference | null {
+    const trimmed = (value || '').trim();
+    const numberMatch = trimmed.match(/^#?(\d+)$/);
+    if (numberMatch) {
+      return { key: `#${numberMatch[1]}`, number: parseInt(numberMatch[1], 10), source: 'cli' };
+    }
+    const jiraMatch = trimmed.toUpperCase().match(/^[A-Z][A-Z0-9_]+-\d+$/);
+    if (jiraMatch) {
+      return { key: jiraMatch[0], source: 'cli' };
+    }
+    return null;
+  }
+
+  /**
+   * Extract an issue key from a branch name.
+   * Jira-style keys are only taken for the configured project keys, and issue numbers
+   * need a "#", "issue" or "gh" prefix, so that e.g. release/2024-10 or feat/gpt-4 are not issues.
+   * @param branch Branch name (e.g. "feature/PROJ-123-login" or "fix/issue-456-login")
+   * @param projectKeys Jira project keys (e.g. ["PROJ"])
+   * @returns Issue reference, or null if the branch does not reference an issue
+   */
+  static fromBranch(branch: string, projectKeys: string[] = []): IssueReference | null {
+    if (!branch) {
+      return null;
+    }
+
+    const jiraKey = IssueLinkService.findJiraKey(branch, projectKeys);
+    if (jiraKey) {
+      return { key: jiraKey, source: 'branch' };
+    }
+
+    for (const pattern of IssueLinkService.BRANCH_NUMBER_PATTERNS) {
+      const match = branch.match(pattern);
+      if (match) {
+        return { key: `#${match[1]}`, number: parseInt(match[1], 10), source: 'branch' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extract an issue key from commit messages, most recent first.
+   * Keys are taken from issue trailers ("Closes #456", "Refs: PROJ-123"),
+   * or anywhere in the message for the configured project keys.
+   * @param messages Commit messages
+   * @param projectKeys Jira project keys (e.g. ["PROJ"])
+   * @returns Issue reference, or null if no commit references an issue
+   */
+  static fromCommitMessages(messages: string[], projectKeys: string[] = []): IssueReference | null {
+    for (const message of messages) {
+      // Merge commits reference pull requests, not issues
+      const lines = message.split('\n').map(line => /^Merge (pull request|branch|remote-tracking)/.test(line.trim()) ? '' : line);
+
+      // The subject line is free text, trailers are in the body
+      for (const line of lines.slice(1)) {
+        const trailerMatch = line.trim().match(IssueLinkService.COMMIT_TRAILER_PATTERN);
+        if (trailerMatch && IssueLinkService.COMMIT_TRAILER_KEYWORDS.has(trailerMatch[1].toLowerCase())) {
+          const key = trailerMatch[2];
+          return key.startsWith('#')
+            ? { key, number: parseInt(key.slice(1), 10), source: 'commit' }
+            : { key, source: 'commit' };
+        }
+      }
+      const jiraKey = IssueLinkService.findJiraKey(lines.join('\n'), projectKeys);
+      if (jiraKey) {
+        return { key: jiraKey, source: 'commit' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the issue for the current change.
+   * Priority: explicit key (--issue) > branch name > recent commit messages.
+   * @param sources Places to look for an issue key, and the Jira project keys to accept
+   * @returns Issue reference, or null if none is found
+   */
+  static resolve(sources: { explicit?: string; branch?: string; commitMessages?: string[]; projectKeys?: string[] }): IssueReference | null {
+    if (sources.explicit) {
+      const issue = IssueLinkService.parse(sources.explicit);
+      if (issue) {
+        return issue;
+      }
+      logger.warn(`⚠️  Invalid issue key "${sources.explicit}", expected e.g. PROJ-123 or #456`);
+    }
+
+    const projectKeys = sources.projectKeys || [];
+    return IssueLinkService.fromBranch(sources.branch || '', projectKeys)
+      || IssueLinkService.fromCommitMessages(sources.commitMessages || [], projectKeys);
+  }
+
+  /**
+   * Find the first Jira-style issue key of a configured project in text
+   * @param text Text to search
+   * @param projectKeys Jira project keys (e.g. ["PROJ"])
+   * @returns Issue key, or null if none is found
+   */
+  private static findJiraKey(text: string, projectKeys: string[]): string | null {
+    const keys = new Set(projectKeys.map(key => key.trim().toUpperCase()).filter(key => key.length > 0));
+    if (keys.size === 0) {
+      return null;
+    }
+
+    // Branch names are often lower case (feature/proj-123-login)
+    for (const match of text.toUpperCase().matchAll(IssueLinkService.JIRA_KEY_PATTERN)) {
+      if (keys.has(match[1])) {
+        return `${match[1]}-${match[2]}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Add the issue key to the commit message footer
+   * @param commit Commit message
+   * @param issue Issue reference
+   * @returns Commit message with a "Refs:" footer
+   */
+  applyToCommit(commit: string, issue: IssueReference): string {
+    if (this.containsKey(commit, issue)) {
+      return commit;
+    }
+    return `${commit.trimEnd()}\n\nRefs: ${issue.key}`;
+  }
+
+  /**
+   * Prefix the MR title with the issue key
+   * @param title MR title
+   * @param issue Issue reference
+   * @returns Title prefixed with "[KEY]"
+   */
+  applyToTitle(title: string, issue: IssueReference): string {
+    if (this.containsKey(title, issue)) {
+      return title;
+    }
+    return `[${issue.key}] ${title}`;
+  }
+
+  /**
+   * Add a closing reference to the MR description.
+   * Inferred issues are only referenced unless closeInferred is set.
+   * @param description MR description
+   * @param issue Issue reference
+   * @returns Description ending with e.g. "Closes #456" or "Refs #456"
+   */
+  applyToDescription(description: string, issue: IssueReference): string {
+    const keyword = issue.source === 'cli' || this.closeInferred ? this.closingKeyword : 'Refs';
+    const reference = `${keyword} ${issue.key}`;
+    if (description.includes(reference)) {
+      return description;
+    }
+    return description.trim() ? `${description.trimEnd()}\n\n${reference}` : reference;
+  }
+
+  /**
+   * Check whether text already references the issue
+   * @param text Text to check
+   * @param issue Issue reference
+   */
+  private containsKey(text: string, issue: IssueReference): boolean {
+    const escapedKey = issue.key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?:^|[^A-Za-z0-9])${escapedKey}(?![0-9])`).test(text);
+  }
+}
@@ -0,0 +1,75 @@
+import { LlmProvider, LlmProviderType, ReasoningConfig } from './llm-provider.js';
+import { OpenAiLlmProvider } from './openai-llm-provider.js';
+import { AnthropicLlmProvider } from './anthropic-llm-provider.js';
+import { OllamaLlmProvider } from './ollama-llm-provider.js';
+import { logger } from '../logger.js';
+
+/**
+ * Factory for creating LLM providers
+ */
+export class LlmProviderFactory {
+  /** Default API base URL per provider */
+  private static readonly DEFAULT_BASE_URLS: Record<LlmProviderType, string> = {
+    openai: 'https://api.openai.com/v1',
+    anthropic: 'https://api.anthropic.com',
+    ollama: 'http://localhost:11434'
+  };
+
+  /**
+   * Create an LLM provider
+   * @param provider Provider type, unknown values fall back to 'openai'
+   * @param apiKey API key (optional for Ollama)
+   * @param baseUrl API base URL, the provider default is used when empty
+   * @param model Model name
+   * @param reasoning Reasoning configuration
+   * @returns LLM provider
+   */
+  static create(
+    provider: string | undefined,
+    apiKey: string,
+    baseUrl: string,
+    model: string,
+    reasoning: boolean | ReasoningConfig = false
+  ): LlmProvider {
+    const type = LlmProviderFactory.normalizeType(provider);
+    const url = baseUrl || LlmProviderFactory.getDefaultBaseUrl(type);
+
+    switch (type) {
+      case 'anthropic':
+        return new AnthropicLlmProvider(apiKey, url, model, reasoning);
+      case 'ollama':
+        return new OllamaLlmProvider(apiKey, url, model, reasoning);
+      default:
+        return new OpenAiLlmProvider(apiKey, url, model, reasoning);
+    }
+  }
+
+  /**
+   * Normalize a configured provider name
+   * @param provider Provider name from configuration
+   * @returns Supported provider type
+   */
+  static normalizeType(provider: string | undefined): LlmProviderType {
+    const type = (provider || 'openai').trim().toLowerCase();
+    if (LlmProviderFactory.getSupportedProviders().includes(type as LlmProviderType)) {
+      return type as LlmProviderType;
+    }
+    logger.warn(`Unsupported LLM provider '${provider}', falling back to openai`);
+    return 'openai';
+  }
+
+  /**
+   * Get the default API base URL of a provider
+   * @param provider Provider type
+   */
+  static getDefaultBaseUrl(provider: LlmProviderType): string {
+    return LlmProviderFactory.DEFAULT_BASE_URLS[provider];
+  }
+
+  /**
+   * Get list of supported providers
+   */
+  static getSupportedProviders(): LlmProviderType[] {
+    return ['openai', 'anthropic', 'ollama'];
+  }
+}
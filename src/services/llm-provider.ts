@@ -0,0 +1,105 @@
+/**
+ * Reasoning configuration options
+ */
+export interface ReasoningConfig {
+  /** Enable reasoning with default parameters */
+  enabled?: boolean;
+  /** Reasoning effort level (OpenAI-style) */
+  effort?: 'high' | 'medium' | 'low';
+  /** Maximum reasoning tokens (Anthropic-style) */
+  max_tokens?: number;
+  /** Exclude reasoning tokens from response */
+  exclude?: boolean;
+}
+
+/**
+ * Supported LLM provider types
+ */
+export type LlmProviderType = 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * Chat message sent to an LLM provider
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Tool the model is asked to call with structured output
+ */
+export interface LlmTool {
+  name: string;
+  description: string;
+  /** JSON schema of the tool arguments */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Chat request sent to an LLM provider
+ */
+export interface LlmChatRequest {
+  messages: LlmMessage[];
+  /** Tool the model must call, the response then carries the tool arguments */
+  tool?: LlmTool;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Token usage in OpenAI format, normalized across providers
+ */
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Chat response from an LLM provider
+ */
+export interface LlmChatResponse {
+  /** JSON arguments of the requested tool call, if the model called it */
+  toolArguments?: string;
+  /** Plain text content of the response */
+  content?: string;
+  finishReason?: string;
+  usage?: LlmUsage;
+}
+
+/**
+ * Abstract base class for LLM providers.
+ * Providers only handle transport, prompts and parsing stay in OpenAiService.
+ */
+export abstract class LlmProvider {
+  protected readonly apiKey: string;
+  protected readonly baseUrl: string;
+  protected readonly model: string;
+  protected readonly reasoning: boolean | ReasoningConfig;
+
+  protected constructor(apiKey: string, baseUrl: string, model: string, reasoning: boolean | ReasoningConfig = false) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.model = model;
+    this.reasoning = reasoning;
+  }
+
+  /**
+   * Get the provider name (e.g., 'openai', 'anthropic')
+   */
+  abstract getProviderName(): LlmProviderType;
+
+  /**
+   * Send a chat request
+   * @param request Chat request
+   * @returns Normalized chat response
+   */
+  abstract chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+
+  /**
+   * Get the base URL of this provider
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+}
@@ -0,0 +1,69 @@
+import { LoadedConfig, NotificationWebhookConfig, getConfigValue } from '../config.js';
+import { logger } from '../logger.js';
+import { Notifier, NotifierType } from './notifier.js';
+import { WecomNotifier } from './wecom-notifier.js';
+import { SlackNotifier } from './slack-notifier.js';
+import { FeishuNotifier } from './feishu-notifier.js';
+import { DingtalkNotifier } from './dingtalk-notifier.js';
+import { WebhookNotifier } from './webhook-notifier.js';
+
+/**
+ * Factory for creating the notifiers enabled in the configuration
+ */
+export class NotifierFactory {
+  /**
+   * Create all enabled notifiers. A chat notifier is enabled when its section has
+   * enable: true and a webhook, e.g. wecom.enable and wecom.webhook.
+   * Generic webhooks (notifications.webhooks) are enabled unless they set enable: false.
+   * @param config Loaded configuration
+   * @returns Enabled notifiers, empty if none is configured
+   */
+  static createAll(config: LoadedConfig): Notifier[] {
+    const notifiers: Notifier[] = [];
+    for (const type of NotifierFactory.getSupportedNotifiers()) {
+      const webhook = getConfigValue(config, `${type}.webhook`, '') || '';
+      if (getConfigValue(config, `${type}.enable`, false) && webhook) {
+        notifiers.push(NotifierFactory.create(type, webhook, getConfigValue(config, `${type}.secret`, '') || ''));
+      }
+    }
+
+    const webhooks = getConfigValue<NotificationWebhookConfig[]>(config, 'notifications.webhooks', []) || [];
+    for (const webhook of Array.isArray(webhooks) ? webhooks : []) {
+      if (!webhook?.url) {
+        logger.warn('⚠️  Ignoring notifications.webhooks entry without url');
+        continue;
+      }
+      if (webhook.enable !== false) {
+        notifiers.push(new WebhookNotifier(webhook.url, webhook.headers, webhook.body));
+      }
+    }
+    return notifiers;
+  }
+
+  /**
+   * Create a notifier
+   * @param type Notifier type
+   * @param webhook Webhook URL
+   * @param secret Signature secret (Feishu and DingTalk only)
+   * @returns Notifier
+   */
+  static create(type: Exclude<NotifierType, 'webhook'>, webhook: string, secret: string = ''): Notifier {
+    switch (type) {
+      case 'slack':
+        return new SlackNotifier(webhook);
+      case 'feishu':
+        return new FeishuNotifier(webhook, secret);
+      case 'dingtalk':
+        return new DingtalkNotifier(webhook, secret);
+      default:
+        return new WecomNotifier(webhook);
+    }
+  }
+
+  /**
+   * Get list of supported chat notifiers, configured by their own config section
+   */
+  static getSupportedNotifiers(): Exclude<NotifierType, 'webhook'>[] {
+    return ['wecom', 'slack', 'feishu', 'dingtalk'];
+  }
+}
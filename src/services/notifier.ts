@@ -0,0 +1,144 @@
+import { logger } from '../logger.js';
+import { HttpClient } from '../http/http-client.js';
+
+/**
+ * Supported notifier types
+ */
+export type NotifierType = 'wecom' | 'slack' | 'feishu' | 'dingtalk' | 'webhook';
+
+/**
+ * Merge request notice sent to the configured chat webhooks
+ */
+export interface MergeRequestNotice {
+  /** Source branch */
+  branch: string;
+  /** Target branch */
+  target: string;
+  /** Merge request URL */
+  mrUrl: string;
+  /** Merge request title */
+  title: string;
+  /** Commit message */
+  commit: string;
+  /** Changed files */
+  changedFiles: string[];
+  /** Git user name of the author */
+  author?: string;
+}
+
+/**
+ * Abstract base class for chat webhook notifiers.
+ * Notifiers build a platform-specific payload for the notice and post it to their webhook.
+ */
+export abstract class Notifier {
+  /** Maximum number of changed files listed in a notice */
+  protected static readonly MAX_LISTED_FILES = 10;
+
+  protected readonly webhook: string;
+  protected readonly http = new HttpClient();
+
+  protected constructor(webhook: string) {
+    this.webhook = webhook;
+  }
+
+  /**
+   * Get the notifier name (e.g., 'wecom', 'slack')
+   */
+  abstract getNotifierName(): NotifierType;
+
+  /**
+   * Build the webhook payload for a merge request notice
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the webhook
+   */
+  abstract buildMergeRequestNoticePayload(notice: MergeRequestNotice): object;
+
+  /**
+   * Send a merge request notice
+   * @param notice Merge request notice
+   * @throws Error if the webhook rejects the notice
+   */
+  async sendMergeRequestNotice(notice: MergeRequestNotice): Promise<void> {
+    logger.info(`Sending ${this.getNotifierName()} merge request notice: ${notice.branch} → ${notice.target}`);
+    logger.debug(`MR URL: ${notice.mrUrl}`);
+    logger.debug(`Changed files count: ${notice.changedFiles.length}`);
+
+    await this.post(this.buildMergeRequestNoticePayload(notice));
+    logger.info(`${this.getNotifierName()} notification sent successfully`);
+  }
+
+  /**
+   * Get the webhook URL with its secret masked, for display purposes.
+   * The last path segment carries the token for most webhooks.
+   */
+  getMaskedWebhook(): string {
+    return this.webhook.replace(/\/[^/?]+(\?|$)/, '/***$1');
+  }
+
+  /**
+   * Post a payload to the webhook
+   * @param payload JSON payload
+   * @returns Response body
+   */
+  protected async post(payload: object): Promise<string> {
+    const response = await this.http.requestText(
+      this.getRequestUrl(),
+      'POST',
+      this.getRequestHeaders(),
+      JSON.stringify(payload)
+    );
+    this.checkResponse(response);
+    return response;
+  }
+
+  /**
+   * Get the URL the payload is posted to, e.g. with a request signature appended
+   */
+  protected getRequestUrl(): string {
+    return this.webhook;
+  }
+
+  /**
+   * Get the headers the payload is posted with
+   */
+  protected getRequestHeaders(): Record<string, string> {
+    return { 'Content-Type': 'application/json' };
+  }
+
+  /**
+   * Check the webhook response. Chat bots report errors such as an invalid signature
+   * with HTTP 200 and an error code in the body.
+   * @param response Response body
+   * @throws Error if the response reports an error
+   */
+  protected checkResponse(response: string): void {
+    let result: any;
+    try {
+      result = JSON.parse(response);
+    } catch {
+      return;
+    }
+    const code = result?.errcode ?? result?.code ?? result?.StatusCode;
+    if (code !== undefined && code !== 0) {
+      throw new Error(`${this.getNotifierName()} webhook error ${code}: ${result.errmsg ?? result.msg ?? result.StatusMessage ?? response}`);
+    }
+  }
+
+  /**
+   * List the changed files of a notice, truncated to MAX_LISTED_FILES
+   * @param changedFiles Changed files
+   * @param format Format of a file line
+   * @param formatMore Format of the line counting the files left out
+   */
+  protected listChangedFiles(
+    changedFiles: string[],
+    format: (file: string) => string,
+    formatMore: (count: number) => string
+  ): string {
+    const lines = changedFiles.slice(0, Notifier.MAX_LISTED_FILES).map(format);
+    if (changedFiles.length > Notifier.MAX_LISTED_FILES) {
+      lines.push(formatMore(changedFiles.length - Notifier.MAX_LISTED_FILES));
+    }
+    return lines.join('\n');
+  }
+}
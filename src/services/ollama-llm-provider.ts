@@ -0,0 +1,96 @@
+import { LlmProvider, LlmProviderType, LlmChatRequest, LlmChatResponse, ReasoningConfig } from './llm-provider.js';
+import { HttpClient } from '../http/http-client.js';
+import { logger } from '../logger.js';
+
+/**
+ * Ollama native chat API response
+ */
+interface OllamaChatResponse {
+  model: string;
+  message: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Ollama native chat API provider (/api/chat).
+ * Structured output uses the "format" JSON schema instead of tool calls,
+ * which many local models handle unreliably.
+ */
+export class OllamaLlmProvider extends LlmProvider {
+  private readonly http = new HttpClient();
+
+  constructor(apiKey: string, baseUrl: string, model: string, reasoning: boolean | ReasoningConfig = false) {
+    // Accept the OpenAI shim URL (http://host:11434/v1) as well as the native one
+    super(apiKey, baseUrl.replace(/\/$/, '').replace(/\/(v1|api)$/, ''), model, reasoning);
+  }
+
+  getProviderName(): LlmProviderType {
+    return 'ollama';
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const requestBody: any = {
+      model: this.model,
+      messages: request.messages,
+      stream: false,
+      options: {
+        temperature: request.temperature ?? 0.1
+      }
+    };
+
+    if (request.maxTokens) {
+      requestBody.options.num_predict = request.maxTokens;
+    }
+
+    if (this.reasoning) {
+      // Thinking-capable models (e.g. qwen3, deepseek-r1) return reasoning separately
+      requestBody.think = typeof this.reasoning === 'boolean' || this.reasoning.enabled !== false;
+    }
+
+    if (request.tool) {
+      requestBody.format = request.tool.parameters;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      // Only needed when Ollama sits behind an authenticating proxy
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    logger.debug(`Ollama request params:`, requestBody);
+
+    const response = await this.http.requestJson<OllamaChatResponse>(
+      `${this.baseUrl}/api/chat`,
+      'POST',
+      headers,
+      JSON.stringify(requestBody)
+    );
+
+    if (!response.message) {
+      throw new Error("No valid response received from Ollama API, message is empty");
+    }
+
+    logger.debug(`Ollama response message:`, response.message);
+
+    const promptTokens = response.prompt_eval_count || 0;
+    const completionTokens = response.eval_count || 0;
+    // With "format" set, the content is the JSON matching the tool schema
+    return {
+      content: response.message.content || undefined,
+      finishReason: response.done_reason,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import OpenAI from 'openai';
+import { LlmProvider, LlmProviderType, LlmChatRequest, LlmChatResponse, ReasoningConfig } from './llm-provider.js';
+import { logger } from '../logger.js';
+
+/**
+ * OpenAI-compatible chat completions provider
+ */
+export class OpenAiLlmProvider extends LlmProvider {
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, baseUrl: string, model: string, reasoning: boolean | ReasoningConfig = false) {
+    super(
+      apiKey,
+      baseUrl.endsWith('/chat/completions') ? baseUrl.replace('/chat/completions', '') : baseUrl,
+      model,
+      reasoning
+    );
+
+    // Initialize OpenAI client
+    this.client = new OpenAI({
+      apiKey: this.apiKey,
+      baseURL: this.baseUrl,
+      maxRetries: 3,
+      timeout: 300000,
+      defaultHeaders: {
+        'HTTP-Referer': 'https://github.com/HeiSir2014/git-aiflow',
+        'X-Title': 'Git-AIFlow',
+      },
+    });
+  }
+
+  getProviderName(): LlmProviderType {
+    return 'openai';
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const requestParams: OpenAI.Chat.ChatCompletionCreateParams = {
+      model: this.model,
+      messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+      temperature: request.temperature ?? 0.1
+    };
+
+    if (request.maxTokens) {
+      requestParams.max_tokens = request.maxTokens;
+    }
+
+    (requestParams as any).extra_body = {
+      usage: {
+        include: true,
+      },
+    };
+
+    // Add reasoning support for compatible models (if supported by the API)
+    if (this.reasoning) {
+      const reasoningConfig = this.buildReasoningConfig();
+      if (reasoningConfig) {
+        (requestParams as any).reasoning = reasoningConfig;
+        logger.debug(`Enabling reasoning mode for model: ${this.model}`, { config: reasoningConfig });
+      }
+    }
+
+    // Add tools and tool_choice if requested
+    if (request.tool) {
+      requestParams.tools = [{
+        type: "function",
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.parameters
+        }
+      }];
+      requestParams.tool_choice = {
+        type: "function",
+        function: {
+          name: request.tool.name
+        }
+      };
+    }
+
+    logger.debug(`OpenAI request params:`, requestParams);
+
+    const response = await this.client.chat.completions.create(requestParams);
+
+    if (!response.choices || response.choices.length === 0) {
+      throw new Error("No valid response received from OpenAI API, response.choices is empty");
+    }
+
+    const message = response.choices[0].message;
+    if (!message) {
+      throw new Error("No valid response received from OpenAI API, message is empty");
+    }
+
+    logger.debug(`OpenAI response message:`, message);
+
+    const result: LlmChatResponse = {
+      content: message.content || undefined,
+      finishReason: response.choices[0].finish_reason || undefined,
+      usage: response.usage
+    };
+
+    // Check if response contains tool calls (preferred method)
+    if (request.tool && message.tool_calls && message.tool_calls.length > 0) {
+      const toolCall = message.tool_calls[0];
+      if (toolCall.type === 'function' && toolCall.function) {
+        if (toolCall.function.name === request.tool.name) {
+          result.toolArguments = toolCall.function.arguments;
+        } else {
+          logger.warn(`OpenAI tool call response: function: ${toolCall.function.name} is not supported, arguments: ${toolCall.function.arguments}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Build reasoning configuration based on the reasoning parameter
+   * @returns Reasoning configuration object or null
+   */
+  private buildReasoningConfig(): any {
+    if (!this.reasoning) {
+      return null;
+    }
+
+    // If reasoning is just a boolean (legacy mode)
+    if (typeof this.reasoning === 'boolean') {
+      return { enabled: true };
+    }
+
+    // Build configuration object
+    const config: any = {};
+
+    // Handle enabled flag
+    if (this.reasoning.enabled !== undefined) {
+      config.enabled = this.reasoning.enabled;
+    }
+
+    // Handle effort level (OpenAI-style)
+    if (this.reasoning.effort) {
+      config.effort = this.reasoning.effort;
+    }
+
+    // Handle max_tokens (Anthropic-style)
+    if (this.reasoning.max_tokens) {
+      config.max_tokens = this.reasoning.max_tokens;
+    }
+
+    // Handle exclude flag
+    if (this.reasoning.exclude !== undefined) {
+      config.exclude = this.reasoning.exclude;
+    }
+
+    // If no specific configuration is provided, enable with defaults
+    if (Object.keys(config).length === 0) {
+      config.enabled = true;
+    }
+
+    return config;
+  }
+}
@@ -1,19 +1,10 @@
-import OpenAI from 'openai';
 import { logger } from '../logger.js';
+import { LlmProvider, LlmMessage, LlmTool, ReasoningConfig } from './llm-provider.js';
+import { LlmProviderFactory } from './llm-provider-factory.js';
+import { TemplateUtil } from '../utils/template-util.js';
+import { TokenUsage } from '../utils/output-util.js';
 
-/**
- * Reasoning configuration options
- */
-export interface ReasoningConfig {
-  /** Enable reasoning with default parameters */
-  enabled?: boolean;
-  /** Reasoning effort level (OpenAI-style) */
-  effort?: 'high' | 'medium' | 'low';
-  /** Maximum reasoning tokens (Anthropic-style) */
-  max_tokens?: number;
-  /** Exclude reasoning tokens from response */
-  exclude?: boolean;
-}
+export type { ReasoningConfig } from './llm-provider.js';
 
 /**
  * Result of AI-generated commit information
@@ -23,6 +14,8 @@ export interface CommitGenerationResult {
   branch: string;
   description: string;
   title: string;
+  /** Suggested MR labels, chosen from GenerationContext.labels */
+  labels?: string[];
 }
 
 /**
@@ -89,19 +82,104 @@ interface BatchGenerationResult {
   description: string;
   /** Optional merge request title */
   title: string;
+  /** Suggested merge request labels */
+  labels?: string[];
+}
+
+/**
+ * Repository-specific prompt customization
+ */
+export interface PromptTemplates {
+  /** System prompt template, replaces the built-in system prompt */
+  systemTemplate?: string;
+  /** User prompt template, replaces the built-in user prompt */
+  userTemplate?: string;
+  /** MR description section headings, replaces "What Changed / Why / How to Test" */
+  mrSections?: string[];
+  /** Additional MR title rules (e.g. issue key prefix), may use template variables */
+  titleInstructions?: string;
 }
 
+/**
+ * Additional context for commit information generation
+ */
+export interface GenerationContext {
+  /** Current branch name, available to prompt templates as {{branch}} */
+  branch?: string;
+  /** Repository MR/PR description template, available to prompt templates as {{mrTemplate}} */
+  mrTemplate?: string;
+  /** Project labels the model may suggest for the MR, available to prompt templates as {{labels}} */
+  labels?: string[];
+}
 
+/**
+ * Structured output tool the model is asked to call
+ */
+const OUTPUT_WITH_JSON_TOOL: LlmTool = {
+  name: "output_with_json",
+  description: "Output the analyzed Git commit information in structured JSON format",
+  parameters: {
+    type: "object",
+    properties: {
+      commit: {
+        type: "string",
+        description: "The generated commit message"
+      },
+      branch: {
+        type: "string",
+        description: "The generated branch name"
+      },
+      description: {
+        type: "string",
+        description: "The generated merge request description"
+      },
+      title: {
+        type: "string",
+        description: "The generated merge request title"
+      }
+    },
+    required: ["commit", "branch", "description", "title"],
+    additionalProperties: false
+  }
+};
 
-// Using OpenAI SDK types directly, no need for custom interfaces
+/**
+ * Build the structured output tool, adding a labels parameter constrained to the project labels
+ * @param labels Project labels the model may choose from
+ * @returns Output tool
+ */
+function buildOutputTool(labels: string[] = []): LlmTool {
+  if (labels.length === 0) {
+    return OUTPUT_WITH_JSON_TOOL;
+  }
+  return {
+    ...OUTPUT_WITH_JSON_TOOL,
+    parameters: {
+      ...OUTPUT_WITH_JSON_TOOL.parameters,
+      properties: {
+        ...(OUTPUT_WITH_JSON_TOOL.parameters.properties as Record<string, unknown>),
+        labels: {
+          type: "array",
+          description: "Labels for the merge request, chosen from the project's labels (may be empty)",
+          items: {
+            type: "string",
+            enum: labels
+          }
+        }
+      }
+    }
+  };
+}
 
 /**
- * OpenAI API service for generating commit message and branch name
+ * AI service for generating commit message and branch name.
+ * Requests are sent through a pluggable LLM provider (OpenAI-compatible, Anthropic or Ollama).
  */
 export class OpenAiService {
-  private readonly client: OpenAI;
+  private readonly provider: LlmProvider;
   private readonly model: string;
   private readonly reasoning: boolean | ReasoningConfig;
+  private readonly prompts: PromptTemplates;
 
   /** Cache for storing detected context limits by model name */
   private static readonly contextLimitCache = new Map<string, number>();
@@ -112,31 +190,30 @@ export class OpenAiService {
   /** History of throughput statistics (limited to last 10 requests) */
   private throughputHistory: ThroughputStats[] = [];
 
-  constructor(apiKey: string, apiUrl: string, model: string, reasoning: boolean | ReasoningConfig = false) {
+  /** Token usage summed over all requests */
+  private totalUsage: TokenUsage = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  constructor(
+    apiKey: string,
+    apiUrl: string,
+    model: string,
+    reasoning: boolean | ReasoningConfig = false,
+    provider: string = 'openai',
+    prompts: PromptTemplates = {}
+  ) {
     this.model = model;
     this.reasoning = reasoning;
+    this.prompts = prompts;
     
-    // Initialize OpenAI client
-    this.client = new OpenAI({
-      apiKey: apiKey,
-      baseURL: apiUrl.endsWith('/chat/completions') 
-        ? apiUrl.replace('/chat/completions', '') 
-        : apiUrl.endsWith('/') 
-          ? apiUrl.slice(0, -1) 
-          : apiUrl
-      ,
-      maxRetries: 3,
-      timeout: 300000,
-      defaultHeaders: {
-        'HTTP-Referer': 'https://github.com/HeiSir2014/git-aiflow',
-        'X-Title': 'Git-AIFlow',
-      },
-    });
+    // Initialize LLM provider
+    this.provider = LlmProviderFactory.create(provider, apiKey, apiUrl, model, reasoning);
     
     logger.info(`Initialized OpenAI service`, { 
-      baseURL: this.client.baseURL, 
+      provider: this.provider.getProviderName(),
+      baseURL: this.provider.getBaseUrl(), 
       model: this.model, 
-      reasoning: this.reasoning 
+      reasoning: this.reasoning,
+      customPrompts: Boolean(this.prompts.systemTemplate || this.prompts.userTemplate || this.prompts.mrSections?.length)
     });
   }
 
@@ -146,9 +223,10 @@ export class OpenAiService {
    * 
    * @param diff The git diff content to analyze
    * @param language Language code for generated content (default: 'en')
+   * @param context Additional context exposed to prompt templates
    * @returns Promise resolving to commit generation result
    */
-  async generateCommitAndBranch(diff: string, language: string = 'en'): Promise<CommitGenerationResult> {
+  async generateCommitAndBranch(diff: string, language: string = 'en', context: GenerationContext = {}): Promise<CommitGenerationResult> {
     try {
       // Input validation
       if (!diff || !diff.trim()) {
@@ -191,7 +269,7 @@ export class OpenAiService {
       // Use direct processing for small diffs
       if (diffTokens <= availableTokens) {
         logger.debug('Using direct processing mode');
-        return await this.generateDirectCommitAndBranch(diff, language);
+        return await this.generateDirectCommitAndBranch(diff, language, context);
       }
 
       // Use batch processing for large diffs
@@ -221,7 +299,7 @@ export class OpenAiService {
         const chunk = diffChunks[i];
         try {
           logger.info(`Processing batch ${i + 1}/${diffChunks.length} containing ${chunk.files.length} files`);
-          const result = await this.generateBatchCommitAndBranch(chunk, language);
+          const result = await this.generateBatchCommitAndBranch(chunk, language, context);
           batchResults.push(result);
         } catch (error) {
           logger.error(`Failed to process batch ${i + 1}:`, error);
@@ -238,7 +316,7 @@ export class OpenAiService {
       }
 
       // Merge batch results
-      return await this.mergeBatchResults(batchResults, language);
+      return await this.mergeBatchResults(batchResults, language, context);
 
     } catch (error) {
       logger.error('Failed to generate commit information:', error);
@@ -247,15 +325,30 @@ export class OpenAiService {
   }
 
   /**
-   * Process diff directly using original logic for small diffs.
+   * Ask the model to correct a commit message that violates the repository's commit lint rules.
    * 
-   * @param diff The git diff content to analyze
-   * @param language Language code for generated content
-   * @returns Promise resolving to commit generation result
+   * @param generated Previously generated commit information
+   * @param violations Rule violations of the commit message
+   * @param rules Description of the commit lint rules
+   * @param language Language code for generated content (default: 'en')
+   * @returns Promise resolving to the corrected commit generation result
    */
-  private async generateDirectCommitAndBranch(diff: string, language: string): Promise<CommitGenerationResult> {
-    const systemPrompt = this.buildSystemPrompt(language);
-    const userPrompt = this.buildUserPrompt();
+  async correctCommitMessage(
+    generated: CommitGenerationResult,
+    violations: string[],
+    rules: string,
+    language: string = 'en'
+  ): Promise<CommitGenerationResult> {
+    const systemPrompt = `You are a Git commit message expert. A generated commit message violates the repository's commit lint rules and would be rejected by the server.
+
+Rewrite the commit message so that it satisfies ALL of these rules, keeping its meaning:
+${rules}
+
+Generate content in ${this.getLanguageName(language)} language (except branch name must be in English).
+Keep the branch, description and title unchanged, unless the title repeats the commit header, then apply the same correction to it.
+
+IMPORTANT: You MUST use the 'output_with_json' function tool to provide your result with the four required parameters: commit, branch, description, title.
+Do NOT provide JSON in text format - use the function tool only.`;
 
     const messages = [
       {
@@ -264,22 +357,46 @@ export class OpenAiService {
       },
       {
         role: "user",
-        content: userPrompt
-      },
-      {
-        role: "user",
-        content: diff
+        content: `Commit lint violations:
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+Current result:
+${JSON.stringify(generated, null, 2)}`
       }
     ];
 
     const rawContent = await this.sendOpenAiRequest(messages, true);
+    const content = this.parseOpenAiResponse(rawContent, 'commit message correction');
+
+    return {
+      commit: content.commit || generated.commit,
+      branch: content.branch || generated.branch,
+      description: content.description || generated.description,
+      title: content.title || generated.title,
+      labels: generated.labels
+    };
+  }
+
+  /**
+   * Process diff directly using original logic for small diffs.
+   * 
+   * @param diff The git diff content to analyze
+   * @param language Language code for generated content
+   * @param context Additional context exposed to prompt templates
+   * @returns Promise resolving to commit generation result
+   */
+  private async generateDirectCommitAndBranch(diff: string, language: string, context: GenerationContext): Promise<CommitGenerationResult> {
+    const messages = this.buildPromptMessages(diff, language, context);
+
+    const rawContent = await this.sendOpenAiRequest(messages, true, context.labels);
     const content = this.parseOpenAiResponse(rawContent, 'direct processing');
 
     return {
       commit: content.commit,
       branch: content.branch,
       description: content.description || '',
-      title: content.title || (content.commit && content.commit.replace(/\r|\n/g, '').trim().substring(0, 50)) || ''
+      title: content.title || (content.commit && content.commit.replace(/\r|\n/g, '').trim().substring(0, 50)) || '',
+      labels: this.filterLabels(content.labels, context.labels)
     } as CommitGenerationResult;
   }
 
@@ -341,8 +458,7 @@ export class OpenAiService {
       // Create a test prompt that approaches but doesn't exceed the limit
       const testTokens = Math.floor(contextLimit * 0.8); // Use 80% of limit for safety
       const testContent = 'x'.repeat(testTokens * 4); // Approximate 4 chars per token
-      const testBody = {
-        model: this.model,
+      const response = await this.provider.chat({
         messages: [
           {
             role: "system",
@@ -353,18 +469,12 @@ export class OpenAiService {
             content: `Test message: ${testContent.substring(0, Math.min(testContent.length, 1000))}...` // Truncate for logging
           }
         ],
-        max_tokens: 10, // Minimal response
-        temperature: 0,
-        extra_body: {
-          usage: {
-            include: true,
-          },
-        }
-      } as any;
-      const response = await this.client.chat.completions.create(testBody);
+        maxTokens: 10, // Minimal response
+        temperature: 0
+      });
 
       // If we get a response, the context limit is supported
-      return response.choices && response.choices.length > 0;
+      return response.content !== undefined || response.toolArguments !== undefined;
     } catch (error: any) {
       // Check if error is context-related
       const errorMessage = error.message?.toLowerCase() || '';
@@ -763,42 +873,28 @@ export class OpenAiService {
    * 
    * @param diffChunk Diff chunk content with metadata
    * @param language Language code for generated content
+   * @param context Additional context exposed to prompt templates
    * @returns Promise resolving to batch generation result
    */
-  private async generateBatchCommitAndBranch(diffChunk: DiffChunk, language: string): Promise<BatchGenerationResult> {
+  private async generateBatchCommitAndBranch(diffChunk: DiffChunk, language: string, context: GenerationContext): Promise<BatchGenerationResult> {
     const MAX_DISPLAYED_FILES = 3;
     const filesInfo = diffChunk.files.length > 1
       ? `involving ${diffChunk.files.length} files: ${diffChunk.files.slice(0, MAX_DISPLAYED_FILES).join(', ')}${diffChunk.files.length > MAX_DISPLAYED_FILES ? ' etc.' : ''}`
       : `file: ${diffChunk.files[0] || 'unknown'}`;
 
-    const systemPrompt = this.buildSystemPrompt(language, filesInfo);
-    const userPrompt = this.buildUserPrompt(filesInfo);
-
-    const messages = [
-      {
-        role: "system",
-        content: systemPrompt
-      },
-      {
-        role: "user",
-        content: userPrompt
-      },
-      {
-        role: "user",
-        content: diffChunk.content
-      }
-    ];
+    const messages = this.buildPromptMessages(diffChunk.content, language, context, filesInfo);
 
     logger.debug(`Generating commit info for diff chunk containing ${diffChunk.files.length} files`);
 
-    const rawContent = await this.sendOpenAiRequest(messages, true);
+    const rawContent = await this.sendOpenAiRequest(messages, true, context.labels);
     const content = this.parseOpenAiResponse(rawContent, 'batch processing');
 
     return {
       commit: content.commit,
       branch: content.branch,
       description: content.description || '',
-      title: content.title
+      title: content.title,
+      labels: this.filterLabels(content.labels, context.labels)
     };
   }
 
@@ -807,19 +903,24 @@ export class OpenAiService {
    * 
    * @param batchResults Array of batch generation results
    * @param language Language code for generated content
+   * @param context Additional context for the MR description layout
    * @returns Promise resolving to merged final result
    */
-  private async mergeBatchResults(batchResults: BatchGenerationResult[], language: string): Promise<CommitGenerationResult> {
+  private async mergeBatchResults(batchResults: BatchGenerationResult[], language: string, context: GenerationContext): Promise<CommitGenerationResult> {
     if (batchResults.length === 1) {
       // If only one batch, return directly
       return {
         commit: batchResults[0].commit,
         branch: batchResults[0].branch,
         description: batchResults[0].description,
-        title: batchResults[0].title
+        title: batchResults[0].title,
+        labels: batchResults[0].labels
       };
     }
 
+    // Labels of all batches apply to the whole change
+    const labels = [...new Set(batchResults.flatMap(result => result.labels || []))];
+
     // Multiple batches need merging
     logger.info(`Merging results from ${batchResults.length} batches`);
 
@@ -833,7 +934,9 @@ Merging Rules:
 4. MR Title: Merge all partial titles into a comprehensive MR title
 
 Generate content in ${this.getLanguageName(language)} language (except branch name must be in English).
-
+${this.prompts.mrSections?.length
+  ? `The MR description MUST keep exactly these sections in this order: ${this.prompts.mrSections.join(', ')}.\n`
+  : context.mrTemplate ? `The MR description MUST follow the repository's MR template (keep its headings, order and checklist items):\n${context.mrTemplate}\n` : ''}
 IMPORTANT: You MUST use the 'output_with_json' function tool to provide your merged results. Call the function with the four required parameters:
 - commit: Your merged commit message
 - branch: Your merged branch name (in English)
@@ -872,7 +975,8 @@ ${batchSummaries}`,
         commit: content.commit,
         branch: content.branch,
         description: content.description || '',
-        title: content.title || ''
+        title: content.title || '',
+        labels
       };
     } catch (error) {
       logger.error(`Failed to parse merge AI response:`, rawContent);
@@ -890,7 +994,8 @@ ${batchSummaries}`,
         commit: primaryResult.commit,
         branch: primaryResult.branch,
         description: allDescriptions || primaryResult.description,
-        title: primaryResult.title
+        title: primaryResult.title,
+        labels
       };
     }
   }
@@ -955,123 +1060,48 @@ ${batchSummaries}`,
   }
 
   /**
-   * Send request to OpenAI API with tool support
+   * Send request to the LLM provider with tool support
    * 
    * @param messages Array of messages for the API request
    * @param useTools Whether to include output_with_json tool (default: true)
+   * @param labels Project labels the output tool may suggest
    * @returns Promise resolving to the raw response content or parsed tool call result
    */
-  private async sendOpenAiRequest(messages: Array<{ role: string, content: string }>, useTools: boolean = true): Promise<string> {
-    const requestParams: OpenAI.Chat.ChatCompletionCreateParams = {
-      model: this.model,
-      messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
-      temperature: 0.1
-    };
-
-    (requestParams as any).extra_body = {
-      usage: {
-        include: true,
-      },
-    };
-
-    // Add reasoning support for compatible models (if supported by the API)
-    if (this.reasoning) {
-      const reasoningConfig = this.buildReasoningConfig();
-      if (reasoningConfig) {
-        (requestParams as any).reasoning = reasoningConfig;
-        logger.debug(`Enabling reasoning mode for model: ${this.model}`, { config: reasoningConfig });
-      }
-    }
-
-    // Add tools and tool_choice if requested
-    if (useTools) {
-      requestParams.tools = [{
-        type: "function",
-        function: {
-          name: "output_with_json",
-          description: "Output the analyzed Git commit information in structured JSON format",
-          parameters: {
-            type: "object",
-            properties: {
-              commit: {
-                type: "string",
-                description: "The generated commit message"
-              },
-              branch: {
-                type: "string",
-                description: "The generated branch name"
-              },
-              description: {
-                type: "string",
-                description: "The generated merge request description"
-              },
-              title: {
-                type: "string",
-                description: "The generated merge request title"
-              }
-            },
-            required: ["commit", "branch", "description", "title"],
-            additionalProperties: false
-          }
-        }
-      }];
-      requestParams.tool_choice = {
-        type: "function",
-        function: {
-          name: "output_with_json"
-        }
-      };
-    }
-
-    logger.debug(`OpenAI request params:`, requestParams);
+  private async sendOpenAiRequest(messages: Array<{ role: string, content: string }>, useTools: boolean = true, labels: string[] = []): Promise<string> {
+    const providerName = this.provider.getProviderName();
 
     // Record start time for throughput calculation
     const requestStartTime = Date.now();
-    const response = await this.client.chat.completions.create(requestParams);
+    const response = await this.provider.chat({
+      messages: messages as LlmMessage[],
+      tool: useTools ? buildOutputTool(labels) : undefined,
+      temperature: 0.1
+    });
     const requestEndTime = Date.now();
 
-    if (!response.choices || response.choices.length === 0) {
-      throw new Error("No valid response received from OpenAI API, response.choices is empty");
-    }
-
-    const message = response.choices[0].message;
-    if (!message) {
-      throw new Error("No valid response received from OpenAI API, message is empty");
-    }
-
-    const finishReason = response.choices[0].finish_reason;
-    logger.debug(`OpenAI response finish reason: ${finishReason && finishReason.toUpperCase() || '<none>'}`);
-    logger.info(`OpenAI response usage:`, response.usage);
-    logger.debug(`OpenAI response message:`, message);
+    logger.debug(`${providerName} response finish reason: ${response.finishReason && response.finishReason.toUpperCase() || '<none>'}`);
+    logger.info(`${providerName} response usage:`, response.usage);
 
     // Calculate and log throughput statistics
     this.logThroughputStats(response.usage, requestStartTime, requestEndTime);
     
     // Check if response contains tool calls (preferred method)
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      if (message.content && message.content.trim() !== '') {
-        logger.warn(`OpenAI tool call response: content is not empty, content: ${message.content}`);
-      }
-      const toolCall = message.tool_calls[0];
-      if (toolCall.type === 'function' && toolCall.function) {
-        if (toolCall.function.name === "output_with_json") {
-          logger.debug(`OpenAI tool call response: ${toolCall.function.arguments}`);
-          return toolCall.function.arguments;
-        }
-        else {
-          logger.warn(`OpenAI tool call response: function: ${toolCall.function.name} is not supported, arguments: ${toolCall.function.arguments}`);
-        }
+    if (response.toolArguments) {
+      if (response.content && response.content.trim() !== '') {
+        logger.warn(`${providerName} tool call response: content is not empty, content: ${response.content}`);
       }
+      logger.debug(`${providerName} tool call response: ${response.toolArguments}`);
+      return response.toolArguments;
     }
 
     // Fallback to content for models that don't support tool_choice
-    const rawContent = message.content;
+    const rawContent = response.content;
     if (rawContent) {
-      logger.debug(`OpenAI content response: ${rawContent}`);
+      logger.debug(`${providerName} content response: ${rawContent}`);
       return rawContent;
     }
 
-    throw new Error("No valid response received from OpenAI API");
+    throw new Error(`No valid response received from ${providerName} API`);
   }
 
   /**
@@ -1132,18 +1162,148 @@ ${batchSummaries}`,
     }
   }
 
+  /**
+   * Keep only suggested labels that exist in the project, using the project's spelling.
+   * Models without tool support may not respect the label enum.
+   * 
+   * @param suggested Labels returned by the model
+   * @param allowed Project labels
+   * @returns Valid labels
+   */
+  private filterLabels(suggested: unknown, allowed: string[] = []): string[] {
+    if (!Array.isArray(suggested) || allowed.length === 0) {
+      return [];
+    }
+    const allowedByName = new Map(allowed.map(label => [label.toLowerCase(), label]));
+    const labels = suggested
+      .filter((label): label is string => typeof label === 'string')
+      .map(label => allowedByName.get(label.trim().toLowerCase()))
+      .filter((label): label is string => Boolean(label));
+    return [...new Set(labels)];
+  }
+
+  /**
+   * Build the prompt messages for a diff, using the configured templates when present.
+   * The diff is sent as a separate message unless a template embeds it via {{diff}}.
+   * 
+   * @param diff The git diff content to analyze
+   * @param language Target language for generated content
+   * @param context Additional context exposed to prompt templates
+   * @param contextInfo Optional context information for partial diffs
+   * @returns Chat messages
+   */
+  private buildPromptMessages(diff: string, language: string, context: GenerationContext, contextInfo?: string): LlmMessage[] {
+    const variables = {
+      language: this.getLanguageName(language),
+      contextInfo: contextInfo || '',
+      diff,
+      branch: context.branch || '',
+      mrTemplate: context.mrTemplate || '',
+      labels: (context.labels || []).join(', ')
+    };
+
+    const systemPrompt = this.prompts.systemTemplate
+      ? TemplateUtil.render(this.prompts.systemTemplate, variables)
+      : this.buildSystemPrompt(language, contextInfo, variables, context.mrTemplate, context.labels);
+    const userPrompt = this.prompts.userTemplate
+      ? TemplateUtil.render(this.prompts.userTemplate, variables)
+      : this.buildUserPrompt(contextInfo);
+
+    const messages: LlmMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt }
+    ];
+
+    const diffEmbedded = [this.prompts.systemTemplate, this.prompts.userTemplate]
+      .some(template => template && TemplateUtil.hasVariable(template, 'diff'));
+    if (!diffEmbedded) {
+      messages.push({ role: "user", content: diff });
+    }
+
+    return messages;
+  }
+
+  /**
+   * Build the MR description section layout for the system prompt.
+   * Configured sections take precedence over the repository MR template,
+   * which takes precedence over the built-in sections.
+   * 
+   * @param languageName Target language display name
+   * @param mrTemplate Optional repository MR/PR description template
+   * @returns Section layout instructions
+   */
+  private buildMrSectionsPrompt(languageName: string, mrTemplate?: string): string {
+    const sections = this.prompts.mrSections?.filter(section => section.trim()) || [];
+    if (sections.length === 0 && mrTemplate) {
+      return `   Fill in the repository's MR template below instead of using your own headings:
+   - Keep the template headings, their order and all checklist items exactly as written
+   - Replace placeholder text and HTML comments with content based on the diff analysis
+   - Check checklist items ("- [x]") only when the diff clearly satisfies them, leave the others unchecked
+   - Write the content in ${languageName}, but do not translate or rename the template headings
+   - Output MR DESCRIPTION in proper Markdown format, using natural line breaks and paragraphs. Do not escape any characters like newlines (\\n).
+
+   MR TEMPLATE:
+   -----
+${mrTemplate}
+   -----`;
+    }
+
+    if (sections.length === 0) {
+      return `   Structure with these sections:
+   ## What Changed
+   - List specific changes made (based on diff analysis)
+
+   ## Why
+   - Explain the reason/purpose for these changes
+
+   ## How to Test
+   - Provide relevant testing instructions
+
+  Use markdown formatting, be specific and factual.
+   **IMPORTANT:** 
+   - The section headings (e.g., 'What Changed', 'Why', 'How to Test') MUST also be translated and output in ${languageName}, not just the content under them.
+   - Output MR DESCRIPTION in proper Markdown format, using natural line breaks and paragraphs. Do not escape any characters like newlines (\\n).​
+   **EXAMPLE FOR CHINESE (Simplified):** 
+   - Use '## 变更内容' instead of '## What Changed'
+   - Use '## 变更原因' instead of '## Why'
+   - Use '## 测试方法' instead of '## How to Test'`;
+    }
+
+    return `   Structure with EXACTLY these sections, in this order:
+${sections.map(section => `   ## ${section.trim()}\n   - Provide the ${section.trim()} content based on the diff analysis`).join('\n\n')}
+
+  Use markdown formatting, be specific and factual.
+   **IMPORTANT:** 
+   - The section headings MUST also be translated and output in ${languageName}, not just the content under them.
+   - Output MR DESCRIPTION in proper Markdown format, using natural line breaks and paragraphs. Do not escape any characters like newlines (\\n).​`;
+  }
+
   /**
    * Build system prompt for commit analysis
    * 
    * @param language Target language for generated content
    * @param contextInfo Optional context information for partial diffs
+   * @param variables Template variables for the configured title instructions
+   * @param mrTemplate Optional repository MR/PR description template
+   * @param labels Optional project labels the model may suggest
    * @returns System prompt string
    */
-  private buildSystemPrompt(language: string, contextInfo?: string): string {
+  private buildSystemPrompt(language: string, contextInfo?: string, variables: Record<string, string> = {}, mrTemplate?: string, labels: string[] = []): string {
     const languageName = this.getLanguageName(language);
     const contextSection = contextInfo
       ? `CONTEXT: This is a partial diff (${contextInfo}). Analyze ONLY the changes visible in this specific portion.\n\n`
       : '';
+    const titleInstructions = this.prompts.titleInstructions
+      ? `\n   - ${TemplateUtil.render(this.prompts.titleInstructions, variables)}`
+      : '';
+    const labelsSection = labels.length > 0
+      ? `\n\n5. MR LABELS:
+   - Choose the labels that describe the change, ONLY from this list: ${labels.join(', ')}
+   - Use the label names exactly as written, an empty list is fine if none apply`
+      : '';
+    const labelsParameter = labels.length > 0
+      ? `\n- labels: Your chosen MR labels (array of strings)`
+      : '';
 
     return `You are an expert Git commit analyzer. Your task is to analyze the provided git diff and generate accurate, professional commit information.
 
@@ -1180,28 +1340,11 @@ OUTPUT REQUIREMENTS:
    - NO deviations from this format
 
 3. MR DESCRIPTION (generate in ${languageName}):
-   Structure with these sections:
-   ## What Changed
-   - List specific changes made (based on diff analysis)
-
-   ## Why
-   - Explain the reason/purpose for these changes
-
-   ## How to Test
-   - Provide relevant testing instructions
-
-  Use markdown formatting, be specific and factual.
-   **IMPORTANT:** 
-   - The section headings (e.g., 'What Changed', 'Why', 'How to Test') MUST also be translated and output in ${languageName}, not just the content under them.
-   - Output MR DESCRIPTION in proper Markdown format, using natural line breaks and paragraphs. Do not escape any characters like newlines (\\n).​
-   **EXAMPLE FOR CHINESE (Simplified):** 
-   - Use '## 变更内容' instead of '## What Changed'
-   - Use '## 变更原因' instead of '## Why'
-   - Use '## 测试方法' instead of '## How to Test'
+${this.buildMrSectionsPrompt(languageName, mrTemplate)}
 
 4. MR TITLE (generate in ${languageName}):
    - Concise, descriptive title summarizing the change
-   - Use appropriate prefixes for maintenance changes
+   - Use appropriate prefixes for maintenance changes${titleInstructions}${labelsSection}
 
 CRITICAL OUTPUT FORMAT - READ CAREFULLY:
 You MUST use the 'output_with_json' function tool to provide your response. This tool is specifically designed for structured output.
@@ -1211,7 +1354,7 @@ Call the 'output_with_json' function with these exact parameters:
 - commit: Your generated commit message (string)
 - branch: Your generated branch name (string)
 - description: Your generated MR description (string)  
-- title: Your generated MR title (string)
+- title: Your generated MR title (string)${labelsParameter}
 
 IMPORTANT NOTES:
 - Always use the function tool \`output_with_json\` when system tool_call is available
@@ -1260,51 +1403,6 @@ OUTPUT REQUIREMENTS:
 The raw git diff output will be provided in the next user message.`;
   }
 
-  /**
-   * Build reasoning configuration based on the reasoning parameter
-   * @returns Reasoning configuration object or null
-   */
-  private buildReasoningConfig(): any {
-    if (!this.reasoning) {
-      return null;
-    }
-
-    // If reasoning is just a boolean (legacy mode)
-    if (typeof this.reasoning === 'boolean') {
-      return { enabled: true };
-    }
-
-    // Build configuration object
-    const config: any = {};
-
-    // Handle enabled flag
-    if (this.reasoning.enabled !== undefined) {
-      config.enabled = this.reasoning.enabled;
-    }
-
-    // Handle effort level (OpenAI-style)
-    if (this.reasoning.effort) {
-      config.effort = this.reasoning.effort;
-    }
-
-    // Handle max_tokens (Anthropic-style)
-    if (this.reasoning.max_tokens) {
-      config.max_tokens = this.reasoning.max_tokens;
-    }
-
-    // Handle exclude flag
-    if (this.reasoning.exclude !== undefined) {
-      config.exclude = this.reasoning.exclude;
-    }
-
-    // If no specific configuration is provided, enable with defaults
-    if (Object.keys(config).length === 0) {
-      config.enabled = true;
-    }
-
-    return config;
-  }
-
   /**
    * Get language display name for prompt
    */
@@ -1334,7 +1432,7 @@ The raw git diff output will be provided in the next user message.`;
 
   /**
    * Calculate and log throughput statistics, also cache the data
-   * @param usage OpenAI API usage statistics
+   * @param usage API usage statistics (OpenAI format, normalized by the provider)
    * @param startTime Request start time in milliseconds
    * @param endTime Request end time in milliseconds
    */
@@ -1407,6 +1505,13 @@ The raw git diff output will be provided in the next user message.`;
     // Cache the stats
     this.lastThroughputStats = stats;
     
+    this.totalUsage = {
+      requests: this.totalUsage.requests + 1,
+      promptTokens: this.totalUsage.promptTokens + promptTokens,
+      completionTokens: this.totalUsage.completionTokens + completionTokens,
+      totalTokens: this.totalUsage.totalTokens + totalTokens
+    };
+
     // Add to history (keep only last 10 entries)
     this.throughputHistory.push(stats);
     if (this.throughputHistory.length > 10) {
@@ -1446,6 +1551,14 @@ The raw git diff output will be provided in the next user message.`;
     return this.lastThroughputStats;
   }
 
+  /**
+   * Get the token usage summed over all requests, unlike the history it is not limited to the last 10 requests
+   * @returns Token usage
+   */
+  public getTotalUsage(): TokenUsage {
+    return { ...this.totalUsage };
+  }
+
   /**
    * Get throughput statistics history (up to last 10 requests)
    * @returns Array of throughput statistics, ordered from oldest to newest
@@ -1531,5 +1644,6 @@ The raw git diff output will be provided in the next user message.`;
   public clearThroughputStats(): void {
     this.lastThroughputStats = null;
     this.throughputHistory = [];
+    this.totalUsage = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
   }
 }
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import { GitAuthor, GitService } from './git-service.js';
+import { GitPlatformService, PlatformUser } from './git-platform-service.js';
+import { logger } from '../logger.js';
+
+/**
+ * CODEOWNERS rule
+ */
+export interface CodeOwnersRule {
+  /** File pattern (gitignore syntax) */
+  pattern: string;
+  /** Owners: @user, @org/team, @group/subgroup or email */
+  owners: string[];
+  /** GitLab section name, empty for rules outside of sections */
+  section: string;
+}
+
+/**
+ * Reviewer candidate with its score
+ */
+export interface ReviewerCandidate {
+  /** Identity used to look up the platform user (@user name or email) */
+  identity: string;
+  /** Display name */
+  name: string;
+  /** Score, higher is a better match */
+  score: number;
+  /** Number of changed files owned according to CODEOWNERS */
+  ownedFiles: number;
+  /** Number of changed lines last modified by the candidate */
+  authoredLines: number;
+}
+
+/**
+ * Recommended reviewer resolved to a platform user
+ */
+export interface RecommendedReviewer extends ReviewerCandidate {
+  user: PlatformUser;
+}
+
+/**
+ * Recommends reviewers for changed files from CODEOWNERS (GitHub/GitLab syntax)
+ * and the git authorship of the changed lines.
+ *
+ * Each changed file is worth the same number of points: owners listed in CODEOWNERS get
+ * OWNER_SCORE, and FILE_SCORE is shared among the authors of the changed lines (git blame),
+ * or among the authors of recent commits to the file (git log) when it has no blamable lines.
+ */
+export class ReviewerService {
+  /** CODEOWNERS locations, in the order GitHub and GitLab look them up */
+  static readonly CODEOWNERS_PATHS = ['.github/CODEOWNERS', '.gitlab/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+  private static readonly OWNER_SCORE = 10;
+  private static readonly FILE_SCORE = 10;
+  private static readonly LOG_LIMIT = 20;
+
+  constructor(
+    private readonly git: GitService,
+    private readonly platform: GitPlatformService
+  ) { }
+
+  /**
+   * Parse CODEOWNERS content
+   * @param content CODEOWNERS file content
+   * @returns Rules in file order
+   */
+  static parseCodeOwners(content: string): CodeOwnersRule[] {
+    const rules: CodeOwnersRule[] = [];
+    let section = '';
+    let sectionOwners: string[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      // GitLab sections: [Section], ^[Optional section], [Section][2] @default-owner
+      const sectionMatch = line.match(/^\^?\[([^\]]+)\](?:\[\d+\])?(.*)$/);
+      if (sectionMatch) {
+        section = sectionMatch[1].trim();
+        sectionOwners = ReviewerService.parseOwners(sectionMatch[2]);
+        continue;
+      }
+
+      // Patterns may contain escaped spaces ("\ ")
+      const [pattern, ...rest] = line.split(/(?<!\\)\s+/);
+      const owners = ReviewerService.parseOwners(rest.join(' '));
+      rules.push({ pattern: pattern.replace(/\\ /g, ' ').replace(/^\\#/, '#'), owners: owners.length > 0 ? owners : sectionOwners, section });
+    }
+    return rules;
+  }
+
+  /**
+   * Get the owners of a file.
+   * The last matching rule of each section applies; owners of all sections are combined.
+   * A matching rule without owners removes ownership (GitHub syntax).
+   * @param rules CODEOWNERS rules
+   * @param filePath File path relative to the repository root
+   * @returns Owners of the file
+   */
+  static getOwners(rules: CodeOwnersRule[], filePath: string): string[] {
+    const lastMatches = new Map<string, CodeOwnersRule>();
+    for (const rule of rules) {
+      if (ReviewerService.matchesPattern(rule.pattern, filePath)) {
+        lastMatches.set(rule.section, rule);
+      }
+    }
+    return [...new Set([...lastMatches.values()].flatMap(rule => rule.owners))];
+  }
+
+  /**
+   * Check whether a file matches a CODEOWNERS pattern (gitignore syntax)
+   * @param pattern File pattern, e.g. "*.ts", "/docs/", "src/**\/api"
+   * @param filePath File path relative to the repository root
+   */
+  static matchesPattern(pattern: string, filePath: string): boolean {
+    const directoryOnly = pattern.endsWith('/');
+    const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+    if (!trimmed) {
+      return false;
+    }
+    // Patterns with a slash (other than a trailing one) are relative to the repository root
+    const anchored = pattern.startsWith('/') || trimmed.includes('/');
+    // "docs/*" matches files directly in docs/, not in its subdirectories
+    const singleLevel = trimmed.endsWith('/*');
+
+    let regex = '';
+    for (let i = 0; i < trimmed.length; i++) {
+      const char = trimmed[i];
+      if (char === '*' && trimmed[i + 1] === '*') {
+        if (trimmed[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i++;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else {
+        regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    const suffix = singleLevel ? '$' : directoryOnly ? '/' : '(?:/|$)';
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${regex}${suffix}`).test(filePath.replace(/\\/g, '/'));
+  }
+
+  /**
+   * Rank reviewer candidates for the changed files
+   * @param files Changed files relative to the repository root
+   * @param baseRef Commit the branch changes are compared against, staged changes are used if empty
+   * @returns Candidates, best match first
+   */
+  rankCandidates(files: string[], baseRef?: string): ReviewerCandidate[] {
+    const rules = this.loadCodeOwners();
+    const candidates = new Map<string, ReviewerCandidate>();
+    const add = (identity: string, name: string, score: number, ownedFiles: number, authoredLines: number) => {
+      const key = identity.replace(/^@/, '').toLowerCase();
+      const candidate = candidates.get(key) || { identity, name, score: 0, ownedFiles: 0, authoredLines: 0 };
+      candidate.score += score;
+      candidate.ownedFiles += ownedFiles;
+      candidate.authoredLines += authoredLines;
+      candidates.set(key, candidate);
+    };
+
+    for (const file of files) {
+      for (const owner of ReviewerService.getOwners(rules, file)) {
+        // Teams and groups cannot be requested as individual reviewers
+        if (owner.startsWith('@') && (owner.includes('/') || owner.startsWith('@@'))) {
+          logger.debug(`Skipping CODEOWNERS team/group ${owner} for ${file}`);
+          continue;
+        }
+        add(owner, owner.replace(/^@/, ''), ReviewerService.OWNER_SCORE, 1, 0);
+      }
+
+      const lineAuthors = this.git.getLineAuthors(file, this.git.getChangedLineRanges(file, baseRef), baseRef || 'HEAD');
+      const authors = lineAuthors.length > 0 ? lineAuthors : this.getRecentAuthors(file, baseRef);
+      for (const author of authors) {
+        add(author.email, author.name, ReviewerService.FILE_SCORE / authors.length, 0, lineAuthors.length > 0 ? 1 : 0);
+      }
+    }
+
+    return [...candidates.values()].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Recommend reviewers for the changed files, resolved to platform users
+   * @param files Changed files relative to the repository root
+   * @param count Maximum number of reviewers
+   * @param baseRef Commit the branch changes are compared against, staged changes are used if empty
+   * @returns Reviewers, best match first; excludes the author of the change
+   */
+  async recommend(files: string[], count: number, baseRef?: string): Promise<RecommendedReviewer[]> {
+    const authorEmail = this.git.getUserEmail().toLowerCase();
+    const author = authorEmail ? await this.platform.resolveUser(authorEmail) : null;
+
+    const reviewers: RecommendedReviewer[] = [];
+    for (const candidate of this.rankCandidates(files, baseRef)) {
+      if (reviewers.length >= count) {
+        break;
+      }
+      if (candidate.identity.toLowerCase() === authorEmail) {
+        continue;
+      }
+      const user = await this.platform.resolveUser(candidate.identity);
+      if (!user) {
+        logger.debug(`No ${this.platform.getPlatformName()} user found for reviewer candidate ${candidate.identity}`);
+        continue;
+      }
+      if (user.id === author?.id || reviewers.some(reviewer => reviewer.user.id === user.id)) {
+        continue;
+      }
+      reviewers.push({ ...candidate, user });
+    }
+    return reviewers;
+  }
+
+  /**
+   * Read the repository's CODEOWNERS file
+   * @returns Rules, empty if the repository has no CODEOWNERS file
+   */
+  private loadCodeOwners(): CodeOwnersRule[] {
+    const repoRoot = this.git.getRepositoryRoot();
+    for (const codeOwnersPath of ReviewerService.CODEOWNERS_PATHS) {
+      const fullPath = path.join(repoRoot, codeOwnersPath);
+      if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+        logger.debug(`Using CODEOWNERS file: ${codeOwnersPath}`);
+        return ReviewerService.parseCodeOwners(fs.readFileSync(fullPath, 'utf8'));
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Get the authors of recent commits to a file, or to its directory for new files
+   * @param file File path relative to the repository root
+   * @param ref Commit to start from (default: HEAD)
+   */
+  private getRecentAuthors(file: string, ref?: string): GitAuthor[] {
+    const authors = this.git.getFileAuthors(file, ReviewerService.LOG_LIMIT, ref);
+    const directory = path.posix.dirname(file);
+    if (authors.length > 0 || directory === '.') {
+      return authors;
+    }
+    return this.git.getFileAuthors(directory, ReviewerService.LOG_LIMIT, ref);
+  }
+
+  /**
+   * Parse the owners of a CODEOWNERS line, ignoring trailing comments
+   * @param text Owners text
+   */
+  private static parseOwners(text: string): string[] {
+    const owners: string[] = [];
+    for (const token of text.trim().split(/\s+/)) {
+      if (!token) {
+        continue;
+      }
+      if (token.startsWith('#')) {
+        break;
+      }
+      owners.push(token);
+    }
+    return owners;
+  }
+}
@@ -0,0 +1,66 @@
+import { logger } from '../logger.js';
+import { MergeRequestNotice, Notifier, NotifierType } from './notifier.js';
+
+/**
+ * Slack incoming webhook notifier service
+ */
+export class SlackNotifier extends Notifier {
+  /** Slack rejects section texts longer than 3000 characters */
+  private static readonly MAX_COMMIT_LENGTH = 2500;
+
+  constructor(webhook: string) {
+    super(webhook);
+    logger.info('SlackNotifier initialized');
+  }
+
+  getNotifierName(): NotifierType {
+    return 'slack';
+  }
+
+  /**
+   * Build the Block Kit webhook payload for a merge request notice
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the Slack webhook
+   */
+  buildMergeRequestNoticePayload(notice: MergeRequestNotice): { text: string; blocks: object[] } {
+    const { branch, target, mrUrl, title, changedFiles } = notice;
+    const commit = notice.commit.length > SlackNotifier.MAX_COMMIT_LENGTH
+      ? `${notice.commit.substring(0, SlackNotifier.MAX_COMMIT_LENGTH)}…`
+      : notice.commit;
+    const files = this.listChangedFiles(
+      changedFiles,
+      file => `• ${SlackNotifier.escape(file)}`,
+      count => `…and ${count} more files`
+    );
+
+    return {
+      // Fallback text for notifications and clients without Block Kit support
+      text: `🎉 Merge request ready for review: ${title} ${mrUrl}`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `🎉 *Merge request ready for review*\n*<${mrUrl}|${SlackNotifier.escape(title)}>*\n🌿 \`${branch}\` → \`${target}\``
+          }
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `📝 *Commit message*\n\`\`\`${SlackNotifier.escape(commit)}\`\`\`` }
+        },
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `📁 *Changed files* (${changedFiles.length})\n${files}` }
+        }
+      ]
+    };
+  }
+
+  /**
+   * Escape the control characters of Slack mrkdwn
+   * @param text Plain text
+   */
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
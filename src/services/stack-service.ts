@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logger.js';
+
+/**
+ * Branch of a merge request stack
+ */
+export interface StackEntry {
+  /** Branch name */
+  branch: string;
+  /** Branch the merge request targets (another stack branch, or e.g. main for the bottom of the stack) */
+  parent: string;
+  /** Parent commit the branch is based on, used to rebase only the branch's own commits */
+  base?: string;
+  /** Merge request URL */
+  mrUrl?: string;
+  /** Creation time (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Content of the stack file
+ */
+interface StackFile {
+  branches: StackEntry[];
+}
+
+/**
+ * Records stacked (dependent) merge requests in .git/aiflow/stack.json.
+ * The file lives in the git directory so that it never shows up as a change of the work tree.
+ */
+export class StackService {
+  /** Stack file path, relative to the common git directory */
+  static readonly STACK_FILE = path.join('aiflow', 'stack.json');
+
+  /** Absolute stack file path */
+  readonly filePath: string;
+
+  /**
+   * @param gitCommonDir Git directory shared by all worktrees (git rev-parse --git-common-dir)
+   */
+  constructor(gitCommonDir: string) {
+    this.filePath = path.join(gitCommonDir, StackService.STACK_FILE);
+  }
+
+  /**
+   * Get all stack branches
+   */
+  getEntries(): StackEntry[] {
+    return this.load().branches;
+  }
+
+  /**
+   * Get the stack entry of a branch
+   * @param branch Branch name
+   * @returns Stack entry, or undefined if the branch is not part of a stack
+   */
+  getEntry(branch: string): StackEntry | undefined {
+    return this.getEntries().find(entry => entry.branch === branch);
+  }
+
+  /**
+   * Add a branch to the stack, or update its fields if it is already recorded
+   * @param entry Branch to record
+   */
+  record(entry: Omit<StackEntry, 'createdAt'> & { createdAt?: string }): void {
+    const stack = this.load();
+    const existing = stack.branches.find(item => item.branch === entry.branch);
+    if (existing) {
+      Object.assign(existing, Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)));
+    } else {
+      stack.branches.push({ ...entry, createdAt: entry.createdAt || new Date().toISOString() });
+    }
+    this.save(stack);
+  }
+
+  /**
+   * Get the stack branches with every parent before its children
+   * @returns Ordered stack entries
+   */
+  getOrderedEntries(): StackEntry[] {
+    const entries = this.getEntries();
+    const ordered: StackEntry[] = [];
+    const visit = (parent: string) => {
+      for (const entry of entries.filter(item => item.parent === parent && !ordered.includes(item))) {
+        ordered.push(entry);
+        visit(entry.branch);
+      }
+    };
+
+    const branches = new Set(entries.map(entry => entry.branch));
+    for (const root of new Set(entries.filter(entry => !branches.has(entry.parent)).map(entry => entry.parent))) {
+      visit(root);
+    }
+    return ordered;
+  }
+
+  /**
+   * Check whether a branch is the parent of recorded branches rather than part of the stack
+   * (e.g. main at the bottom of the stack)
+   * @param branch Branch name
+   */
+  isStackRoot(branch: string): boolean {
+    return !this.getEntry(branch);
+  }
+
+  /**
+   * Render the stacks as a tree
+   * @param currentBranch Branch to highlight
+   * @returns Tree lines, empty if no stack is recorded
+   */
+  formatTree(currentBranch?: string): string[] {
+    const entries = this.getOrderedEntries();
+    const lines: string[] = [];
+    const render = (parent: string, indent: string) => {
+      const children = entries.filter(entry => entry.parent === parent);
+      children.forEach((entry, index) => {
+        const isLast = index === children.length - 1;
+        const marker = entry.branch === currentBranch ? ' ← current' : '';
+        lines.push(`${indent}${isLast ? '└─' : '├─'} ${entry.branch}${entry.mrUrl ? `  ${entry.mrUrl}` : ''}${marker}`);
+        render(entry.branch, `${indent}${isLast ? '   ' : '│  '}`);
+      });
+    };
+
+    for (const root of new Set(entries.filter(entry => this.isStackRoot(entry.parent)).map(entry => entry.parent))) {
+      lines.push(`${root}${root === currentBranch ? ' ← current' : ''}`);
+      render(root, '');
+    }
+    return lines;
+  }
+
+  /**
+   * Read the stack file
+   */
+  private load(): StackFile {
+    if (!fs.existsSync(this.filePath)) {
+      return { branches: [] };
+    }
+    try {
+      const stack = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return { branches: Array.isArray(stack.branches) ? stack.branches : [] };
+    } catch (error) {
+      throw new Error(`Failed to read stack file ${this.filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Write the stack file
+   * @param stack Stack content
+   */
+  private save(stack: StackFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(stack, null, 2) + '\n');
+    logger.debug(`Saved stack file: ${this.filePath}`);
+  }
+}
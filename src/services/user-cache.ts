@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import { PlatformUser } from './git-platform-service.js';
+import { logger } from '../logger.js';
+
+/**
+ * Content of the user cache file: platform base URL -> user name or email -> user
+ */
+type UserCacheFile = Record<string, Record<string, PlatformUser>>;
+
+/**
+ * Local cache of platform users looked up by name or email, shared by all repositories
+ */
+export class UserCache {
+  /** Cache file name, stored in the global aiflow directory */
+  static readonly CACHE_FILE = 'user-cache.json';
+
+  /**
+   * @param filePath Cache file path
+   * @param scope Platform base URL the users belong to
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly scope: string
+  ) { }
+
+  /**
+   * Get a cached user
+   * @param key Lower-case user name or email
+   * @returns User, or undefined if the user is not cached
+   */
+  get(key: string): PlatformUser | undefined {
+    return this.load()[this.scope]?.[key];
+  }
+
+  /**
+   * Cache a user
+   * @param key Lower-case user name or email
+   * @param user User
+   */
+  set(key: string, user: PlatformUser): void {
+    const cache = this.load();
+    cache[this.scope] = { ...cache[this.scope], [key]: user };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(cache, null, 2) + '\n');
+    } catch (error) {
+      logger.debug(`Failed to write user cache ${this.filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Read the cache file, an unreadable cache is treated as empty
+   */
+  private load(): UserCacheFile {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+    try {
+      const cache = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return cache && typeof cache === 'object' ? cache : {};
+    } catch (error) {
+      logger.debug(`Ignoring unreadable user cache ${this.filePath}: ${error}`);
+      return {};
+    }
+  }
+}
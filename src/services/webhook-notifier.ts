@@ -0,0 +1,103 @@
+import { logger } from '../logger.js';
+import { TemplateUtil } from '../utils/template-util.js';
+import { MergeRequestNotice, Notifier, NotifierType } from './notifier.js';
+
+/**
+ * Body template of a generic webhook: JSON text, or a JSON-like object whose string values are templates
+ */
+export type WebhookBodyTemplate = string | Record<string, unknown> | unknown[];
+
+/**
+ * Generic outgoing webhook notifier, posting a templated JSON payload (e.g. to a release dashboard).
+ *
+ * Templates use {{name}} placeholders for the notice fields:
+ * {{mrUrl}} {{title}} {{branch}} {{target}} {{commit}} {{author}} {{changedFiles}}.
+ * In object templates a value that is exactly "{{changedFiles}}" becomes the file array,
+ * elsewhere the changed files are joined with newlines.
+ */
+export class WebhookNotifier extends Notifier {
+  private readonly headers: Record<string, string>;
+  private readonly body?: WebhookBodyTemplate;
+
+  /**
+   * @param url Webhook URL
+   * @param headers Additional request headers, e.g. Authorization
+   * @param body Body template, all notice fields are posted when empty
+   */
+  constructor(url: string, headers: Record<string, string> = {}, body?: WebhookBodyTemplate) {
+    super(url);
+    this.headers = headers;
+    this.body = body;
+    logger.info('WebhookNotifier initialized');
+  }
+
+  getNotifierName(): NotifierType {
+    return 'webhook';
+  }
+
+  /**
+   * Render the body template for a merge request notice
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the webhook
+   * @throws Error if a text template does not render to valid JSON
+   */
+  buildMergeRequestNoticePayload(notice: MergeRequestNotice): object {
+    const variables = {
+      mrUrl: notice.mrUrl,
+      title: notice.title,
+      branch: notice.branch,
+      target: notice.target,
+      commit: notice.commit,
+      author: notice.author || '',
+      changedFiles: notice.changedFiles.join('\n')
+    };
+
+    if (this.body === undefined || this.body === null || this.body === '') {
+      return { ...variables, changedFiles: notice.changedFiles };
+    }
+
+    if (typeof this.body === 'string') {
+      // Values are JSON-escaped so placeholders can be used inside JSON strings
+      const rendered = TemplateUtil.render(this.body, variables, value => JSON.stringify(value).slice(1, -1));
+      try {
+        return JSON.parse(rendered);
+      } catch (error) {
+        throw new Error(`Webhook body template for ${this.getMaskedWebhook()} does not render to valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return WebhookNotifier.renderValue(this.body, variables, notice.changedFiles) as object;
+  }
+
+  protected getRequestHeaders(): Record<string, string> {
+    return { 'Content-Type': 'application/json', ...this.headers };
+  }
+
+  /**
+   * Any successful HTTP status is accepted, the response format of generic webhooks is unknown
+   */
+  protected checkResponse(_response: string): void {
+    // Nothing to check
+  }
+
+  /**
+   * Render the string values of an object template
+   * @param value Template value
+   * @param variables Placeholder values
+   * @param changedFiles Changed files, used for values that are exactly {{changedFiles}}
+   */
+  private static renderValue(value: unknown, variables: Record<string, string>, changedFiles: string[]): unknown {
+    if (typeof value === 'string') {
+      return /^\{\{\s*changedFiles\s*\}\}$/.test(value) ? changedFiles : TemplateUtil.render(value, variables);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => WebhookNotifier.renderValue(item, variables, changedFiles));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, WebhookNotifier.renderValue(item, variables, changedFiles)])
+      );
+    }
+    return value;
+  }
+}
@@ -1,20 +1,30 @@
 import { logger } from '../logger.js';
-import { HttpClient } from '../http/http-client.js';
+import { MergeRequestNotice, Notifier, NotifierType } from './notifier.js';
 
 /**
  * Enterprise WeCom notifier service
  */
-export class WecomNotifier {
-  private readonly webhook: string;
-  private readonly http: HttpClient;
-
+export class WecomNotifier extends Notifier {
   constructor(webhook: string) {
-    this.webhook = webhook;
-    this.http = new HttpClient();
+    super(webhook);
     logger.info('WecomNotifier initialized');
   }
 
-  async sendMergeRequestNotice(
+  getNotifierName(): NotifierType {
+    return 'wecom';
+  }
+
+  /**
+   * Send a merge request notice, followed by a text message mentioning the given members
+   * @param notice Merge request notice
+   * @param mentionedMobileList Mobile numbers of the members to mention
+   * @param isAtAll Mention all members
+   */
+  sendMergeRequestNotice(notice: MergeRequestNotice, mentionedMobileList?: string[], isAtAll?: boolean): Promise<void>;
+  /**
+   * @deprecated Pass a MergeRequestNotice instead of positional arguments
+   */
+  sendMergeRequestNotice(
     branch: string,
     target: string,
     mrUrl: string,
@@ -23,33 +33,15 @@ export class WecomNotifier {
     changedFiles: string[],
     mentionedMobileList?: string[],
     isAtAll?: boolean
-  ): Promise<void> {
-    logger.info(`Sending merge request notice: ${branch} → ${target}`);
-    logger.debug(`MR URL: ${mrUrl}`);
-    logger.debug(`Changed files count: ${changedFiles.length}`);
-
-    const md = `🎉 **合并请求已创建，请及时进行代码审查！**
-📋 **MR链接**: [点击查看](${mrUrl}) \`${mrUrl}\`
-📝 **MR标题**: ${title}
-🌿 **分支信息**: ${branch} → ${target}
-📝 **提交信息**:
-\`\`\`
-${commitMsg}
-\`\`\`
-📁 **变更文件** (${changedFiles.length} 个)${changedFiles.length > 10 ? `**前10个**: ` : ': '}
-\`\`\`
-${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles.length > 10 ? `\n**...还有 ${changedFiles.length - 10} 个文件**` : ''}
-\`\`\`
-`;
+  ): Promise<void>;
+  async sendMergeRequestNotice(noticeOrBranch: MergeRequestNotice | string, ...args: any[]): Promise<void> {
+    const [notice, mentionedMobileList, isAtAll]: [MergeRequestNotice, string[] | undefined, boolean | undefined] =
+      typeof noticeOrBranch === 'string'
+        ? [WecomNotifier.toNotice(noticeOrBranch, ...args as [string, string, string, string, string[]]), args[5], args[6]]
+        : [noticeOrBranch, args[0], args[1]];
 
     try {
-      await this.http.requestJson(
-        this.webhook,
-        "POST",
-        { "Content-Type": "application/json" },
-        JSON.stringify({ msgtype: "markdown_v2", markdown_v2: { content: md } })
-      );
-      logger.info('Markdown notification sent successfully');
+      await super.sendMergeRequestNotice(notice);
     } catch (error) {
       logger.error('Failed to send markdown notification:', error);
       throw error;
@@ -71,12 +63,7 @@ ${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles
       }
 
       try {
-        await this.http.requestJson(
-          this.webhook,
-          "POST",
-          { "Content-Type": "application/json" },
-          JSON.stringify({ msgtype: "text", text: { content, mentioned_mobile_list: _mentionedMobileListStr } })
-        );
+        await this.post({ msgtype: "text", text: { content, mentioned_mobile_list: _mentionedMobileListStr } });
         logger.info(`Mention notification sent successfully to ${_mentionedMobileListStr.length} recipients`);
       } catch (error) {
         logger.error('Failed to send mention notification:', error);
@@ -84,4 +71,57 @@ ${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles
       }
     }
   }
+
+  /**
+   * Build the markdown webhook payload for a merge request notice
+   * @param notice Merge request notice
+   * @returns JSON payload posted to the WeCom webhook
+   */
+  buildMergeRequestNoticePayload(notice: MergeRequestNotice): { msgtype: string; markdown_v2: { content: string } };
+  /**
+   * @deprecated Pass a MergeRequestNotice instead of positional arguments
+   */
+  buildMergeRequestNoticePayload(
+    branch: string,
+    target: string,
+    mrUrl: string,
+    title: string,
+    commitMsg: string,
+    changedFiles: string[]
+  ): { msgtype: string; markdown_v2: { content: string } };
+  buildMergeRequestNoticePayload(noticeOrBranch: MergeRequestNotice | string, ...args: any[]): { msgtype: string; markdown_v2: { content: string } } {
+    const notice = typeof noticeOrBranch === 'string'
+      ? WecomNotifier.toNotice(noticeOrBranch, ...args as [string, string, string, string, string[]])
+      : noticeOrBranch;
+    const { branch, target, mrUrl, title, commit: commitMsg, changedFiles } = notice;
+    const md = `🎉 **合并请求已创建，请及时进行代码审查！**
+📋 **MR链接**: [点击查看](${mrUrl}) \`${mrUrl}\`
+📝 **MR标题**: ${title}
+🌿 **分支信息**: ${branch} → ${target}
+📝 **提交信息**:
+\`\`\`
+${commitMsg}
+\`\`\`
+📁 **变更文件** (${changedFiles.length} 个)${changedFiles.length > 10 ? `**前10个**: ` : ': '}
+\`\`\`
+${changedFiles.slice(0, 10).map(file => `• ${file}`).join('\n')}${changedFiles.length > 10 ? `\n**...还有 ${changedFiles.length - 10} 个文件**` : ''}
+\`\`\`
+`;
+
+    return { msgtype: "markdown_v2", markdown_v2: { content: md } };
+  }
+
+  /**
+   * Build a merge request notice from the positional arguments of the previous API
+   */
+  private static toNotice(branch: string, target: string, mrUrl: string, title: string, commit: string, changedFiles: string[]): MergeRequestNotice {
+    return { branch, target, mrUrl, title, commit, changedFiles };
+  }
+
+  /**
+   * Get the webhook URL with its key masked, for display purposes
+   */
+  getMaskedWebhook(): string {
+    return this.webhook.replace(/(key=)[^&]+/, '$1***');
+  }
 }
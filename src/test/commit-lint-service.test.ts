@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CommitLintService } from '../services/commit-lint-service.js';
+
+/**
+ * Test commit message linting against commitlint-style rules
+ */
+async function testCommitLintService(): Promise<void> {
+  console.log('🧪 Commit Lint Service Test\n');
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiflow-commitlint-'));
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, passed: boolean, detail: string) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (passed) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: ${detail}`);
+    }
+  };
+
+  try {
+    // No commitlint configuration and no rules
+    const none = await CommitLintService.load(tempDir, {});
+    check('No rules disables linting', none === null, `Expected null, got ${JSON.stringify(none)}`);
+
+    // Rules from aiflow configuration
+    const configured = await CommitLintService.load(tempDir, {
+      types: ['feat', 'fix'],
+      scopes: ['api', 'ui'],
+      header_max_length: 40,
+      subject_case: 'lower-case'
+    });
+    const cases: Array<{ message: string; violations: number }> = [
+      { message: 'feat(api): add login endpoint', violations: 0 },
+      { message: 'feat: 添加登录接口', violations: 0 },
+      { message: 'chore(api): bump deps', violations: 1 },
+      { message: 'fix(db): handle null rows', violations: 1 },
+      { message: 'fix(ui): Handle Resize', violations: 1 },
+      { message: 'feat(api): add a very long subject exceeding the limit', violations: 1 },
+      { message: 'added login endpoint', violations: 1 }
+    ];
+    for (const testCase of cases) {
+      const violations = configured!.lint(testCase.message);
+      check(`"${testCase.message}" has ${testCase.violations} violation(s)`,
+        violations.length === testCase.violations, JSON.stringify(violations));
+    }
+
+    // Offline messages are adjusted to the rules
+    // Types are only replaced by one with the same release impact, never by feat
+    const conformCases: Array<{ message: string; expected: string; violations: number }> = [
+      { message: 'fix(db): handle null rows', expected: 'fix: handle null rows', violations: 0 },
+      { message: 'refactor(api): split handlers', expected: 'fix(api): split handlers', violations: 0 },
+      { message: 'chore(api): bump deps', expected: 'chore(api): bump deps', violations: 1 },
+      { message: 'docs: update readme', expected: 'docs: update readme', violations: 1 },
+      { message: 'fix(ui): Handle Resize', expected: 'fix(ui): handle resize', violations: 0 },
+      { message: 'feat(api): add a very long subject exceeding the limit\n\nBody', expected: 'feat(api): add a very long subject ex...\n\nBody', violations: 0 }
+    ];
+    for (const testCase of conformCases) {
+      const conformed = configured!.conform(testCase.message);
+      check(`"${testCase.message.split('\n')[0]}" conforms to "${testCase.expected.split('\n')[0]}"`,
+        conformed === testCase.expected && configured!.lint(conformed).length === testCase.violations, JSON.stringify(conformed));
+    }
+
+    // Rules from commitlint configuration, aiflow configuration takes precedence
+    fs.writeFileSync(path.join(tempDir, '.commitlintrc.json'), JSON.stringify({
+      extends: ['@commitlint/config-conventional'],
+      rules: { 'scope-enum': [2, 'always', ['core']] }
+    }));
+    const fromFile = await CommitLintService.load(tempDir, { header_max_length: 50 });
+    check('config-conventional forbids sentence-case subjects',
+      fromFile!.lint('feat(core): Add parser').length === 1, JSON.stringify(fromFile!.lint('feat(core): Add parser')));
+    check('commitlint scope-enum is applied',
+      fromFile!.lint('perf(cli): speed up startup').length === 1, JSON.stringify(fromFile!.lint('perf(cli): speed up startup')));
+    check('aiflow header_max_length overrides config-conventional',
+      fromFile!.describeRules().includes('Maximum header length: 50'), fromFile!.describeRules());
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testCommitLintService().catch(console.error);
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConanCompletePackageInfo, ConanService } from '../services/conan-service.js';
+import { ConanDataService } from '../services/conandata-service.js';
+import { FileUpdaterService } from '../services/file-updater-service.js';
+import { GitService } from '../services/git-service.js';
+
+/**
+ * Build the package info the Conan remote would return
+ */
+function packageInfo(packageName: string, version: string, revision: string): ConanCompletePackageInfo {
+  const timestamp = '1757090078.826';
+  return {
+    packageName,
+    version,
+    remote: 'repo',
+    revision,
+    timestamp,
+    lockEntry: `${packageName}/${version}#${revision}%${timestamp}`,
+    reference: `${packageName}/${version}`,
+    time: new Date(0).toISOString()
+  };
+}
+
+/**
+ * Test updating Conan package files for several packages
+ */
+async function testFileUpdaterService(): Promise<void> {
+  console.log('🧪 File Updater Service Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  // Remote with the latest package versions, unknown packages are not found
+  const latest: Record<string, ConanCompletePackageInfo> = {
+    zterm: packageInfo('zterm', '1.0.0.25', 'ffffffffffffffffffffffffffffffff'),
+    zlib: packageInfo('zlib', '1.3.1', 'f52e03ae3d251dec704634230cd806a2')
+  };
+  const conanService = {
+    getCompletePackageInfo: async (_remote: string, packageName: string) => latest[packageName] || null
+  } as unknown as ConanService;
+
+  const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'aiflow-file-updater-'));
+  const writeFiles = () => {
+    fs.writeFileSync(path.join(workingDirectory, 'conandata.yml'), [
+      'requirements:',
+      '  - zterm/1.0.0.24',
+      '  - winusb/2.1.0',
+      '  - zlib/1.3.1',
+      ''
+    ].join('\n'), 'utf-8');
+    fs.writeFileSync(path.join(workingDirectory, 'conan.lock'), JSON.stringify({
+      version: '0.5',
+      requires: [
+        'zterm/1.0.0.24#9bbcb882c9c62af94fcfd21f98e3b711%1756995353.576',
+        'zlib/1.3.1#f52e03ae3d251dec704634230cd806a2%1708593606.497',
+        'winusb/2.1.0#0a1b2c3d%1700000000.000'
+      ]
+    }, null, 2), 'utf-8');
+  };
+  const fileUpdater = new FileUpdaterService(conanService, {} as GitService, workingDirectory);
+
+  try {
+    // Package references in conandata.yml
+    fs.writeFileSync(path.join(workingDirectory, 'conandata.yml'), [
+      'sources:',
+      '  urls:',
+      '    - https://github.com/madler/zlib/archive/v1.3.1.tar.gz',
+      '    - "mirror/1.3.1"',
+      'patches:',
+      '  - patches/0001-fix-build.patch',
+      'requirements:',
+      '  - zterm/1.0.0.24',
+      '  - fmt/[>=10 <11]',
+      '  - boost/1.83.0@corp/stable',
+      '  - sqlite3/cci.20230101',
+      '  - zterm/1.0.0.24#9bbcb882',
+      ''
+    ].join('\n'), 'utf-8');
+    check('Package names skip URLs, quoted values and patches', new ConanDataService(workingDirectory).getPackageNames(), [
+      'zterm', 'fmt', 'boost', 'sqlite3'
+    ]);
+
+    // One package fails, the others are still updated
+    writeFiles();
+    const { updates, skipped } = await fileUpdater.updatePackages('repo', ['zterm', 'winusb', 'zlib']);
+    check('Updated packages', updates.map(update => [update.packageName, update.previousVersion, update.completeInfo.version]), [
+      ['zterm', '1.0.0.24', '1.0.0.25']
+    ]);
+    check('Skipped packages', skipped, [
+      { packageName: 'winusb', error: 'No complete package info found for winusb in remote repo' }
+    ]);
+    check('Files of updated packages written', fs.readFileSync(path.join(workingDirectory, 'conandata.yml'), 'utf-8').includes('- zterm/1.0.0.25'), true);
+
+    // All packages fail
+    writeFiles();
+    let error = '';
+    try {
+      await fileUpdater.updatePackages('repo', ['winusb', 'foo']);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    check('All packages failing throws', error.startsWith('Failed to update packages: winusb:'), true);
+
+    // Several lock files: only the locks referencing the package are checked and updated
+    writeFiles();
+    const conandataPath = path.join(workingDirectory, 'conandata.yml');
+    fs.writeFileSync(conandataPath, fs.readFileSync(conandataPath, 'utf-8').replace('zterm/1.0.0.24', 'zterm/1.0.0.25'), 'utf-8');
+    const zlibLock = fs.readFileSync(path.join(workingDirectory, 'conan.lock'), 'utf-8');
+    fs.writeFileSync(path.join(workingDirectory, 'conan.lock'), JSON.stringify({
+      version: '0.5',
+      requires: ['zlib/1.3.1#f52e03ae3d251dec704634230cd806a2%1708593606.497']
+    }, null, 2), 'utf-8');
+    fs.writeFileSync(path.join(workingDirectory, 'conan.win.lock'), zlibLock, 'utf-8');
+    fs.writeFileSync(path.join(workingDirectory, 'conan.linux.lock'), JSON.stringify({
+      version: '0.5',
+      requires: ['zterm/1.0.0.25#ffffffffffffffffffffffffffffffff%1757090078.826']
+    }, null, 2), 'utf-8');
+    check('Files to stage include every lock file', fileUpdater.getFilesToStage(), ['conandata.yml', 'conan.linux.lock', 'conan.lock', 'conan.win.lock']);
+    check('Up to date package needs no update', fileUpdater.needsUpdate('zlib', latest.zlib), false);
+    check('One outdated lock needs an update', fileUpdater.needsUpdate('zterm', latest.zterm), true);
+
+    const linuxLock = fs.readFileSync(path.join(workingDirectory, 'conan.linux.lock'), 'utf-8');
+    fileUpdater.updatePackageFiles(latest.zterm);
+    check('Outdated lock updated', JSON.parse(fs.readFileSync(path.join(workingDirectory, 'conan.win.lock'), 'utf-8')).requires[0],
+      'zterm/1.0.0.25#ffffffffffffffffffffffffffffffff%1757090078.826');
+    check('Lock without the package untouched', JSON.parse(fs.readFileSync(path.join(workingDirectory, 'conan.lock'), 'utf-8')).requires,
+      ['zlib/1.3.1#f52e03ae3d251dec704634230cd806a2%1708593606.497']);
+    check('Up to date lock keeps its content', fs.readFileSync(path.join(workingDirectory, 'conan.linux.lock'), 'utf-8'), linuxLock);
+    check('Package is up to date in every lock', fileUpdater.needsUpdate('zterm', latest.zterm), false);
+  } finally {
+    fs.rmSync(workingDirectory, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testFileUpdaterService().catch(console.error);
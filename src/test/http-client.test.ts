@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+import { HttpClient } from '../http/http-client.js';
+
+/**
+ * Test following the pagination headers of list endpoints
+ */
+async function testHttpClient(): Promise<void> {
+  console.log('🧪 HTTP Client Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  // Next page URL from the response headers
+  const url = 'https://api.github.com/repos/org/repo/labels?per_page=100';
+  check('Link rel="next" is followed',
+    HttpClient.getNextPageUrl(url, new Headers({
+      link: '<https://api.github.com/repositories/1/labels?per_page=100&page=2>; rel="next", <https://api.github.com/repositories/1/labels?per_page=100&page=5>; rel="last"'
+    })),
+    'https://api.github.com/repositories/1/labels?per_page=100&page=2');
+  check('Link without rel="next" is the last page',
+    HttpClient.getNextPageUrl(url, new Headers({ link: '<https://api.github.com/repositories/1/labels?page=1>; rel="first"' })),
+    null);
+  check('X-Next-Page sets the page parameter',
+    HttpClient.getNextPageUrl('https://gitlab.example.com/api/v4/projects/1/labels?per_page=100&page=1', new Headers({ 'x-next-page': '2' })),
+    'https://gitlab.example.com/api/v4/projects/1/labels?per_page=100&page=2');
+  check('Empty X-Next-Page is the last page', HttpClient.getNextPageUrl(url, new Headers({ 'x-next-page': '' })), null);
+  check('No pagination headers is the last page', HttpClient.getNextPageUrl(url, new Headers()), null);
+
+  // All pages are requested and concatenated
+  const originalFetch = globalThis.fetch;
+  const requestedUrls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const requestUrl = String(input);
+    requestedUrls.push(requestUrl);
+    const page = Number(new URL(requestUrl).searchParams.get('page') || '1');
+    const headers: Record<string, string> = page < 3 ? { 'x-next-page': String(page + 1) } : {};
+    return new Response(JSON.stringify([`label-${page}a`, `label-${page}b`]), { status: 200, headers });
+  }) as typeof fetch;
+
+  try {
+    const http = new HttpClient();
+    const labels = await http.requestJsonPages<string>('https://gitlab.example.com/api/v4/projects/1/labels?per_page=2', {});
+    check('Items of all pages', labels, ['label-1a', 'label-1b', 'label-2a', 'label-2b', 'label-3a', 'label-3b']);
+    check('Every page requested once', requestedUrls, [
+      'https://gitlab.example.com/api/v4/projects/1/labels?per_page=2',
+      'https://gitlab.example.com/api/v4/projects/1/labels?per_page=2&page=2',
+      'https://gitlab.example.com/api/v4/projects/1/labels?per_page=2&page=3'
+    ]);
+
+    globalThis.fetch = (async () => new Response('Not Found', { status: 404 })) as typeof fetch;
+    let error = '';
+    try {
+      await http.requestJsonPages<string>('https://gitlab.example.com/api/v4/projects/1/labels', {});
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    check('Failed page is an error', error, 'HTTP 404: Not Found');
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testHttpClient().catch(console.error);
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+import { IssueLinkService } from '../services/issue-link-service.js';
+
+/**
+ * Test issue key extraction and injection
+ */
+function testIssueLinkService(): void {
+  console.log('🧪 Issue Link Service Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  // Explicit keys
+  check('Parse Jira key', IssueLinkService.parse('proj-123'), { key: 'PROJ-123', source: 'cli' });
+  check('Parse platform issue', IssueLinkService.parse('#456'), { key: '#456', number: 456, source: 'cli' });
+  check('Reject invalid key', IssueLinkService.parse('login'), null);
+
+  // Branch names
+  const projectKeys = ['PROJ'];
+  check('Jira key in branch', IssueLinkService.fromBranch('feature/PROJ-123-login', projectKeys)?.key, 'PROJ-123');
+  check('Lower case Jira key in branch', IssueLinkService.fromBranch('feature/proj-123-login', projectKeys)?.key, 'PROJ-123');
+  check('Jira key without configured project keys', IssueLinkService.fromBranch('feature/PROJ-123-login'), null);
+  check('issue-N in branch', IssueLinkService.fromBranch('fix/issue-78-crash')?.number, 78);
+  check('gh-N in branch', IssueLinkService.fromBranch('gh-90-crash')?.number, 90);
+  check('#N in branch', IssueLinkService.fromBranch('fix/#91')?.number, 91);
+  check('Technical terms are not issue keys', IssueLinkService.fromBranch('feat/utf-8-support-SHA-256', projectKeys), null);
+  check('Model names are not issue keys', IssueLinkService.fromBranch('feat/GPT-4-PEP-8-COVID-19', projectKeys), null);
+  check('Leading number is not an issue', IssueLinkService.fromBranch('456-fix-login'), null);
+  check('Release date is not an issue', IssueLinkService.fromBranch('release/2024-10'), null);
+  check('Plain branch has no issue', IssueLinkService.fromBranch('main'), null);
+
+  // Commit messages
+  check('Issue from commit messages', IssueLinkService.fromCommitMessages([
+    'Merge pull request #12 from user/branch',
+    'fix: handle empty input\n\nCloses #34'
+  ])?.key, '#34');
+  check('Jira trailer in commit messages', IssueLinkService.fromCommitMessages(['feat: add login\n\nRefs: OPS-7']), { key: 'OPS-7', source: 'commit' });
+  check('Configured project key in commit subject', IssueLinkService.fromCommitMessages(['PROJ-5 add login'], projectKeys)?.key, 'PROJ-5');
+  check('Terms in commit messages are not issue keys', IssueLinkService.fromCommitMessages([
+    'feat: support GPT-4 models\n\nFollow PEP-8 and track COVID-19 data.\nFixes GPT-4 crash in parser'
+  ], projectKeys), null);
+  check('Issue numbers outside trailers are ignored', IssueLinkService.fromCommitMessages(['fix: see #12 for context\n\nSimilar to #13']), null);
+
+  // Priority
+  check('Explicit key takes precedence', IssueLinkService.resolve({
+    explicit: 'ABC-1',
+    branch: 'feature/PROJ-123-login'
+  })?.key, 'ABC-1');
+
+  // Injection
+  const issueLink = new IssueLinkService('Closes');
+  const issue = { key: 'PROJ-123', source: 'branch' as const };
+  check('Commit footer', issueLink.applyToCommit('feat: add login', issue), 'feat: add login\n\nRefs: PROJ-123');
+  check('Title prefix', issueLink.applyToTitle('feat: add login', issue), '[PROJ-123] feat: add login');
+  check('Title already referencing the key is kept', issueLink.applyToTitle('PROJ-123: add login', issue), 'PROJ-123: add login');
+  check('Description references inferred issue', issueLink.applyToDescription('## What Changed', issue), '## What Changed\n\nRefs PROJ-123');
+  check('Description closing reference', issueLink.applyToDescription('## What Changed', { key: 'PROJ-123', source: 'cli' }), '## What Changed\n\nCloses PROJ-123');
+  check('Closing inferred issue when opted in', new IssueLinkService('Closes', true).applyToDescription('', issue), 'Closes PROJ-123');
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testIssueLinkService();
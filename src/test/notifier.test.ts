@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+
+import crypto from 'crypto';
+import { DingtalkNotifier } from '../services/dingtalk-notifier.js';
+import { FeishuNotifier } from '../services/feishu-notifier.js';
+import { MergeRequestNotice, Notifier } from '../services/notifier.js';
+import { SlackNotifier } from '../services/slack-notifier.js';
+import { WebhookNotifier } from '../services/webhook-notifier.js';
+import { WecomNotifier } from '../services/wecom-notifier.js';
+
+/**
+ * Request posted to a webhook
+ */
+interface PostedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Replace the HTTP client of a notifier, recording the requests and answering with the given response
+ * @param notifier Notifier to stub
+ * @param response Response body returned for every request
+ * @returns Posted requests
+ */
+function stubHttp(notifier: Notifier, response: string = '{"errcode":0,"errmsg":"ok"}'): PostedRequest[] {
+  const requests: PostedRequest[] = [];
+  (notifier as any).http = {
+    requestText: async (url: string, _method: string, headers: Record<string, string>, body: string) => {
+      requests.push({ url, headers, body: JSON.parse(body) });
+      return response;
+    }
+  };
+  return requests;
+}
+
+/**
+ * Get the error message of a rejected promise
+ * @returns Error message, empty if the promise resolved
+ */
+async function errorOf(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+    return '';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Test chat webhook notifiers: request signing, error responses, the WeCom API and webhook templates
+ */
+async function testNotifiers(): Promise<void> {
+  console.log('🧪 Notifier Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  const notice: MergeRequestNotice = {
+    branch: 'feat/login',
+    target: 'main',
+    mrUrl: 'https://gitlab.example.com/group/project/-/merge_requests/42',
+    title: 'feat: add login',
+    commit: 'feat: add login',
+    changedFiles: ['src/login.ts']
+  };
+  const secret = 'SECtest-secret';
+
+  // DingTalk signs the URL: urlEncode(base64(HmacSHA256(secret, timestamp + "\n" + secret)))
+  const dingtalk = new DingtalkNotifier('https://oapi.dingtalk.com/robot/send?access_token=abc', secret);
+  const dingtalkRequests = stubHttp(dingtalk);
+  await dingtalk.sendMergeRequestNotice(notice);
+  const dingtalkUrl = new URL(dingtalkRequests[0].url);
+  const dingtalkTimestamp = dingtalkUrl.searchParams.get('timestamp') || '';
+  check('DingTalk URL keeps the access token', dingtalkUrl.searchParams.get('access_token'), 'abc');
+  check('DingTalk timestamp is in milliseconds', Math.abs(Date.now() - Number(dingtalkTimestamp)) < 60000, true);
+  const dingtalkSign = crypto.createHmac('sha256', secret).update(`${dingtalkTimestamp}\n${secret}`).digest('base64');
+  check('DingTalk signature is URL-encoded', dingtalkRequests[0].url.endsWith(`&timestamp=${dingtalkTimestamp}&sign=${encodeURIComponent(dingtalkSign)}`), true);
+
+  const unsignedDingtalk = new DingtalkNotifier('https://oapi.dingtalk.com/robot/send?access_token=abc');
+  const unsignedDingtalkRequests = stubHttp(unsignedDingtalk);
+  await unsignedDingtalk.sendMergeRequestNotice(notice);
+  check('DingTalk URL without secret is unchanged', unsignedDingtalkRequests[0].url, 'https://oapi.dingtalk.com/robot/send?access_token=abc');
+
+  // Feishu signs the body: base64(HmacSHA256(timestamp + "\n" + secret, ""))
+  const feishu = new FeishuNotifier('https://open.feishu.cn/open-apis/bot/v2/hook/xyz', secret);
+  const feishuRequests = stubHttp(feishu, '{"code":0,"msg":"success"}');
+  await feishu.sendMergeRequestNotice(notice);
+  const feishuBody = feishuRequests[0].body;
+  check('Feishu timestamp is in seconds', Math.abs(Date.now() / 1000 - Number(feishuBody.timestamp)) < 60, true);
+  check('Feishu signature',
+    feishuBody.sign,
+    crypto.createHmac('sha256', `${feishuBody.timestamp}\n${secret}`).update('').digest('base64'));
+  check('Feishu sends an interactive card', feishuBody.msg_type, 'interactive');
+
+  const unsignedFeishu = new FeishuNotifier('https://open.feishu.cn/open-apis/bot/v2/hook/xyz');
+  const unsignedFeishuRequests = stubHttp(unsignedFeishu, '{"code":0,"msg":"success"}');
+  await unsignedFeishu.sendMergeRequestNotice(notice);
+  check('Feishu body without secret has no signature', [unsignedFeishuRequests[0].body.timestamp, unsignedFeishuRequests[0].body.sign], [undefined, undefined]);
+
+  // Error codes reported with HTTP 200
+  const rejectedDingtalk = new DingtalkNotifier('https://oapi.dingtalk.com/robot/send?access_token=abc', secret);
+  stubHttp(rejectedDingtalk, '{"errcode":310000,"errmsg":"sign not match"}');
+  check('DingTalk errcode is an error', await errorOf(rejectedDingtalk.sendMergeRequestNotice(notice)), 'dingtalk webhook error 310000: sign not match');
+
+  const rejectedFeishu = new FeishuNotifier('https://open.feishu.cn/open-apis/bot/v2/hook/xyz', secret);
+  stubHttp(rejectedFeishu, '{"code":19021,"msg":"sign match fail or timestamp is not within one hour from current time"}');
+  check('Feishu code is an error', (await errorOf(rejectedFeishu.sendMergeRequestNotice(notice))).startsWith('feishu webhook error 19021:'), true);
+
+  const legacyFeishu = new FeishuNotifier('https://open.feishu.cn/open-apis/bot/v2/hook/xyz');
+  stubHttp(legacyFeishu, '{"StatusCode":0,"StatusMessage":"success"}');
+  check('Feishu StatusCode 0 is accepted', await errorOf(legacyFeishu.sendMergeRequestNotice(notice)), '');
+
+  const slack = new SlackNotifier('https://hooks.slack.com/services/T000/B000/XXXX');
+  stubHttp(slack, 'ok');
+  check('Plain text response is accepted', await errorOf(slack.sendMergeRequestNotice(notice)), '');
+
+  // WeCom keeps the positional API
+  const wecom = new WecomNotifier('https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=abc');
+  const wecomRequests = stubHttp(wecom);
+  await wecom.sendMergeRequestNotice(notice.branch, notice.target, notice.mrUrl, notice.title, notice.commit, notice.changedFiles, ['13800000000']);
+  check('WeCom positional arguments send the notice and the mention', wecomRequests.map(request => request.body.msgtype), ['markdown_v2', 'text']);
+  check('WeCom positional and notice payloads match',
+    wecom.buildMergeRequestNoticePayload(notice.branch, notice.target, notice.mrUrl, notice.title, notice.commit, notice.changedFiles),
+    wecom.buildMergeRequestNoticePayload(notice));
+  check('WeCom mentions the given members', wecomRequests[1].body.text.mentioned_mobile_list, ['13800000000']);
+
+  // Generic webhook templates
+  const trickyNotice: MergeRequestNotice = {
+    ...notice,
+    title: 'fix: handle "quoted" \\ paths',
+    commit: 'fix: handle "quoted" \\ paths\n\nTabs\tand newlines',
+    changedFiles: ['src/a.ts', 'src/b.ts'],
+    author: 'Jane Doe'
+  };
+  const defaultWebhook = new WebhookNotifier('https://dashboard.example.com/hooks/mr');
+  check('Webhook without template posts all fields', defaultWebhook.buildMergeRequestNoticePayload(trickyNotice), {
+    mrUrl: trickyNotice.mrUrl,
+    title: trickyNotice.title,
+    branch: trickyNotice.branch,
+    target: trickyNotice.target,
+    commit: trickyNotice.commit,
+    author: 'Jane Doe',
+    changedFiles: ['src/a.ts', 'src/b.ts']
+  });
+
+  const stringWebhook = new WebhookNotifier('https://dashboard.example.com/hooks/mr', {},
+    '{"text": "{{title}} by {{author}}", "commit": "{{commit}}", "files": "{{changedFiles}}", "unknown": "{{missing}}"}');
+  check('String template values are JSON-escaped', stringWebhook.buildMergeRequestNoticePayload(trickyNotice), {
+    text: 'fix: handle "quoted" \\ paths by Jane Doe',
+    commit: trickyNotice.commit,
+    files: 'src/a.ts\nsrc/b.ts',
+    unknown: '{{missing}}'
+  });
+
+  const invalidWebhook = new WebhookNotifier('https://dashboard.example.com/hooks/mr/secret', {}, '{"text": {{title}}}');
+  let invalidError = '';
+  try {
+    invalidWebhook.buildMergeRequestNoticePayload(trickyNotice);
+  } catch (error) {
+    invalidError = error instanceof Error ? error.message : String(error);
+  }
+  check('Invalid rendered JSON is rejected with a masked URL',
+    invalidError.startsWith('Webhook body template for https://dashboard.example.com/hooks/mr/*** does not render to valid JSON'), true);
+
+  const objectWebhook = new WebhookNotifier('https://dashboard.example.com/hooks/mr', { Authorization: 'Bearer token' }, {
+    event: 'merge_request',
+    mr: { url: '{{mrUrl}}', title: '{{ title }}', files: '{{changedFiles}}', summary: '{{branch}} → {{target}}' },
+    tags: ['{{author}}', 42, true]
+  });
+  check('Object template renders nested values', objectWebhook.buildMergeRequestNoticePayload(trickyNotice), {
+    event: 'merge_request',
+    mr: { url: trickyNotice.mrUrl, title: trickyNotice.title, files: ['src/a.ts', 'src/b.ts'], summary: 'feat/login → main' },
+    tags: ['Jane Doe', 42, true]
+  });
+
+  const objectWebhookRequests = stubHttp(objectWebhook, '<html>accepted</html>');
+  check('Webhook response is not checked', await errorOf(objectWebhook.sendMergeRequestNotice(trickyNotice)), '');
+  check('Webhook headers are sent', objectWebhookRequests[0].headers, { 'Content-Type': 'application/json', Authorization: 'Bearer token' });
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testNotifiers().catch(console.error);
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import { ReviewerService } from '../services/reviewer-service.js';
+
+/**
+ * Test CODEOWNERS parsing and matching
+ */
+function testReviewerService(): void {
+  console.log('🧪 Reviewer Service Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  // Patterns
+  check('Extension matches at any depth', ReviewerService.matchesPattern('*.ts', 'src/app.ts'), true);
+  check('Unanchored directory matches at any depth', ReviewerService.matchesPattern('apps/', 'packages/apps/main.ts'), true);
+  check('Anchored directory', ReviewerService.matchesPattern('/docs/', 'src/docs/readme.md'), false);
+  check('Path pattern is anchored', ReviewerService.matchesPattern('src/api', 'lib/src/api/index.ts'), false);
+  check('Single level wildcard', ReviewerService.matchesPattern('docs/*', 'docs/guide/intro.md'), false);
+  check('Double star', ReviewerService.matchesPattern('src/**/test', 'src/a/b/test/x.ts'), true);
+
+  // GitHub syntax: the last matching rule wins
+  const github = ReviewerService.parseCodeOwners([
+    '# Default owners',
+    '*       @alice',
+    '*.md    @bob docs@example.com  # documentation',
+    '/src/vendor/',
+    '/src/api/ @org/backend @carol'
+  ].join('\n'));
+  check('Comments are ignored', github.length, 4);
+  check('Default owner', ReviewerService.getOwners(github, 'src/app.ts'), ['@alice']);
+  check('Later rule overrides', ReviewerService.getOwners(github, 'README.md'), ['@bob', 'docs@example.com']);
+  check('Rule without owners removes ownership', ReviewerService.getOwners(github, 'src/vendor/lib.js'), []);
+  check('Teams are kept as owners', ReviewerService.getOwners(github, 'src/api/users.ts'), ['@org/backend', '@carol']);
+
+  // GitLab syntax: sections with default owners are combined
+  const gitlab = ReviewerService.parseCodeOwners([
+    '[Backend] @dave',
+    'src/',
+    '^[Docs][2] @erin',
+    '*.md',
+    'src/README.md @frank'
+  ].join('\n'));
+  check('Section default owners', ReviewerService.getOwners(gitlab, 'src/main.ts'), ['@dave']);
+  check('Owners of all sections are combined', ReviewerService.getOwners(gitlab, 'src/README.md'), ['@dave', '@frank']);
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testReviewerService();
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitAutoMrApp } from '../aiflow-app.js';
+import { GitService } from '../services/git-service.js';
+import { StackService } from '../services/stack-service.js';
+
+/**
+ * Test recording a merge request stack and restacking it after the base branch moved
+ */
+async function testStackService(): Promise<void> {
+  console.log('🧪 Stack Service Test\n');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const check = (name: string, actual: unknown, expected: unknown) => {
+    totalTests++;
+    console.log(`🔍 Testing: ${name}`);
+    if (JSON.stringify(actual) === JSON.stringify(expected)) {
+      console.log(`   ✅ PASS`);
+      passedTests++;
+    } else {
+      console.log(`   ❌ FAIL: Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  };
+
+  const workingDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'aiflow-stack-'));
+  const remoteDirectory = path.join(workingDirectory, 'remote.git');
+  const repoDirectory = path.join(workingDirectory, 'repo');
+  const originalDirectory = process.cwd();
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repoDirectory, encoding: 'utf-8' }).trim();
+  const commitFile = (file: string, content: string) => {
+    fs.writeFileSync(path.join(repoDirectory, file), content, 'utf-8');
+    git('add', file);
+    git('commit', '-q', '-m', `update ${file}`);
+    return git('rev-parse', 'HEAD');
+  };
+
+  try {
+    // main ← feat/a ← feat/b, pushed to a bare remote
+    execFileSync('git', ['init', '-q', '--bare', remoteDirectory]);
+    fs.mkdirSync(repoDirectory);
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test User');
+    git('config', 'user.email', 'test@example.com');
+    git('remote', 'add', 'origin', remoteDirectory);
+    const mainBase = commitFile('README.md', 'base\n');
+    git('checkout', '-q', '-b', 'feat/a');
+    const aBase = commitFile('a.txt', 'a\n');
+    git('checkout', '-q', '-b', 'feat/b');
+    commitFile('b.txt', 'b\n');
+    git('push', '-q', 'origin', 'main', 'feat/a', 'feat/b');
+
+    process.chdir(repoDirectory);
+    const stack = new StackService(GitService.instance().getGitCommonDir());
+    stack.record({ branch: 'feat/a', parent: 'main', base: mainBase });
+    stack.record({ branch: 'feat/b', parent: 'feat/a', base: aBase });
+    check('Stack file is in the git directory', fs.realpathSync(stack.filePath), fs.realpathSync(path.join(repoDirectory, '.git', 'aiflow', 'stack.json')));
+    check('Recording the stack leaves the work tree clean', git('status', '--porcelain'), '');
+    check('Ordered stack', stack.getOrderedEntries().map(entry => `${entry.parent} → ${entry.branch}`), ['main → feat/a', 'feat/a → feat/b']);
+
+    // main moves on, untracked files must not block the restack
+    git('checkout', '-q', 'main');
+    const mainTip = commitFile('main.txt', 'main\n');
+    git('push', '-q', 'origin', 'main');
+    git('checkout', '-q', 'feat/b');
+    fs.writeFileSync(path.join(repoDirectory, 'notes.txt'), 'untracked\n', 'utf-8');
+
+    let error = '';
+    try {
+      await new GitAutoMrApp().runStack('restack');
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    check('Restack succeeds with untracked files', error, '');
+
+    const aTip = git('rev-parse', 'feat/a');
+    check('feat/a is rebased onto main', git('merge-base', 'main', 'feat/a'), mainTip);
+    check('feat/b is rebased onto feat/a', git('merge-base', 'feat/a', 'feat/b'), aTip);
+    check('feat/b keeps only its own commit', git('rev-list', '--count', 'feat/a..feat/b'), '1');
+    check('Recorded bases are updated', new StackService(GitService.instance().getGitCommonDir()).getEntries().map(entry => entry.base), [mainTip, aTip]);
+    check('Rebased branches are pushed', [git('rev-parse', 'origin/feat/a'), git('rev-parse', 'origin/feat/b')], [aTip, git('rev-parse', 'feat/b')]);
+    check('Original branch is checked out again', git('rev-parse', '--abbrev-ref', 'HEAD'), 'feat/b');
+
+    // Tracked changes still block the restack
+    fs.writeFileSync(path.join(repoDirectory, 'b.txt'), 'changed\n', 'utf-8');
+    error = '';
+    try {
+      await new GitAutoMrApp().runStack('restack');
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    check('Restack refuses tracked changes', error.startsWith('Working tree has uncommitted changes'), true);
+  } finally {
+    process.chdir(originalDirectory);
+    fs.rmSync(workingDirectory, { recursive: true, force: true });
+  }
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} passed`);
+
+  if (passedTests === totalTests) {
+    console.log(`🎉 All tests passed!`);
+  } else {
+    console.log(`❌ Some tests failed.`);
+    process.exit(1);
+  }
+}
+
+// Run the test
+testStackService().catch(console.error);
@@ -0,0 +1,126 @@
+import { StringUtil } from './string-util.js';
+
+/**
+ * Placeholder values for branch name templates
+ */
+export interface BranchNameVariables {
+  /** Git user name */
+  user?: string;
+  /** Change type, e.g. feat or fix */
+  type?: string;
+  /** Short description of the change, e.g. add-login */
+  slug?: string;
+  /** Issue key, e.g. PROJ-123 or 456 */
+  issue?: string;
+  /** Current date (YYYYMMDD) */
+  date?: string;
+  /** Current date and time (YYYYMMDDHHMMSS) */
+  datetime?: string;
+  /** Short hash of the commit the branch starts from */
+  shortsha?: string;
+  /** Conan package name */
+  package?: string;
+  /** Random 6 character suffix */
+  random?: string;
+}
+
+/**
+ * Utility for rendering and validating branch names from templates ({user}/{type}-{slug})
+ */
+export class BranchNameUtil {
+  static readonly PLACEHOLDERS: Array<keyof BranchNameVariables> = [
+    'user', 'type', 'slug', 'issue', 'date', 'datetime', 'shortsha', 'package', 'random'
+  ];
+
+  /**
+   * Render a branch name template.
+   * Values are sanitized for git refs, and separators left over by empty placeholders are removed
+   * (e.g. "{user}/{issue}-{slug}" without an issue renders as "user/slug").
+   * @param template Branch name template
+   * @param variables Placeholder values
+   * @returns Branch name
+   * @throws Error if the template uses an unknown placeholder
+   */
+  static render(template: string, variables: BranchNameVariables): string {
+    const rendered = template.replace(/\{(\w+)\}/g, (_placeholder, name: string) => {
+      if (!BranchNameUtil.PLACEHOLDERS.includes(name as keyof BranchNameVariables)) {
+        throw new Error(`Unknown placeholder {${name}} in branch template "${template}", supported: ${BranchNameUtil.PLACEHOLDERS.map(key => `{${key}}`).join(' ')}`);
+      }
+      return BranchNameUtil.sanitizeSegment(variables[name as keyof BranchNameVariables] || '');
+    });
+
+    return rendered
+      .replace(/\/{2,}/g, '/')
+      .replace(/([-_.])[-_.]+/g, '$1')
+      .replace(/[-_.]+\//g, '/')
+      .replace(/\/[-_.]+/g, '/')
+      .replace(/^[-_./]+|[-_./]+$/g, '');
+  }
+
+  /**
+   * Split a generated branch suggestion into type and slug
+   * @param branch Branch suggestion, e.g. "feat/add-login"
+   * @param commit Commit message, used for the type when the suggestion has no type
+   * @returns Change type (may be empty) and slug
+   */
+  static splitBranch(branch: string, commit: string = ''): { type: string; slug: string } {
+    const separatorIndex = (branch || '').indexOf('/');
+    if (separatorIndex > 0) {
+      return {
+        type: StringUtil.sanitizeBranch(branch.substring(0, separatorIndex)),
+        slug: StringUtil.sanitizeBranch(branch.substring(separatorIndex + 1))
+      };
+    }
+
+    const commitType = (commit.match(/^(\w+)(?:\([^)]*\))?!?:/)?.[1] || '').toLowerCase();
+    let slug = StringUtil.sanitizeBranch(branch);
+    if (commitType && slug.startsWith(`${commitType}-`)) {
+      slug = slug.substring(commitType.length + 1);
+    }
+    return { type: commitType, slug };
+  }
+
+  /**
+   * Validate a branch name against git ref rules and an optional naming policy
+   * @param branchName Branch name
+   * @param policy Regular expression the whole branch name must match
+   * @returns Violations, empty if the branch name is valid
+   */
+  static validate(branchName: string, policy?: string): string[] {
+    const violations: string[] = [];
+
+    if (!branchName) {
+      violations.push('branch name must not be empty');
+      return violations;
+    }
+    if (/[\s~^:?*[\\]|\.\.|@\{/.test(branchName) || /(^|\/)\.|\.lock(\/|$)|\/$|\.$/.test(branchName)) {
+      violations.push('branch name is not a valid git ref');
+    }
+
+    if (policy) {
+      let policyPattern: RegExp;
+      try {
+        policyPattern = new RegExp(policy);
+      } catch (error) {
+        violations.push(`branch policy /${policy}/ is not a valid regular expression: ${error}`);
+        return violations;
+      }
+      if (!policyPattern.test(branchName)) {
+        violations.push(`branch name does not match branch policy /${policy}/`);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Make a placeholder value safe to use inside a branch name
+   * @param value Placeholder value
+   */
+  private static sanitizeSegment(value: string): string {
+    return value
+      .trim()
+      .replace(/[~^:?*[\]\\@{}\s/]+/g, '-')
+      .replace(/\.{2,}/g, '.');
+  }
+}
@@ -0,0 +1,63 @@
+import clipboard from 'clipboardy';
+import { logger } from '../logger.js';
+import { OutputUtil } from './output-util.js';
+import { processExit } from './process-exit.js';
+
+/**
+ * Non-interactive CI mode, enabled by --ci / --yes or the CI=true environment variable.
+ * In CI mode countdowns are skipped, the clipboard is not used, interactive prompts are refused
+ * and tokens are only read from environment variables.
+ */
+export class CiUtil {
+  /** Exit code used when an interactive prompt is needed in CI mode */
+  static readonly INTERACTIVE_PROMPT_EXIT_CODE = 3;
+
+  /**
+   * Check if CI mode is enabled
+   * @returns True if --ci, --yes or -y is present in CLI args, or CI=true is set
+   */
+  static isCiMode(): boolean {
+    const args = process.argv.slice(2);
+    return args.includes('--ci') || args.includes('--yes') || args.includes('-y') || CiUtil.isCiEnvironment();
+  }
+
+  /**
+   * Check if running in a CI environment (CI=true, set by GitLab CI, GitHub Actions, Jenkins and most runners)
+   */
+  static isCiEnvironment(): boolean {
+    const ci = (process.env.CI || '').trim().toLowerCase();
+    return ci === 'true' || ci === '1';
+  }
+
+  /**
+   * Stop with INTERACTIVE_PROMPT_EXIT_CODE instead of waiting for input that never comes in CI mode
+   * @param reason What the prompt was needed for and how to avoid it
+   */
+  static async refuseInteractivePrompt(reason: string): Promise<never> {
+    const message = `Interactive prompt refused in CI mode: ${reason}`;
+    logger.error(`❌ ${message}`);
+    OutputUtil.recordError(message);
+    return processExit(CiUtil.INTERACTIVE_PROMPT_EXIT_CODE);
+  }
+
+  /**
+   * Copy text to the clipboard. Skipped in CI mode, and a missing clipboard
+   * (e.g. headless Linux without xsel) only logs a warning.
+   * @param text Text to copy
+   * @returns True if the text was copied
+   */
+  static async copyToClipboard(text: string): Promise<boolean> {
+    if (CiUtil.isCiMode()) {
+      logger.debug('Skipping clipboard copy in CI mode');
+      return false;
+    }
+
+    try {
+      await clipboard.write(text);
+      return true;
+    } catch (error) {
+      logger.warn(`⚠️  Could not copy to clipboard: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import { CiUtil } from './ci-util.js';
 
 /**
  * Color utility for console output
@@ -230,9 +231,14 @@ ${this.UI_COLORS.emoji('🌿')} ${this.LOG_COLORS.info('分支信息')}: ${this.
   }
 
   /**
-   * Dynamic countdown display
+   * Dynamic countdown display, skipped in CI mode
    */
   static async countdown(seconds: number, message: string, finalMessage?: string): Promise<void> {
+    if (CiUtil.isCiMode()) {
+      process.stdout.write(`${this.UI_COLORS.emoji('✅')} ${this.LOG_COLORS.success(finalMessage || message)}\n`);
+      return;
+    }
+
     for (let i = seconds; i > 0; i--) {
       process.stdout.write(`\r${this.UI_COLORS.emoji('⏰')} ${this.LOG_COLORS.info(`${message} ${this.UI_COLORS.highlight(i)} seconds...`)}`);
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -0,0 +1,50 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parse } from 'shell-quote';
+
+/**
+ * Utility for editing text in the user's preferred external editor
+ */
+export class EditorUtil {
+  /**
+   * Resolve the editor command from $VISUAL / $EDITOR with a platform default
+   * @returns Editor command line (may include arguments, e.g. "code --wait")
+   */
+  static getEditorCommand(): string {
+    return process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+  }
+
+  /**
+   * Open the given text in the external editor and return the edited result
+   * @param content Initial content
+   * @param fileName Temporary file name, the extension lets editors pick a syntax mode
+   * @returns Edited content with trailing whitespace trimmed
+   */
+  static editText(content: string, fileName: string = 'AIFLOW_EDITMSG.md'): string {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aiflow-'));
+    const tempFile = path.join(tempDir, fileName);
+
+    try {
+      fs.writeFileSync(tempFile, content, 'utf8');
+
+      const [command, ...args] = parse(EditorUtil.getEditorCommand()).filter((arg): arg is string => typeof arg === 'string');
+      if (!command) {
+        throw new Error('No editor configured, please set $EDITOR');
+      }
+
+      const result = spawnSync(command, [...args, tempFile], { stdio: 'inherit' });
+      if (result.error) {
+        throw new Error(`Failed to launch editor "${command}": ${result.error.message}`);
+      }
+      if (result.status !== 0) {
+        throw new Error(`Editor "${command}" exited with code ${result.status}`);
+      }
+
+      return fs.readFileSync(tempFile, 'utf8').replace(/\s+$/, '');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+}
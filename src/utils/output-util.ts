@@ -0,0 +1,160 @@
+/**
+ * Output format of the command line tools
+ */
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * Outcome of a workflow run
+ */
+export type WorkflowStatus =
+  | 'created'     // Merge request created
+  | 'updated'     // Open merge request updated
+  | 'committed'   // Changes committed without a merge request (--commit-only)
+  | 'dry_run'     // Plan printed, nothing changed
+  | 'no_changes'  // Nothing to commit or already up to date
+  | 'aborted'     // Aborted by the user during review
+  | 'error';      // Failed, see error
+
+/**
+ * Token usage of the AI requests made during a run, summed from ThroughputStats
+ */
+export interface TokenUsage {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Machine-readable result of a workflow run, printed to stdout with --output json
+ */
+export interface WorkflowResult {
+  status: WorkflowStatus;
+  /** Process exit code, 0 on success */
+  exitCode: number;
+  /** Error message when status is "error" */
+  error?: string;
+  mrUrl?: string;
+  branchName?: string;
+  targetBranch?: string;
+  commit?: string;
+  title?: string;
+  changedFiles?: string[];
+  /** Conan packages that could not be updated (aiflow-conan), the exit code is then PARTIAL_FAILURE_EXIT_CODE */
+  skippedPackages?: Array<{ packageName: string; error: string }>;
+  usage?: TokenUsage;
+}
+
+/**
+ * Collects the workflow result and prints it as a single JSON document in JSON output mode.
+ * In JSON output mode everything else written to stdout (logs, prompts, countdowns) goes to stderr,
+ * so stdout only carries the result.
+ */
+export class OutputUtil {
+  /** Exit code when the workflow completed but some items (e.g. Conan packages) were skipped */
+  static readonly PARTIAL_FAILURE_EXIT_CODE = 2;
+
+  private static format: OutputFormat = 'text';
+  private static result: Omit<WorkflowResult, 'exitCode'> = { status: 'no_changes' };
+  private static written = false;
+  private static writeStdout: ((text: string) => boolean) | null = null;
+
+  /**
+   * Remove the --output option from command line arguments
+   * @param args Command line arguments
+   * @returns Output format and the remaining arguments
+   * @throws Error if the output format is not supported
+   */
+  static extractOutputFormat(args: string[]): { format: OutputFormat; args: string[] } {
+    const rest: string[] = [];
+    let format: string = 'text';
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '--output') {
+        format = args[++i] || '';
+      } else if (args[i].startsWith('--output=')) {
+        format = args[i].substring('--output='.length);
+      } else {
+        rest.push(args[i]);
+      }
+    }
+
+    if (format !== 'text' && format !== 'json') {
+      throw new Error(`Unsupported output format "${format}", supported: text, json`);
+    }
+    return { format, args: rest };
+  }
+
+  /**
+   * Switch to JSON output: stdout is redirected to stderr until the result is written
+   */
+  static enableJsonOutput(): void {
+    if (OutputUtil.format === 'json') {
+      return;
+    }
+    OutputUtil.format = 'json';
+    const stdoutWrite = process.stdout.write.bind(process.stdout);
+    OutputUtil.writeStdout = (text: string) => stdoutWrite(text);
+    // Console transports and console.log look up stdout.write on every call
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+
+  /**
+   * Check whether JSON output is enabled
+   */
+  static isJsonOutput(): boolean {
+    return OutputUtil.format === 'json';
+  }
+
+  /**
+   * Record fields of the workflow result, later calls override earlier values
+   * @param fields Result fields
+   */
+  static recordResult(fields: Partial<Omit<WorkflowResult, 'exitCode'>>): void {
+    OutputUtil.result = { ...OutputUtil.result, ...fields };
+  }
+
+  /**
+   * Record the error that ended the workflow
+   * @param error Error
+   */
+  static recordError(error: unknown): void {
+    OutputUtil.recordResult({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+
+  /**
+   * Get the exit code matching the recorded result
+   * @returns 1 if an error was recorded, PARTIAL_FAILURE_EXIT_CODE if packages were skipped, 0 otherwise
+   */
+  static getExitCode(): number {
+    if (OutputUtil.result.status === 'error') {
+      return 1;
+    }
+    return OutputUtil.result.skippedPackages?.length ? OutputUtil.PARTIAL_FAILURE_EXIT_CODE : 0;
+  }
+
+  /**
+   * Get the recorded workflow result
+   * @param exitCode Process exit code, derived from the recorded status by default
+   */
+  static getResult(exitCode: number = OutputUtil.getExitCode()): WorkflowResult {
+    const result = { ...OutputUtil.result, exitCode };
+    // A failing exit code without a recorded error still has to report an error status
+    if (exitCode !== 0 && exitCode !== OutputUtil.getExitCode()) {
+      result.status = 'error';
+      result.error = result.error || 'Workflow failed, see logs on stderr';
+    }
+    return result;
+  }
+
+  /**
+   * Print the workflow result to stdout in JSON output mode. Only the first call prints.
+   * @param exitCode Process exit code, derived from the recorded status by default
+   */
+  static writeResult(exitCode: number = OutputUtil.getExitCode()): void {
+    if (OutputUtil.format !== 'json' || OutputUtil.written || !OutputUtil.writeStdout) {
+      return;
+    }
+    OutputUtil.written = true;
+    OutputUtil.writeStdout(`${JSON.stringify(OutputUtil.getResult(exitCode), null, 2)}\n`);
+  }
+}
@@ -1,9 +1,12 @@
 import { logger, shutdownLogger } from '../logger.js';
+import { OutputUtil } from './output-util.js';
 
 export const processExit = async (code: number = 0, error?: Error | any) => {
   if (error) {
     logger.error('❌ Error:', error);
+    OutputUtil.recordError(error);
   }
+  OutputUtil.writeResult(code);
   await shutdownLogger();
   process.exit(code);
 };
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Utility for rendering simple mustache-like templates ({{name}})
+ */
+export class TemplateUtil {
+  /**
+   * Replace {{name}} placeholders with variable values.
+   * Placeholders without a matching variable are kept as-is.
+   * @param template Template text
+   * @param variables Variable values by name
+   * @param escape Escape applied to inserted values, e.g. for JSON string content
+   * @returns Rendered text
+   */
+  static render(
+    template: string,
+    variables: Record<string, string | number | undefined>,
+    escape: (value: string) => string = value => value
+  ): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, name: string) => {
+      const value = variables[name];
+      return value === undefined ? placeholder : escape(String(value));
+    });
+  }
+
+  /**
+   * Check whether a template references a variable
+   * @param template Template text
+   * @param name Variable name
+   */
+  static hasVariable(template: string, name: string): boolean {
+    return new RegExp(`\\{\\{\\s*${name.replace(/\./g, '\\.')}\\s*\\}\\}`).test(template);
+  }
+
+  /**
+   * Read a template file
+   * @param filePath Absolute path, or path relative to baseDir
+   * @param baseDir Directory relative paths are resolved against
+   * @returns Template content
+   */
+  static loadFile(filePath: string, baseDir: string): string {
+    const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(baseDir, filePath);
+    try {
+      return fs.readFileSync(resolvedPath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read template file ${resolvedPath}: ${error}`);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { Shell } from '../shell.js';
 import { logger } from '../logger.js';
+import { CiUtil } from './ci-util.js';
 import semverCompare from 'semver-compare';
 
 /**
@@ -191,6 +192,12 @@ export class UpdateChecker {
         return;
       }
 
+      // Never reinstall the tool in the middle of a pipeline
+      if (CiUtil.isCiMode()) {
+        logger.info('🔄 Skipping update check (CI mode)');
+        return;
+      }
+
       logger.info('🔄 Checking for updates...');
 
       // Only check if enough time has passed since last check